@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AI_TASKS, providerKey } from '@/lib/ai/provider';
+import { resolveAIModel } from '@/lib/ai/config';
+import { AI_CALL_POLICY, circuitStatuses } from '@/lib/ai/resilience';
+import { requestOrganization } from '@/lib/auth';
+
+// Health of the AI providers: circuit breaker state per endpoint, the
+// provider and model each task uses for the caller's organization, and the
+// retry policy in force
+export async function GET(request: NextRequest) {
+  try {
+    const circuits = circuitStatuses();
+    const organizationId = await requestOrganization(request);
+    const tasks = await Promise.all(AI_TASKS.map(async task => {
+      const selection = await resolveAIModel(task, organizationId);
+      const circuit = circuits.find(c => c.key === providerKey(selection));
+      return { task, ...selection, circuit: circuit?.state ?? 'closed' };
+    }));
+
+    return NextResponse.json({
+      status: circuits.some(c => c.state !== 'closed') ? 'degraded' : 'ok',
+      tasks,
+      circuits,
+      policy: AI_CALL_POLICY,
+      checkedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to read AI provider status:', error);
+    return NextResponse.json(
+      { error: 'Failed to read AI provider status' },
+      { status: 500 }
+    );
+  }
+}
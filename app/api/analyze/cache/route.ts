@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { cacheStats, invalidateCache, isValidCacheKey, CacheKind } from '@/lib/analysis/cache';
+import { auditLog } from '@/lib/audit';
+import { requestOrganization } from '@/lib/auth';
+
+const CACHE_KINDS: CacheKind[] = ['hotspot', 'vision'];
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await cacheStats(await requestOrganization(request)));
+  } catch (error) {
+    console.error('Failed to read analysis cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to read analysis cache' },
+      { status: 500 }
+    );
+  }
+}
+
+// Invalidate the caller's organization's cached results. Filter with `key`
+// (one entry), `imageHash` (every analysis of an image) and/or `kind`; no
+// filter clears the organization's cache.
+export async function DELETE(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const { searchParams } = new URL(request.url);
+  const key = searchParams.get('key') || undefined;
+  const imageHash = searchParams.get('imageHash') || undefined;
+  const kind = searchParams.get('kind') || undefined;
+
+  if ((key && !isValidCacheKey(key)) || (imageHash && !isValidCacheKey(imageHash))) {
+    return NextResponse.json(
+      { error: 'key and imageHash must be 64-character hex SHA-256 digests', requestId },
+      { status: 400 }
+    );
+  }
+  if (kind && !CACHE_KINDS.includes(kind as CacheKind)) {
+    return NextResponse.json(
+      { error: `Invalid kind. Allowed kinds: ${CACHE_KINDS.join(', ')}`, requestId },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await invalidateCache(await requestOrganization(request), { key, imageHash, kind: kind as CacheKind | undefined });
+
+    auditLog(request, requestId, 'analysis_cache_invalidated', { key, imageHash, kind, removed });
+
+    return NextResponse.json({ removed, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Cache invalidation failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate analysis cache', requestId },
+      { status: 500 }
+    );
+  }
+}
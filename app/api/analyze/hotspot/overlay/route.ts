@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { renderHotspotOverlay, OverlaySeverity } from '@/lib/thermal/overlay';
+import { overlayResultSchema, OVERLAY_SEVERITIES, OVERLAY_STYLES } from '@/lib/contracts';
+import { checkValue } from '@/lib/validation';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const ALLOWED_FORMATS = ['jpeg', 'jpg', 'png', 'tiff', 'tif', 'bmp'];
+
+// Renders the annotated overlay for a stored hotspot result without
+// re-running the analysis
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const resultInput = formData.get('result') as string | null;
+    const style = (formData.get('style') as string | null) || 'circle';
+
+    if (!file || !(file instanceof File) || !resultInput) {
+      return NextResponse.json(
+        { error: 'Image and result are required', requestId },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024}MB`, requestId },
+        { status: 400 }
+      );
+    }
+
+    const fileExtension = file.name.split('.').pop()?.toLowerCase();
+    if (!fileExtension || !ALLOWED_FORMATS.includes(fileExtension)) {
+      return NextResponse.json(
+        { error: `Invalid file format. Allowed formats: ${ALLOWED_FORMATS.join(', ')}`, requestId },
+        { status: 400 }
+      );
+    }
+
+    if (style !== 'circle' && style !== 'box') {
+      return NextResponse.json(
+        { error: `Invalid overlay style. Allowed styles: ${OVERLAY_STYLES.join(', ')}`, requestId },
+        { status: 400 }
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(resultInput);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in result', requestId },
+        { status: 400 }
+      );
+    }
+
+    // Only checked numbers reach the SVG markup
+    const checked = checkValue(overlayResultSchema, parsed, { requestId });
+    if ('response' in checked) return checked.response;
+    const result = checked.value;
+
+    const severity = (OVERLAY_SEVERITIES as readonly string[]).includes(result.severity ?? '')
+      ? result.severity as OverlaySeverity
+      : 'unknown';
+    const { minTemperature, maxTemperature, temperatureSource } = result.metadata || {};
+    const temperatureRange = temperatureSource === 'radiometric' && typeof minTemperature === 'number' && typeof maxTemperature === 'number'
+      ? { min: minTemperature, max: maxTemperature }
+      : null;
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const png = await renderHotspotOverlay(buffer, result.hotspots, { severity, style, temperatureRange });
+    const filename = `${file.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '_')}_annotated.png`;
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Content-Length': png.length.toString(),
+        'X-Request-ID': requestId
+      }
+    });
+
+  } catch (error) {
+    console.error(`[${requestId}] Overlay rendering failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to render annotated image', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import sharp from 'sharp';
 import crypto from 'crypto';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  analyzeHotspotImage,
+  hotspotCacheParams,
+  hotspotTask,
+  isCacheableHotspotResult,
+  parseHotspotSettings,
+  plannedTileCount,
+  InvalidImageError,
+  MAX_SYNC_MOSAIC_TILES,
+} from '@/lib/analysis/hotspot';
+import { createBatchJob } from '@/lib/jobs/batch';
+import { analyzeThermalVisualPair } from '@/lib/analysis/paired';
+import { imageHash, withResultCache } from '@/lib/analysis/cache';
+import { resolveAIModel } from '@/lib/ai/config';
+import { requestOrganization } from '@/lib/auth';
+import { hotspotUploadSchema } from '@/lib/contracts';
+import { checkValue, formValues } from '@/lib/validation';
+import { auditLog } from '@/lib/audit';
 
 // Enterprise-grade constants
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-const ALLOWED_FORMATS = ['jpeg', 'jpg', 'png', 'tiff', 'bmp'];
-const MAX_IMAGE_DIMENSION = 8192; // 8K resolution
 const REQUEST_TIMEOUT = 30000; // 30 seconds
 
-// Audit logging interface
-interface AuditLog {
-  requestId: string;
-  timestamp: string;
-  clientIp: string;
-  action: string;
-  status: 'success' | 'failure';
-  details: Record<string, unknown>;
-  processingTime?: number;
-}
-
 // Rate limiting store (in production, use Redis)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT = 100; // requests per hour
 const RATE_WINDOW = 3600000; // 1 hour in ms
 
-interface HotspotData {
-  x: number;
-  y: number;
-  intensity: number;
-  temperature?: number;
-}
-
-interface HotspotAnalysisResult {
-  hotspots: HotspotData[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   const requestId = crypto.randomUUID();
   const clientIp = request.headers.get('x-forwarded-for') || 'unknown';
 
-  // Initialize audit log
-  const auditLog: AuditLog = {
-    requestId,
-    timestamp: new Date().toISOString(),
-    clientIp,
-    action: 'hotspot_analysis',
-    status: 'failure',
-    details: {}
-  };
+  // Filled in by the analysis, logged when the request completes or fails
+  const audit: Record<string, unknown> = {};
 
   try {
     // Rate limiting check
@@ -65,7 +43,6 @@ export async function POST(request: NextRequest) {
 
     if (userLimit) {
       if (userLimit.resetTime > now && userLimit.count >= RATE_LIMIT) {
-        auditLog.details = { error: 'Rate limit exceeded' };
         console.error(`[${requestId}] Rate limit exceeded for ${clientIp}`);
         return NextResponse.json(
           { 
@@ -88,50 +65,30 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate request
     const formData = await request.formData();
-    const file = formData.get('image') as File;
-    const imageType = formData.get('imageType') as string || 'auto';
-    const demoMode = formData.get('demoMode') === 'true';
+    const upload = checkValue(hotspotUploadSchema, formValues(formData), { requestId });
+    if ('response' in upload) return upload.response;
+    const { image: file, visualImage: visualFile } = upload.value;
+    const refresh = upload.value.refresh === 'true';
 
-    // Input validation
-    if (!file || !(file instanceof File)) {
-      auditLog.details = { error: 'Invalid file upload' };
-      return NextResponse.json(
-        { error: 'Please provide a valid image file', requestId },
-        { status: 400 }
-      );
-    }
-    
-    // File size validation
-    if (file.size > MAX_FILE_SIZE) {
-      auditLog.details = { error: 'File too large', size: file.size };
+    const parsed = parseHotspotSettings(formData);
+    if ('error' in parsed) {
       return NextResponse.json(
-        { 
-          error: `File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
-          requestId 
-        },
+        { error: parsed.error, requestId },
         { status: 400 }
       );
     }
-    
-    // File type validation
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    if (!fileExtension || !ALLOWED_FORMATS.includes(fileExtension)) {
-      auditLog.details = { error: 'Invalid file format', format: fileExtension };
-      return NextResponse.json(
-        { 
-          error: `Invalid file format. Allowed formats: ${ALLOWED_FORMATS.join(', ')}`,
-          requestId 
-        },
-        { status: 400 }
-      );
-    } // For testing with regular images
-    
-    auditLog.details.fileInfo = {
+    const { settings } = parsed;
+
+    audit.fileInfo = {
       name: file.name,
       size: file.size,
       type: file.type,
-      imageType,
-      demoMode
+      imageType: settings.imageType,
+      demoMode: settings.demoMode,
+      engine: settings.engine,
+      annotate: settings.annotate,
+      refresh,
+      visualImage: visualFile ? { name: visualFile.name, size: visualFile.size } : null
     };
 
     // Convert image to buffer
@@ -144,31 +101,49 @@ export async function POST(request: NextRequest) {
     ]);
     
     const buffer = Buffer.from(arrayBuffer);
+    const visualBuffer = visualFile ? Buffer.from(await visualFile.arrayBuffer()) : null;
     
-    // Validate image integrity
-    let metadata;
+    const organizationId = await requestOrganization(request);
+
+    // Large orthomosaics take one model call per tile, so they run as a
+    // batch job of one frame rather than holding this request open
+    if (!visualBuffer && settings.imageType !== 'visual' && await plannedTileCount(buffer) > MAX_SYNC_MOSAIC_TILES) {
+      const job = await createBatchJob([{ name: file.name, data: buffer }], settings, 'solar', organizationId);
+      auditLog(request, requestId, 'hotspot_analysis', { ...audit, batchJob: job.id, processingTime: Date.now() - startTime });
+      return NextResponse.json(
+        {
+          jobId: job.id,
+          status: job.status,
+          progress: job.progress,
+          statusUrl: `/api/jobs/${job.id}`,
+          resultUrl: `/api/jobs/${job.id}/items/0`,
+          message: `Mosaics over ${MAX_SYNC_MOSAIC_TILES} tiles are analysed in the background; poll statusUrl and fetch resultUrl when the job completes`,
+          requestId
+        },
+        { status: 202 }
+      );
+    }
+
+    const ai = await resolveAIModel(hotspotTask(settings), organizationId);
+
+    let result;
     try {
-      metadata = await sharp(buffer).metadata();
-      
-      // Dimension validation
-      if (!metadata.width || !metadata.height) {
-        throw new Error('Invalid image dimensions');
-      }
-      
-      if (metadata.width > MAX_IMAGE_DIMENSION || metadata.height > MAX_IMAGE_DIMENSION) {
-        throw new Error(`Image dimensions exceed maximum allowed size of ${MAX_IMAGE_DIMENSION}px`);
-      }
-      
-      auditLog.details.imageMetadata = {
-        width: metadata.width,
-        height: metadata.height,
-        format: metadata.format,
-        channels: metadata.channels
-      };
+      const { result: analysis, cache } = await withResultCache(
+        organizationId,
+        'hotspot',
+        buffer,
+        visualBuffer
+          ? { ...hotspotCacheParams(settings, ai), visualImageHash: imageHash(visualBuffer) }
+          : hotspotCacheParams(settings, ai),
+        async () => visualBuffer
+          ? await analyzeThermalVisualPair(buffer, visualBuffer, { ...settings, requestId, ai }, audit)
+          : await analyzeHotspotImage(buffer, { ...settings, requestId, ai }, audit),
+        { refresh, filename: file.name, cacheable: isCacheableHotspotResult }
+      );
+      result = { ...analysis, requestId, ...cache };
+      audit.cache = cache;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      auditLog.details = { error: 'Invalid image file', details: errorMessage };
-      console.error(`[${requestId}] Image validation failed:`, error);
+      if (!(error instanceof InvalidImageError)) throw error;
       return NextResponse.json(
         { 
           error: 'Invalid or corrupted image file. Please upload a valid image.',
@@ -177,324 +152,24 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-
-    // Process the image using sharp
-    const { width = 0, height = 0 } = metadata;
-
-    // Convert to raw pixel data for analysis
-    const { data: pixelArray, info } = await sharp(buffer)
-      .raw()
-      .toBuffer({ resolveWithObject: true });
-
-    const { width: w, height: h, channels } = info;
-    let hotspots: Array<{
-      x: number;
-      y: number;
-      radius: number;
-      intensity: number;
-      area: number;
-      description: string;
-    }> = [];
-    let severity: 'critical' | 'high' | 'medium' | 'low' | 'none' = 'none';
-    let maxTemp: number | null = null;
-
-    // First, check if this looks like a thermal image
-    // Thermal images typically have:
-    // 1. Limited color palette (often grayscale or false color)
-    // 2. Smooth gradients
-    // 3. Specific color mappings (e.g., iron, rainbow, grayscale)
-
-    let colorVariance = 0;
-    let totalPixels = 0;
-    const colorHistogram = new Map<string, number>();
-
-    // Sample the image to check color characteristics
-    for (let y = 0; y < h; y += 20) {
-      for (let x = 0; x < w; x += 20) {
-        const idx = (y * w + x) * channels;
-        const r = pixelArray[idx];
-        const g = pixelArray[idx + 1];
-        const b = pixelArray[idx + 2];
-
-        // Create a color key
-        const colorKey = `${Math.floor(r/32)}-${Math.floor(g/32)}-${Math.floor(b/32)}`;
-        colorHistogram.set(colorKey, (colorHistogram.get(colorKey) || 0) + 1);
-        totalPixels++;
-
-        // Calculate color variance
-        const gray = (r + g + b) / 3;
-        colorVariance += Math.abs(r - gray) + Math.abs(g - gray) + Math.abs(b - gray);
-      }
-    }
-
-    // Check if image has thermal characteristics
-    const avgColorVariance = colorVariance / totalPixels;
-    const uniqueColors = colorHistogram.size;
     
-    // Debug logging
-    console.log('Image analysis:', {
-      uniqueColors,
-      avgColorVariance: avgColorVariance.toFixed(2),
-      totalPixels,
-      imageType: formData.get('imageType'),
-      dimensions: `${w}x${h}`
+    auditLog(request, requestId, 'hotspot_analysis', {
+      ...audit,
+      results: {
+        severity: result.severity,
+        hotspotCount: result.metadata.totalHotspots,
+        confidence: result.confidence
+      },
+      processingTime: Date.now() - startTime
     });
     
-    // Check for thermal-specific patterns
-    let thermalColorPattern = false;
-    
-    // Check if colors follow thermal gradients (iron, rainbow, grayscale patterns)
-    const redBias = colorVariance > 0 ? 
-      Array.from(colorHistogram.keys()).filter(key => {
-        const [r, g, b] = key.split('-').map(Number);
-        return r > g && r > b; // Red-dominant colors (common in iron palette)
-      }).length / colorHistogram.size : 0;
-    
-    // Check for blue/cyan bias (common in thermal cool zones)
-    const blueBias = colorVariance > 0 ?
-      Array.from(colorHistogram.keys()).filter(key => {
-        const [r, g, b] = key.split('-').map(Number);
-        return b > r && b > g; // Blue-dominant colors
-      }).length / colorHistogram.size : 0;
-    
-    // Thermal images have specific characteristics
-    const hasHighColorVariance = avgColorVariance > 50; // Significant color differences
-    const hasModerateColors = uniqueColors > 50 && uniqueColors < 300; // Not too few, not too many
-    const hasColorGradient = uniqueColors > 100 && avgColorVariance > 100; // Rainbow palette
-    const hasThermalBias = redBias > 0.3 || blueBias > 0.3; // Significant red OR blue zones
-    
-    // Check for thermal-like characteristics (more inclusive)
-    thermalColorPattern = (
-      (hasThermalBias && hasModerateColors) || // Iron/hot-cold palette
-      (hasColorGradient && hasHighColorVariance) || // Rainbow thermal palette  
-      (uniqueColors < 50 && avgColorVariance < 10) || // Grayscale thermal
-      (avgColorVariance > 150 && uniqueColors > 100) // High contrast thermal
-    );
-    
-    // If imageType is explicitly set to thermal WITHOUT being 'visual', trust it
-    // In demo mode, treat all images as thermal for testing
-    // Otherwise, use thermal-specific heuristics
-    const isThermalImage = demoMode || 
-      (imageType === 'thermal' && thermalColorPattern) || // Must match thermal patterns if explicitly set
-      (imageType !== 'visual' && thermalColorPattern); // Auto-detect only if patterns match
-    
-    console.log('Thermal detection result:', {
-      isThermalImage,
-      imageType,
-      demoMode,
-      thermalColorPattern,
-      redBias: redBias?.toFixed(2) || '0',
-      blueBias: blueBias?.toFixed(2) || '0',
-      conditions: {
-        highColorVariance: hasHighColorVariance,
-        moderateColors: hasModerateColors,
-        colorGradient: hasColorGradient,
-        thermalBias: hasThermalBias
-      }
-    });
-
-    // If not a thermal image, return no hotspots
-    if (!isThermalImage) {
-      return NextResponse.json({
-        hotspots: [],
-        severity: 'none',
-        confidence: 0.95,
-        metadata: {
-          totalHotspots: 0,
-          maxTemperature: null,
-          affectedArea: 0,
-          message: 'Image does not appear to be a thermal image'
-        }
-      });
-    }
-
-    // Use OpenAI Vision API for thermal image analysis
-    let response: { 
-      metadata?: {
-        confidence?: number;
-        avgTemperature?: number;
-        maxTemperature?: number;
-        minTemperature?: number;
-        temperatureUnit?: string;
-        [key: string]: unknown;
-      } 
-    } = {};
-    
-    try {
-      // Convert buffer to base64 for OpenAI
-      const base64Image = buffer.toString('base64');
-      const mimeType = `image/${formData}`;
-      
-      // Call OpenAI Vision API with specialized thermal analysis prompt
-      const visionResponse = await openai.chat.completions.create({
-        model: "gpt-4.1-2025-04-14",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert thermal imaging analyst specializing in solar panel defect detection. Analyze thermal images to identify hotspots, temperature anomalies, and potential failures."
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `Analyze this thermal image of solar panels and identify all hotspots and defects. 
-                
-                Return a JSON response with the following structure:
-                {
-                  "hotspots": [
-                    {
-                      "x": percentage from left (0-100),
-                      "y": percentage from top (0-100),
-                      "radius": approximate size in pixels,
-                      "intensity": severity percentage (0-100),
-                      "area": affected area in pixels,
-                      "description": "brief description of the defect"
-                    }
-                  ],
-                  "severity": "critical" | "high" | "medium" | "low" | "none",
-                  "maxTemperature": estimated maximum temperature in Celsius,
-                  "analysis": "detailed technical analysis",
-                  "recommendations": ["action item 1", "action item 2", ...],
-                  "confidence": confidence score (0-1)
-                }
-                
-                Focus on:
-                - Hot spots indicating cell failures or bypass diode activation
-                - Temperature gradients suggesting electrical issues
-                - Uniform heating patterns indicating soiling or shading
-                - Module-level vs cell-level defects
-                - Severity classification based on temperature differential`
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 8192,
-        response_format: { type: "json_object" }
-      });
-
-      // Parse the response
-      const visionResult = JSON.parse(visionResponse.choices[0].message.content || '{}');
-      
-      // Extract hotspots and ensure proper format
-      hotspots = (visionResult.hotspots || []).map((h: {
-        x?: number;
-        y?: number;
-        radius?: number;
-        intensity?: number;
-        area?: number;
-        description?: string;
-      }) => ({
-        x: Math.round(h.x || 0),
-        y: Math.round(h.y || 0),
-        radius: Math.round(h.radius || 20),
-        intensity: Math.round(h.intensity || 50),
-        area: h.area || 1000,
-        description: h.description || 'Thermal anomaly detected'
-      }));
-
-      // Use OpenAI's severity assessment
-      severity = visionResult.severity || 'medium';
-      
-      // Store additional analysis data
-      maxTemp = visionResult.maxTemperature || null;
-      const analysis = visionResult.analysis || 'Thermal analysis completed';
-      const recommendations = visionResult.recommendations || [];
-      const aiConfidence = visionResult.confidence || 0.85;
-      
-      // Store AI-powered metadata
-      response = {
-        metadata: {
-          analysis,
-          recommendations,
-          aiModel: 'gpt-4o',
-          confidence: aiConfidence
-        }
-      };
-
-    } catch (visionError) {
-      console.error('OpenAI Vision API error:', visionError);
-      
-      // Fallback to basic detection if OpenAI fails
-      // This ensures the service remains available even if OpenAI is down
-      return NextResponse.json({
-        hotspots: [],
-        severity: 'unknown',
-        confidence: 0.5,
-        metadata: {
-          totalHotspots: 0,
-          maxTemperature: null,
-          affectedArea: 0,
-          message: 'Advanced analysis temporarily unavailable. Please try again.',
-          error: 'vision_api_error'
-        }
-      });
-    }
-
-
-    // Calculate metadata
-    const totalArea = hotspots.reduce((sum, h) => sum + (h.area || Math.PI * h.radius * h.radius), 0);
-    
-    // Prepare response with AI-enhanced data
-    const finalResponse = {
-      requestId,
-      severity,
-      hotspots: hotspots.slice(0, 50), // Increased limit for AI detection
-      confidence: isThermalImage ? 0.85 : 0,
-      metadata: {
-        totalHotspots: hotspots.length,
-        maxTemperature: maxTemp,
-        affectedArea: Math.round(totalArea / 100), // Convert to percentage
-        imageType: isThermalImage ? 'thermal' : 'visual',
-        dimensions: { width, height },
-        processingTime: `${Date.now() - startTime}ms`,
-        timestamp: new Date().toISOString()
-      }
-    };
-    
-    // Merge AI metadata if available
-    if (response.metadata) {
-      finalResponse.metadata = { ...finalResponse.metadata, ...response.metadata };
-      if (response.metadata.confidence) {
-        // Normalize confidence to 0-1 range if AI returns percentage
-        let normalizedConfidence = response.metadata.confidence;
-        if (normalizedConfidence > 1) {
-          normalizedConfidence = normalizedConfidence / 100;
-        }
-        finalResponse.confidence = normalizedConfidence;
-      }
-    }
-    
-    // Update audit log for success
-    auditLog.status = 'success';
-    auditLog.processingTime = Date.now() - startTime;
-    auditLog.details.results = {
-      severity,
-      hotspotCount: hotspots.length,
-      confidence: isThermalImage ? 0.85 : 0
-    };
-    
-    // Log audit trail (in production, save to database)
-    console.log(`[AUDIT] ${JSON.stringify(auditLog)}`);
-    
-    return NextResponse.json(finalResponse);
+    return NextResponse.json(result);
     
   } catch (error) {
     // Enhanced error handling
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    auditLog.details.error = errorMessage;
-    auditLog.processingTime = Date.now() - startTime;
-    
     console.error(`[${requestId}] Hotspot analysis failed:`, error);
-    console.log(`[AUDIT] ${JSON.stringify(auditLog)}`);
+    auditLog(request, requestId, 'hotspot_analysis', { ...audit, error: errorMessage, processingTime: Date.now() - startTime }, 'failure');
     
     // Sanitize error message for client
     const clientError = errorMessage.includes('timeout') 
@@ -1,16 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  analyzeComponentImage,
+  decodeDisplayedFaultCodes,
+  isCacheableVisionResult,
+  visionCacheParams,
+} from '@/lib/analysis/vision';
+import { isInspectionComponentType, INSPECTION_COMPONENT_TYPES } from '@/lib/components';
+import { withResultCache } from '@/lib/analysis/cache';
+import { resolveAIModel } from '@/lib/ai/config';
+import { AIUnavailableError } from '@/lib/ai/resilience';
+import { requestOrganization } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
-    const image = formData.get('image') as File;
-    const type = formData.get('type') as string; // 'battery' or 'inverter'
+    const image = formData.get('image');
+    const type = formData.get('type'); // registered component type
+    const refresh = formData.get('refresh') === 'true';
 
     if (!image || !type) {
       return NextResponse.json(
@@ -19,81 +25,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert image to base64
-    const bytes = await image.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const base64Image = buffer.toString('base64');
-
-    // Create appropriate prompt based on component type
-    const prompts = {
-      battery: `Analyze this battery system image for defects. Look for:
-        1. Thermal anomalies or hot spots
-        2. Physical damage or corrosion
-        3. Improper connections or loose terminals
-        4. Swelling or deformation
-        5. Electrolyte leakage
-        
-        Provide a detailed analysis including:
-        - Defect type and severity (critical/high/medium/low)
-        - Specific location of issues
-        - Recommended actions
-        - Safety concerns if any`,
-      
-      inverter: `Analyze this inverter image for defects. Look for:
-        1. Overheating signs or thermal stress
-        2. Component damage or burn marks
-        3. Dust accumulation affecting cooling
-        4. LED indicator status
-        5. Cable or connection issues
-        
-        Provide a detailed analysis including:
-        - Defect type and severity (critical/high/medium/low)
-        - Specific component affected
-        - Recommended maintenance actions
-        - Operational impact assessment`
-    };
-
-    // Call OpenAI Vision API
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-2025-04-14",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompts[type as keyof typeof prompts] || "Analyze this image for defects",
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`,
-                detail: "high"
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 10000,
-    });
+    if (!(image instanceof File)) {
+      return NextResponse.json(
+        { error: 'Please provide a valid image file' },
+        { status: 400 }
+      );
+    }
 
-    const analysis = response.choices[0].message.content;
+    if (typeof type !== 'string' || !isInspectionComponentType(type)) {
+      return NextResponse.json(
+        { error: `Invalid type. Allowed types: ${INSPECTION_COMPONENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Parse the analysis to extract structured data
-    const structuredResult = {
-      type,
-      analysis,
-      timestamp: new Date().toISOString(),
-      defectsFound: analysis?.toLowerCase().includes('defect') || 
-                    analysis?.toLowerCase().includes('issue') ||
-                    analysis?.toLowerCase().includes('problem'),
-      confidence: 0.85, // You could implement more sophisticated confidence scoring
-    };
+    const buffer = Buffer.from(await image.arrayBuffer());
+    const organizationId = await requestOrganization(request);
+    const ai = await resolveAIModel('vision', organizationId);
+    const { result, cache } = await withResultCache(
+      organizationId,
+      'vision',
+      buffer,
+      visionCacheParams(type, ai),
+      () => analyzeComponentImage(buffer, type, ai),
+      { refresh, filename: image.name, cacheable: isCacheableVisionResult }
+    );
 
-    return NextResponse.json(structuredResult);
+    // Decoded after the cache so fault-code library edits apply immediately
+    const decoded = await decodeDisplayedFaultCodes(result, organizationId);
+    return NextResponse.json({ ...decoded, ...cache });
 
   } catch (error) {
     console.error('Vision analysis error:', error);
+    if (error instanceof AIUnavailableError) {
+      return NextResponse.json(
+        { error: 'AI provider is temporarily unavailable. Try again shortly.' },
+        { status: 503 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to analyze image' },
       { status: 500 }
@@ -1,17 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { addUser } from "@/lib/auth";
+import { signupRequestSchema } from "@/lib/contracts";
+import { checkBody } from "@/lib/validation";
 
-export async function POST(request: Request) {
-  try {
-    const { email, password, name } = await request.json();
-
-    if (!email || !password || !name) {
-      return NextResponse.json(
-        { error: "Missing required fields" },
-        { status: 400 }
-      );
-    }
+export async function POST(request: NextRequest) {
+  const body = await checkBody(request, signupRequestSchema);
+  if ("response" in body) return body.response;
+  const { email, password, name } = body.value;
 
+  try {
     const user = await addUser(email, password, name);
     return NextResponse.json({ user }, { status: 201 });
   } catch (error) {
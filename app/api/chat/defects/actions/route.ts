@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { applyChangeSet, takeChangeSet, ChangeSetOutcome } from '@/lib/chat/actions';
+import { expireProposal, updateProposalState } from '@/lib/chat/threads';
+import { requestUser } from '@/lib/auth';
+import { chatDecisionSchema } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
+import { auditLog } from '@/lib/audit';
+
+function outcomeNote(outcome: ChangeSetOutcome, total: number): string {
+  return [
+    `Applied ${outcome.applied.length} of ${total} change${total === 1 ? '' : 's'}.`,
+    ...outcome.workOrders.map(order => `Work order ${order.id} created.`),
+    ...outcome.skipped.map(({ change, reason }) =>
+      `Skipped ${change.kind === 'update_defect' ? change.defectId : 'work order'}: ${reason}.`),
+  ].join(' ');
+}
+
+// Confirm or reject a change set the defect assistant proposed. Body:
+// { changeSetId, decision: 'confirm' | 'reject', threadId? }. A change set
+// is used once, by the user it was proposed to; the decision is recorded in
+// the thread it was proposed in. An unknown or expired change set answers
+// 404 and marks the thread's proposal expired.
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await checkBody(request, chatDecisionSchema, { requestId });
+  if ('response' in body) return body.response;
+  const { changeSetId, decision, threadId } = body.value;
+
+  try {
+    const owner = await requestUser(request);
+    const { organizationId } = owner;
+    const changeSet = takeChangeSet(owner, changeSetId);
+    if (!changeSet) {
+      const error = 'These changes expired before they were confirmed; nothing was changed. Ask again to propose them anew.';
+      if (threadId) await expireProposal(owner, threadId, changeSetId, error);
+      return NextResponse.json({ error, proposalState: 'expired', requestId }, { status: 404 });
+    }
+
+    if (decision === 'reject') {
+      const note = 'No changes were made.';
+      if (threadId) await updateProposalState(owner, threadId, changeSetId, 'rejected', note);
+      auditLog(request, requestId, 'chat_changes_rejected', { changeSetId, threadId, changes: changeSet.changes.length });
+      return NextResponse.json({ rejected: true, note, requestId });
+    }
+
+    const outcome = await applyChangeSet(organizationId, changeSet);
+    const note = outcomeNote(outcome, changeSet.changes.length);
+    if (threadId) await updateProposalState(owner, threadId, changeSetId, 'applied', note);
+    auditLog(request, requestId, 'chat_changes_applied', {
+      changeSetId,
+      threadId,
+      applied: outcome.applied,
+      skipped: outcome.skipped,
+      workOrderIds: outcome.workOrders.map(order => order.id),
+    });
+    return NextResponse.json({ ...outcome, note, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Applying chat changes failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to apply changes', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getThread } from '@/lib/chat/threads';
+import { exportFilename, pdfExportProblem, threadToMarkdown, threadToPdf } from '@/lib/chat/export';
+import { requestUser } from '@/lib/auth';
+
+// Download a thread as Markdown (`?format=markdown`, the default) or PDF
+// (`?format=pdf`) to attach to a maintenance ticket. Threads in Gujarati,
+// Hindi, Marathi or Tamil are refused as PDF; the Markdown export keeps them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const { threadId } = await params;
+  const format = request.nextUrl.searchParams.get('format') ?? 'markdown';
+  if (format !== 'markdown' && format !== 'pdf') {
+    return NextResponse.json({ error: 'format must be markdown or pdf', threadId }, { status: 400 });
+  }
+
+  try {
+    const thread = await getThread(await requestUser(request), threadId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found', threadId }, { status: 404 });
+    }
+
+    const problem = format === 'pdf' ? pdfExportProblem(thread) : null;
+    if (problem) {
+      return NextResponse.json(
+        { error: problem, threadId, markdownUrl: `/api/chat/threads/${threadId}/export?format=markdown` },
+        { status: 400 }
+      );
+    }
+
+    const body = format === 'pdf' ? threadToPdf(thread) : Buffer.from(threadToMarkdown(thread), 'utf-8');
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFilename(thread, format === 'pdf' ? 'pdf' : 'md')}"`,
+        'Content-Length': body.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to export chat thread ${threadId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export chat thread', threadId },
+      { status: 500 }
+    );
+  }
+}
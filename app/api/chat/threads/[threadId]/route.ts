@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteThread, getThread } from '@/lib/chat/threads';
+import { requestUser } from '@/lib/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const { threadId } = await params;
+
+  try {
+    const thread = await getThread(await requestUser(request), threadId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found', threadId }, { status: 404 });
+    }
+    return NextResponse.json(thread);
+  } catch (error) {
+    console.error(`Failed to read chat thread ${threadId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to read chat thread', threadId },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const { threadId } = await params;
+
+  try {
+    const removed = await deleteThread(await requestUser(request), threadId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Thread not found', threadId }, { status: 404 });
+    }
+    return NextResponse.json({ removed, threadId });
+  } catch (error) {
+    console.error(`Failed to delete chat thread ${threadId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to delete chat thread', threadId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listThreads } from '@/lib/chat/threads';
+import { requestUser } from '@/lib/auth';
+
+// The signed-in user's chat threads, most recently active first. `?site=`
+// narrows to one site; an empty value selects threads about every site.
+export async function GET(request: NextRequest) {
+  const site = request.nextUrl.searchParams.get('site');
+
+  try {
+    const threads = await listThreads(await requestUser(request), site === null ? undefined : site || null);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Failed to list chat threads:', error);
+    return NextResponse.json(
+      { error: 'Failed to list chat threads' },
+      { status: 500 }
+    );
+  }
+}
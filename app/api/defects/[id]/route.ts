@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { deleteDefect, getDefect, updateDefect } from '@/lib/defects/store';
+import { defectUpdateSchema } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
+import { requestOrganization } from '@/lib/auth';
+import { auditLog } from '@/lib/audit';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const defect = await getDefect(await requestOrganization(request), id);
+    if (!defect) {
+      return NextResponse.json({ error: 'Defect not found', id }, { status: 404 });
+    }
+    return NextResponse.json(defect);
+  } catch (error) {
+    console.error(`Failed to read defect ${id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to read defect', id },
+      { status: 500 }
+    );
+  }
+}
+
+// Edit type, severity, status, assignee, site, location or description
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const { id } = await params;
+
+  const body = await checkBody(request, defectUpdateSchema, { requestId });
+  if ('response' in body) return body.response;
+  const updates = body.value;
+
+  try {
+    const defect = await updateDefect(await requestOrganization(request), id, updates);
+    if (!defect) {
+      return NextResponse.json({ error: 'Defect not found', requestId }, { status: 404 });
+    }
+    auditLog(request, requestId, 'defect_updated', {
+      defectId: id,
+      fields: Object.entries(updates).filter(([, value]) => value !== undefined).map(([field]) => field),
+    });
+    return NextResponse.json({ defect, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Updating defect ${id} failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update defect', requestId },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = crypto.randomUUID();
+  const { id } = await params;
+
+  try {
+    const removed = await deleteDefect(await requestOrganization(request), id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Defect not found', requestId }, { status: 404 });
+    }
+    auditLog(request, requestId, 'defect_deleted', { defectId: id });
+    return NextResponse.json({ removed, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Deleting defect ${id} failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to delete defect', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { createDefect, listDefects } from '@/lib/defects/store';
+import { defectInputSchema, defectQuerySchema } from '@/lib/contracts';
+import { checkBody, checkValue, queryValues } from '@/lib/validation';
+import { requestOrganization } from '@/lib/auth';
+import { auditLog } from '@/lib/audit';
+
+// The organization's defects, newest first. Filters: site, severity, status,
+// type and from/to (ISO dates).
+export async function GET(request: NextRequest) {
+  const query = checkValue(defectQuerySchema, queryValues(request));
+  if ('response' in query) return query.response;
+
+  try {
+    const organizationId = await requestOrganization(request);
+    return NextResponse.json({ defects: await listDefects(organizationId, query.value) });
+  } catch (error) {
+    console.error('Failed to read defect register:', error);
+    return NextResponse.json(
+      { error: 'Failed to read defects' },
+      { status: 500 }
+    );
+  }
+}
+
+// Record a defect. The client may choose the id (defect-...) so it can
+// show the defect before the write completes.
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await checkBody(request, defectInputSchema, { requestId });
+  if ('response' in body) return body.response;
+
+  try {
+    const organizationId = await requestOrganization(request);
+    const defect = await createDefect(organizationId, body.value);
+    if (!defect) {
+      return NextResponse.json({ error: 'A defect with this id already exists', requestId }, { status: 409 });
+    }
+    auditLog(request, requestId, 'defect_created', { defectId: defect.id, severity: defect.severity });
+    return NextResponse.json({ defect, requestId }, { status: 201 });
+  } catch (error) {
+    console.error(`[${requestId}] Recording defect failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to record defect', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import {
+  loadFaultLibrary,
+  lookupFaultCode,
+  normaliseFaultCode,
+  removeFaultCode,
+  upsertFaultCode,
+} from '@/lib/analysis/faults';
+import { faultCodeRequestSchema } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
+import { auditLog } from '@/lib/audit';
+import { requestOrganization } from '@/lib/auth';
+
+// The caller's organization's library (defaults with its overrides), or one
+// decoded code with `manufacturer`, `model` (optional) and `code`
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const manufacturer = searchParams.get('manufacturer');
+  const model = searchParams.get('model');
+  const code = searchParams.get('code');
+
+  try {
+    const library = await loadFaultLibrary(await requestOrganization(request));
+    if (!manufacturer && !code) {
+      return NextResponse.json(library);
+    }
+    if (!manufacturer || !code) {
+      return NextResponse.json({ error: 'manufacturer and code are required for a lookup' }, { status: 400 });
+    }
+
+    const match = lookupFaultCode(library, manufacturer, model, code);
+    if (!match) {
+      return NextResponse.json({ error: 'Fault code not found' }, { status: 404 });
+    }
+    return NextResponse.json(match);
+  } catch (error) {
+    console.error('Failed to read fault-code library:', error);
+    return NextResponse.json(
+      { error: 'Failed to read fault-code library' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add or replace a code for the caller's organization. Body:
+// { manufacturer, model, code, entry }; use model '*' for codes shared by
+// every model of the manufacturer.
+export async function PUT(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await checkBody(request, faultCodeRequestSchema, { requestId });
+  if ('response' in body) return body.response;
+  const { manufacturer, model, code, entry } = body.value;
+  if (!normaliseFaultCode(code)) {
+    return NextResponse.json(
+      { error: 'code must contain the number or identifier, not only a prefix such as ALARM', requestId },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await upsertFaultCode(await requestOrganization(request), manufacturer, model, code, entry);
+    auditLog(request, requestId, 'fault_code_saved', { manufacturer, model, code });
+    return NextResponse.json({ saved: true, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Saving fault code failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save fault code', requestId },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a code for the caller's organization; default codes stay in the
+// library of every other organization
+export async function DELETE(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const { searchParams } = new URL(request.url);
+  const manufacturer = searchParams.get('manufacturer');
+  const model = searchParams.get('model');
+  const code = searchParams.get('code');
+
+  if (!manufacturer || !model || !code) {
+    return NextResponse.json(
+      { error: 'manufacturer, model and code are required', requestId },
+      { status: 400 }
+    );
+  }
+  if (!normaliseFaultCode(code)) {
+    return NextResponse.json(
+      { error: 'code must contain the number or identifier, not only a prefix such as ALARM', requestId },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await removeFaultCode(await requestOrganization(request), manufacturer, model, code);
+    if (!removed) {
+      return NextResponse.json({ error: 'Fault code not found', requestId }, { status: 404 });
+    }
+    auditLog(request, requestId, 'fault_code_removed', { manufacturer, model, code });
+    return NextResponse.json({ removed, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Removing fault code failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to remove fault code', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchJob, resumeBatchJobs, BatchJob } from '@/lib/jobs/batch';
+import { requestOrganization } from '@/lib/auth';
+
+const POLL_INTERVAL = 1000; // 1 second
+
+// Server-sent events stream of job progress. Each `progress` event carries
+// the job status, counters and the items that changed since the last event;
+// a final `done` event is sent when every frame has finished.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  await resumeBatchJobs();
+
+  const organizationId = await requestOrganization(request);
+  if (!(await getBatchJob(organizationId, jobId))) {
+    return NextResponse.json({ error: 'Job not found', jobId }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastUpdate = '';
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      while (!request.signal.aborted) {
+        const job: BatchJob | null = await getBatchJob(organizationId, jobId);
+        if (!job) break;
+
+        if (job.updatedAt !== lastUpdate) {
+          const { items, ...status } = job;
+          send('progress', { ...status, items: items.filter(item => item.updatedAt > lastUpdate) });
+          lastUpdate = job.updatedAt;
+        }
+
+        if (job.status === 'completed' || job.status === 'completed_with_errors') {
+          send('done', { status: job.status, progress: job.progress });
+          break;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      }
+
+      controller.close();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
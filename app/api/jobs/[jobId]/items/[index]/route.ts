@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchItemResult } from '@/lib/jobs/batch';
+import { requestOrganization } from '@/lib/auth';
+
+// Full analysis result for one frame of a batch job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string; index: string }> }
+) {
+  const { jobId, index } = await params;
+  const result = await getBatchItemResult(await requestOrganization(request), jobId, Number(index));
+
+  if (result === null) {
+    return NextResponse.json(
+      { error: 'Result not found. The frame may still be pending or may have failed.', jobId, index },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(result);
+}
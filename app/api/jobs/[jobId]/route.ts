@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchJob, resumeBatchJobs } from '@/lib/jobs/batch';
+import { requestOrganization } from '@/lib/auth';
+
+// Job status for polling. `?since=<ISO timestamp>` returns only the items
+// that changed after that time, so clients can poll large flights cheaply.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    await resumeBatchJobs();
+    const job = await getBatchJob(await requestOrganization(request), jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found', jobId }, { status: 404 });
+    }
+
+    const since = request.nextUrl.searchParams.get('since');
+    if (since && isNaN(Date.parse(since))) {
+      return NextResponse.json({ error: 'since must be an ISO timestamp', jobId }, { status: 400 });
+    }
+
+    const items = since ? job.items.filter(item => item.updatedAt > since) : job.items;
+    return NextResponse.json({ ...job, items });
+
+  } catch (error) {
+    console.error(`Failed to read batch job ${jobId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to read batch job', jobId },
+      { status: 500 }
+    );
+  }
+}
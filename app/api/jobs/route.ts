@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import type { IncomingMessage } from 'http';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import formidable from 'formidable';
+import type { File as UploadedFile } from 'formidable';
+import { parseHotspotSettings } from '@/lib/analysis/hotspot';
+import { createBatchJob, listBatchJobs, BatchUpload, UPLOADS_DIR } from '@/lib/jobs/batch';
+import { COMPONENT_TYPES, ComponentType } from '@/lib/components';
+import { isZipArchive, readZipEntries, ZipEntryInfo } from '@/lib/jobs/zip';
+import { requestOrganization } from '@/lib/auth';
+import { auditLog } from '@/lib/audit';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB per frame
+const MAX_MOSAIC_FILE_SIZE = 500 * 1024 * 1024; // 500MB for stitched GeoTIFFs
+const MAX_BATCH_SIZE = 2 * 1024 * 1024 * 1024; // 2GB per submission
+const MAX_BATCH_FILES = 5000;
+// formidable's error code for a submission with more than maxFiles files
+const FORMIDABLE_MAX_FILES_EXCEEDED = 1015;
+const ALLOWED_FORMATS = ['jpeg', 'jpg', 'png', 'tiff', 'tif', 'bmp'];
+const MOSAIC_FORMATS = ['tiff', 'tif'];
+
+function maxFileSize(name: string): number {
+  const extension = name.split('.').pop()?.toLowerCase();
+  return extension && MOSAIC_FORMATS.includes(extension) ? MAX_MOSAIC_FILE_SIZE : MAX_FILE_SIZE;
+}
+
+// A submission that cannot become a job; `status` is the response status
+class BatchUploadError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'BatchUploadError';
+  }
+}
+
+function batchTooLarge(): BatchUploadError {
+  return new BatchUploadError(
+    `Batch exceeds maximum size of ${MAX_BATCH_SIZE / 1024 / 1024 / 1024}GB. Split the flight into several jobs.`,
+    413
+  );
+}
+
+function isAllowedImage(name: string): boolean {
+  const baseName = name.split('/').pop() || '';
+  // Skip macOS resource forks and hidden files that ZIP tools add
+  if (baseName.startsWith('.') || name.startsWith('__MACOSX/')) return false;
+  const extension = baseName.split('.').pop()?.toLowerCase();
+  return !!extension && ALLOWED_FORMATS.includes(extension);
+}
+
+// Stream the multipart body into `dir`: files are written to disk as they
+// arrive, so a submission is never held in memory. The other fields come
+// back as FormData for parseHotspotSettings.
+async function parseUpload(request: NextRequest, dir: string) {
+  if (!request.body) throw new BatchUploadError('Request body must be multipart form data', 400);
+  const form = formidable({
+    uploadDir: dir,
+    maxFileSize: MAX_BATCH_SIZE,
+    maxTotalFileSize: MAX_BATCH_SIZE,
+    maxFiles: MAX_BATCH_FILES,
+    allowEmptyFiles: true,
+    minFileSize: 0,
+    // Parts other than frames and archives are skipped without being stored
+    filter: part => part.name === 'images' || part.name === 'archive',
+  });
+  // formidable treats a body with neither content-length nor
+  // transfer-encoding as empty, which a fetch Request need not carry
+  const headers = Object.fromEntries(request.headers);
+  if (!headers['content-length']) headers['transfer-encoding'] ??= 'chunked';
+  const body = Object.assign(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>), { headers });
+
+  let fields: formidable.Fields;
+  let files: formidable.Files;
+  try {
+    [fields, files] = await form.parse(body as unknown as IncomingMessage);
+  } catch (error) {
+    const { httpCode, code } = error as { httpCode?: number; code?: number };
+    if (code === FORMIDABLE_MAX_FILES_EXCEEDED) {
+      throw new BatchUploadError(`Batch exceeds maximum of ${MAX_BATCH_FILES} images`, 400);
+    }
+    if (httpCode === 413) throw batchTooLarge();
+    if (httpCode && httpCode < 500) {
+      throw new BatchUploadError(error instanceof Error ? error.message : 'Invalid multipart upload', 400);
+    }
+    throw error;
+  }
+
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, values]) => values?.forEach(value => formData.append(name, value)));
+  return { formData, images: files.images ?? [], archives: files.archive ?? [] };
+}
+
+// Frames of the submission, one at a time: loose `images` first, then every
+// `archive` entry. Inflated bytes are counted across all of them against
+// MAX_BATCH_SIZE; loose frames are moved into the job from the staging
+// directory and archives are read from it entry by entry.
+async function* batchUploads(
+  images: UploadedFile[],
+  archives: UploadedFile[],
+  rejected: string[]
+): AsyncGenerator<BatchUpload> {
+  let totalSize = 0;
+  let count = 0;
+  const countFrame = (size: number) => {
+    totalSize += size;
+    if (totalSize > MAX_BATCH_SIZE) throw batchTooLarge();
+    if (++count > MAX_BATCH_FILES) {
+      throw new BatchUploadError(`Batch exceeds maximum of ${MAX_BATCH_FILES} images`, 400);
+    }
+  };
+
+  for (const image of images) {
+    const name = image.originalFilename || 'image';
+    if (!isAllowedImage(name) || image.size > maxFileSize(name)) {
+      rejected.push(name);
+      continue;
+    }
+    countFrame(image.size);
+    yield { name, path: image.filepath };
+  }
+
+  for (const archive of archives) {
+    const archiveName = archive.originalFilename || 'archive';
+    if (!(await isZipArchive(archive.filepath))) {
+      throw new BatchUploadError(`${archiveName} is not a ZIP archive`, 400);
+    }
+
+    // Only wanted frames within the size limits are decompressed; entries
+    // inflate to at most their declared size, which is counted beforehand
+    const accept = ({ name, size }: ZipEntryInfo) => {
+      if (isAllowedImage(name) && size <= maxFileSize(name)) {
+        countFrame(size);
+        return true;
+      }
+      if (!name.startsWith('__MACOSX/')) rejected.push(name);
+      return false;
+    };
+    const entries = readZipEntries(archive.filepath, accept);
+    while (true) {
+      let entry: IteratorResult<BatchUpload>;
+      try {
+        entry = await entries.next();
+      } catch (error) {
+        if (error instanceof BatchUploadError) throw error;
+        throw new BatchUploadError(error instanceof Error ? error.message : 'Invalid ZIP archive', 400);
+      }
+      if (entry.done) break;
+      yield entry.value;
+    }
+  }
+
+  if (count === 0) {
+    throw new BatchUploadError(
+      `No analysable images found. Allowed formats: ${ALLOWED_FORMATS.join(', ')}`,
+      400,
+      { rejected }
+    );
+  }
+}
+
+// Submit a batch of frames as multipart `images` and/or ZIP `archive` files.
+// Accepts the same analysis fields as /api/analyze/hotspot, plus an optional
+// `componentType` applied to every frame (inferred from filenames otherwise).
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const stagingDir = path.join(UPLOADS_DIR, requestId);
+
+  try {
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_BATCH_SIZE) throw batchTooLarge();
+
+    await fs.mkdir(stagingDir, { recursive: true });
+    const { formData, images, archives } = await parseUpload(request, stagingDir);
+    const parsed = parseHotspotSettings(formData);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error, requestId }, { status: 400 });
+    }
+
+    const componentType = formData.get('componentType') as string | null;
+    if (componentType && !COMPONENT_TYPES.includes(componentType as ComponentType)) {
+      return NextResponse.json(
+        { error: `Invalid component type. Allowed types: ${COMPONENT_TYPES.join(', ')}`, requestId },
+        { status: 400 }
+      );
+    }
+
+    const rejected: string[] = [];
+    const job = await createBatchJob(
+      batchUploads(images, archives, rejected),
+      parsed.settings,
+      componentType as ComponentType | undefined,
+      await requestOrganization(request)
+    );
+
+    auditLog(request, requestId, 'batch_job_submitted', { jobId: job.id, images: job.items.length, rejected: rejected.length, engine: parsed.settings.engine });
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        progress: job.progress,
+        rejected,
+        statusUrl: `/api/jobs/${job.id}`,
+        eventsUrl: `/api/jobs/${job.id}/events`,
+        requestId
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    if (error instanceof BatchUploadError) {
+      return NextResponse.json({ error: error.message, ...error.details, requestId }, { status: error.status });
+    }
+    console.error(`[${requestId}] Batch job submission failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to create batch job', requestId },
+      { status: 500 }
+    );
+  } finally {
+    // Frames were moved into the job; what is left are archives and rejects
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+}
+
+// The requesting organization's jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ jobs: await listBatchJobs(await requestOrganization(request)) });
+  } catch (error) {
+    console.error('Failed to list batch jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list batch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { getProfile, updateProfile } from '@/lib/profiles';
+import { profileUpdateSchema } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
+import { requestUser } from '@/lib/auth';
+
+// The signed-in user's settings, e.g. { language: 'gu' }
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await getProfile(await requestUser(request)));
+  } catch (error) {
+    console.error('Failed to read profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to read profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// Change settings; fields left out keep their value
+export async function PATCH(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await checkBody(request, profileUpdateSchema, { requestId });
+  if ('response' in body) return body.response;
+
+  try {
+    const profile = await updateProfile(await requestUser(request), body.value);
+    return NextResponse.json({ ...profile, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Updating profile failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update profile', requestId },
+      { status: 500 }
+    );
+  }
+}
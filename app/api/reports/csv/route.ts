@@ -3,12 +3,64 @@ import { createObjectCsvStringifier } from 'csv-writer';
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { reportRequestSchema, ReportRequest } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
 
 // Enterprise constants
-const VALID_REPORT_TYPES = ['comprehensive', 'defects', 'maintenance', 'executive'];
-const VALID_DATE_RANGES = ['today', 'last-7-days', 'last-30-days', 'last-90-days', 'custom'];
 const MAX_EXPORT_ROWS = 100000; // 100k rows max
 const MAX_EXPORT_SIZE = 50 * 1024 * 1024; // 50MB
+const RANGE_DAYS: Record<string, number> = { 'today': 0, 'last-7-days': 7, 'last-30-days': 30, 'last-90-days': 90 };
+const SEVERITY_ORDER = ['Critical', 'High', 'Warning', 'Medium', 'Low', 'Normal'];
+const RECOMMENDATIONS: Record<string, string> = {
+  critical: 'Immediate repair',
+  high: 'Schedule repair',
+  medium: 'Monitor closely',
+  low: 'Routine maintenance'
+};
+
+type ExportDefect = NonNullable<ReportRequest['defects']>[number];
+
+interface InspectionRow {
+  location: string;
+  date: string;
+  severity: string;
+  issuesFound: string;
+  recommendation: string;
+  temperature: string;
+  efficiency: string;
+  defectType: string;
+  gpsLat: string;
+  gpsLng: string;
+}
+
+function inRange(timestamp: string, dateRange: string): boolean {
+  const days = RANGE_DAYS[dateRange];
+  if (days === undefined) return true;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - days);
+  return new Date(timestamp) >= start;
+}
+
+function defectToRow(defect: ExportDefect): InspectionRow {
+  return {
+    location: defect.location,
+    date: defect.timestamp.split('T')[0],
+    severity: defect.severity.charAt(0).toUpperCase() + defect.severity.slice(1),
+    issuesFound: defect.type,
+    recommendation: RECOMMENDATIONS[defect.severity] || 'Inspect on site',
+    temperature: '',
+    efficiency: '',
+    defectType: /hotspot|thermal/i.test(defect.type) ? 'Thermal' : 'Physical',
+    gpsLat: defect.gpsLat !== undefined ? defect.gpsLat.toFixed(7) : '',
+    gpsLng: defect.gpsLng !== undefined ? defect.gpsLng.toFixed(7) : ''
+  };
+}
+
+function average(values: string[], unit: string): string {
+  const numbers = values.map(v => parseInt(v)).filter(v => !isNaN(v));
+  return numbers.length > 0 ? `${Math.round(numbers.reduce((a, b) => a + b, 0) / numbers.length)}${unit}` : 'N/A';
+}
 
 // Security headers
 const securityHeaders = {
@@ -26,49 +78,15 @@ export async function POST(request: NextRequest) {
   
   try {
     // Parse and validate request body
-    let requestBody;
-    try {
-      requestBody = await request.json();
-    } catch {
-      return NextResponse.json(
-        { error: 'Invalid JSON in request body', reportId },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    const { dateRange, reportType } = requestBody;
-    
-    // Input validation
-    if (!dateRange || !reportType) {
-      return NextResponse.json(
-        { error: 'Missing required parameters: dateRange and reportType', reportId },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    if (!VALID_REPORT_TYPES.includes(reportType)) {
-      return NextResponse.json(
-        { 
-          error: `Invalid report type. Valid types: ${VALID_REPORT_TYPES.join(', ')}`,
-          reportId 
-        },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    if (!VALID_DATE_RANGES.includes(dateRange)) {
-      return NextResponse.json(
-        { 
-          error: `Invalid date range. Valid ranges: ${VALID_DATE_RANGES.join(', ')}`,
-          reportId 
-        },
-        { status: 400, headers: securityHeaders }
-      );
-    }
+    const body = await checkBody(request, reportRequestSchema, { reportId }, securityHeaders);
+    if ('response' in body) return body.response;
+    const { dateRange, reportType, defects } = body.value;
     
-    // In production, this would query from database with proper pagination
-    // For now, using sample data with row limit check
-    const inspectionData = [
+    // Export the dashboard's logged defects when provided; otherwise fall back
+    // to sample data (in production, this would query from database)
+    const inspectionData: InspectionRow[] = defects ? defects
+      .filter(d => inRange(d.timestamp, dateRange))
+      .map(defectToRow) : [
       {
         location: 'Site A - Panel 1',
         date: '2024-04-15',
@@ -157,11 +175,13 @@ export async function POST(request: NextRequest) {
       [''],
       ['Summary Statistics'],
       ['Total Inspections', inspectionData.length.toString()],
-      ['Critical Issues', inspectionData.filter(d => d.severity === 'Critical').length.toString()],
-      ['Warning Issues', inspectionData.filter(d => d.severity === 'Warning').length.toString()],
-      ['Normal Status', inspectionData.filter(d => d.severity === 'Normal').length.toString()],
-      ['Average Temperature', `${Math.round(inspectionData.reduce((sum, d) => sum + parseInt(d.temperature), 0) / inspectionData.length)}°C`],
-      ['Average Efficiency', `${Math.round(inspectionData.reduce((sum, d) => sum + parseInt(d.efficiency), 0) / inspectionData.length)}%`],
+      ...SEVERITY_ORDER
+        .map(level => [level, inspectionData.filter(d => d.severity === level).length] as const)
+        .filter(([level, count]) => count > 0 || level === 'Critical')
+        .map(([level, count]) => [level === 'Normal' ? 'Normal Status' : `${level} Issues`, count.toString()]),
+      ['Georeferenced', inspectionData.filter(d => d.gpsLat !== '').length.toString()],
+      ['Average Temperature', average(inspectionData.map(d => d.temperature), '°C')],
+      ['Average Efficiency', average(inspectionData.map(d => d.efficiency), '%')],
       [''],
       ['Report Details'],
       ['Report Type', reportType],
@@ -4,6 +4,8 @@ import autoTable from 'jspdf-autotable';
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { reportRequestSchema } from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
 
 // Extend jsPDF type to include autoTable
 interface AutoTableOptions {
@@ -23,8 +25,6 @@ declare module 'jspdf' {
 }
 
 // Enterprise constants
-const VALID_REPORT_TYPES = ['comprehensive', 'defects', 'maintenance', 'executive'];
-const VALID_DATE_RANGES = ['today', 'last-7-days', 'last-30-days', 'last-90-days', 'custom'];
 const MAX_EXPORT_SIZE = 25 * 1024 * 1024; // 25MB
 
 // Security headers
@@ -43,45 +43,9 @@ export async function POST(request: NextRequest) {
   
   try {
     // Parse and validate request body
-    let requestBody;
-    try {
-      requestBody = await request.json();
-    } catch {
-      return NextResponse.json(
-        { error: 'Invalid JSON in request body', reportId },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    const { dateRange, reportType } = requestBody;
-    
-    // Input validation
-    if (!dateRange || !reportType) {
-      return NextResponse.json(
-        { error: 'Missing required parameters: dateRange and reportType', reportId },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    if (!VALID_REPORT_TYPES.includes(reportType)) {
-      return NextResponse.json(
-        { 
-          error: `Invalid report type. Valid types: ${VALID_REPORT_TYPES.join(', ')}`,
-          reportId 
-        },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-    
-    if (!VALID_DATE_RANGES.includes(dateRange)) {
-      return NextResponse.json(
-        { 
-          error: `Invalid date range. Valid ranges: ${VALID_DATE_RANGES.join(', ')}`,
-          reportId 
-        },
-        { status: 400, headers: securityHeaders }
-      );
-    }
+    const body = await checkBody(request, reportRequestSchema, { reportId }, securityHeaders);
+    if ('response' in body) return body.response;
+    const { dateRange, reportType } = body.value;
     
     // Create PDF document
     const doc = new jsPDF();
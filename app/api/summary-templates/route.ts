@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { loadSummaryTemplates, saveSummaryTemplate } from '@/lib/summary/templates';
+import { requestOrganization } from '@/lib/auth';
+import {
+  SUMMARY_TYPES,
+  TEMPLATE_CITATIONS,
+  TEMPLATE_NUMBERS,
+  TEMPLATE_TEXTS,
+  summaryTemplateRequestSchema,
+  type SummaryType,
+} from '@/lib/contracts';
+import { checkBody } from '@/lib/validation';
+import { auditLog } from '@/lib/audit';
+
+// The organization's summary templates with their source ('default' or
+// 'organization'), and what rules may use
+export async function GET(request: NextRequest) {
+  try {
+    const templates = await loadSummaryTemplates(await requestOrganization(request));
+    return NextResponse.json({
+      templates,
+      placeholders: [...TEMPLATE_NUMBERS, ...TEMPLATE_TEXTS],
+      conditionVariables: TEMPLATE_NUMBERS,
+      citations: TEMPLATE_CITATIONS,
+    });
+  } catch (error) {
+    console.error('Failed to read summary templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to read summary templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the template of one summary type. Body: { summaryType, template }
+export async function PUT(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await checkBody(request, summaryTemplateRequestSchema, { requestId });
+  if ('response' in body) return body.response;
+  const { summaryType, template } = body.value;
+
+  try {
+    await saveSummaryTemplate(await requestOrganization(request), summaryType, template);
+    auditLog(request, requestId, 'summary_template_saved', { summaryType, rules: template.rules.length });
+    return NextResponse.json({ saved: true, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Saving summary template failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save summary template', requestId },
+      { status: 500 }
+    );
+  }
+}
+
+// Go back to the built-in template: ?summaryType=executive
+export async function DELETE(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const summaryType = request.nextUrl.searchParams.get('summaryType');
+
+  if (!summaryType || !(SUMMARY_TYPES as readonly string[]).includes(summaryType)) {
+    return NextResponse.json(
+      { error: `summaryType must be one of ${SUMMARY_TYPES.join(', ')}`, requestId },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await saveSummaryTemplate(await requestOrganization(request), summaryType as SummaryType, null);
+    if (!removed) {
+      return NextResponse.json({ error: 'No custom template for this summary type', requestId }, { status: 404 });
+    }
+    auditLog(request, requestId, 'summary_template_reset', { summaryType });
+    return NextResponse.json({ removed, requestId });
+  } catch (error) {
+    console.error(`[${requestId}] Resetting summary template failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to reset summary template', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listWorkOrders } from '@/lib/defects/workorders';
+import { requestOrganization } from '@/lib/auth';
+
+// The organization's work orders, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId = await requestOrganization(request);
+    return NextResponse.json({ workOrders: await listWorkOrders(organizationId) });
+  } catch (error) {
+    console.error('Failed to read work orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to read work orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Lock, Mail, User, AlertCircle, Loader2 } from "lucide-react";
+import { PASSWORD_MIN_LENGTH, type SignupRequest } from "@/lib/contracts";
 
 export default function SignUp() {
   const router = useRouter();
@@ -24,20 +25,21 @@ export default function SignUp() {
       return;
     }
 
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters");
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      setError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
       return;
     }
 
     setLoading(true);
 
     try {
+      const body: SignupRequest = { name, email, password };
       const response = await fetch("/api/auth/signup", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ name, email, password }),
+        body: JSON.stringify(body),
       });
 
       const data = await response.json();
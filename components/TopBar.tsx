@@ -1,9 +1,11 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Bell, ChevronDown, MapPin, User } from 'lucide-react';
 import { signOut, useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { getUserProfile, updateUserProfile } from '@/lib/api';
+import { LANGUAGES, LANGUAGE_LABELS, type Language } from '@/lib/contracts';
 
 const projects = [
   { id: 1, name: 'Site A - Solar Farm', location: 'Gujarat' },
@@ -17,11 +19,31 @@ export default function TopBar() {
   const [selectedProject, setSelectedProject] = useState(projects[0]);
   const [showProjectDropdown, setShowProjectDropdown] = useState(false);
   const [showUserDropdown, setShowUserDropdown] = useState(false);
+  // Default language of summaries and the defect assistant
+  const [language, setLanguage] = useState<Language | null>(null);
   const [notifications] = useState([
     { id: 1, message: 'Hotspot found on Site A - Panel 23', type: 'warning' },
     { id: 2, message: 'Battery thermal anomaly detected at Site B', type: 'critical' },
   ]);
 
+  useEffect(() => {
+    if (!showUserDropdown || language) return;
+    getUserProfile()
+      .then(profile => setLanguage(profile.language))
+      .catch(error => console.error('Error loading profile:', error));
+  }, [showUserDropdown, language]);
+
+  const handleLanguageChange = async (value: Language) => {
+    const previous = language;
+    setLanguage(value);
+    try {
+      await updateUserProfile({ language: value });
+    } catch (error) {
+      console.error('Error saving language:', error);
+      setLanguage(previous);
+    }
+  };
+
   const handleSignOut = async () => {
     await signOut({ redirect: false });
     router.push('/auth/signin');
@@ -90,13 +112,27 @@ export default function TopBar() {
             </button>
 
             {showUserDropdown && (
-              <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+              <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
                 <button className="w-full text-left px-4 py-2 hover:bg-gray-50 transition-colors">
                   Profile
                 </button>
                 <button className="w-full text-left px-4 py-2 hover:bg-gray-50 transition-colors">
                   Account Settings
                 </button>
+                <label className="block px-4 py-2 text-sm text-gray-600">
+                  Language
+                  <select
+                    value={language ?? ''}
+                    onChange={(e) => handleLanguageChange(e.target.value as Language)}
+                    disabled={!language}
+                    className="mt-1 w-full text-sm border border-gray-300 rounded px-2 py-1"
+                  >
+                    {!language && <option value="">Loading...</option>}
+                    {LANGUAGES.map(code => (
+                      <option key={code} value={code}>{LANGUAGE_LABELS[code]}</option>
+                    ))}
+                  </select>
+                </label>
                 <hr className="my-1" />
                 <button 
                   onClick={handleSignOut}
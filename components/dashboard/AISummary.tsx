@@ -1,39 +1,88 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
-import { AlertTriangle, CheckCircle, Info, AlertCircle, RefreshCw, Loader2, MessageSquare, Send, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertTriangle, CheckCircle, Info, AlertCircle, RefreshCw, Loader2, MessageSquare, Send, X, Plus, Download } from 'lucide-react';
 import { generateSummary } from '@/lib/api';
-import { useDefects } from '@/hooks/useDefects';
+import { describeChange, type ChangeSet } from '@/lib/chat/changes';
+import type { ChangeSetOutcome } from '@/lib/chat/actions';
+import type { ChatThreadSummary, ThreadMessage } from '@/lib/chat/threads';
+import {
+  LANGUAGES,
+  LANGUAGE_LABELS,
+  type ChatDecisionRequest,
+  type ChatRequest,
+  type DefectSeverity,
+  type Language,
+  type StrippedStatement,
+  type SummaryGroup,
+  type SummaryStatement,
+  type SummaryType,
+} from '@/lib/contracts';
+import { useDefects, type Defect } from '@/hooks/useDefects';
 
 interface Summary {
   id: string;
   text: string;
+  // Claims with the defects they cite; empty when none could be grounded
+  statements: SummaryStatement[];
   severity: 'critical' | 'warning' | 'info' | 'success';
   timestamp: string;
   metadata?: {
     actionItems?: string[];
     totalDefects?: number;
+    stripped?: StrippedStatement[];
+    language?: Language;
+    // 'template' when written by the summary templates instead of a model
+    generator?: 'ai' | 'template';
+    template?: { source: 'default' | 'organization'; fallbackReason?: string; requestedLanguage?: Language };
+    strategy?: 'single' | 'map-reduce';
+    groups?: SummaryGroup[];
     [key: string]: unknown;
   };
 }
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
+// Messages are stored in the thread on the server; local-only error notes
+// use the same shape
+type ChatMessage = ThreadMessage;
+
+const SUMMARY_SEVERITY: Record<DefectSeverity, Summary['severity']> = {
+  critical: 'critical',
+  high: 'warning',
+  medium: 'warning',
+  low: 'info',
+};
+
+// Cited defect id; opens the defect in the defect log
+function CitationLink({ id, onOpen }: { id: string; onOpen: (id: string) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(id)}
+      title="Open in defect log"
+      className="text-xs font-mono px-1.5 py-0.5 bg-white border border-gray-200 rounded text-blue-600 hover:underline"
+    >
+      {id}
+    </button>
+  );
 }
 
 export default function AISummary() {
   const [summaries, setSummaries] = useState<Summary[]>([]);
   const [loading, setLoading] = useState(false);
-  const [summaryType, setSummaryType] = useState<'executive' | 'technical' | 'maintenance'>('executive');
+  const [summaryType, setSummaryType] = useState<SummaryType>('executive');
+  // Language of new summaries and answers; empty for the profile default
+  const [language, setLanguage] = useState<Language | ''>('');
   const [showChat, setShowChat] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [chatLoading, setChatLoading] = useState(false);
+  // Persisted conversation being shown; null until the first question
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  // Site new conversations are scoped to; empty for every site
+  const [chatSite, setChatSite] = useState('');
   const chatEndRef = useRef<HTMLDivElement>(null);
-  const { defects, getDefectsBySeverity } = useDefects();
+  const { defects, getDefectsBySeverity, mergeDefects, focusDefect } = useDefects();
 
   const generateNewSummary = async () => {
     if (defects.length === 0) return;
@@ -42,6 +91,8 @@ export default function AISummary() {
     try {
       // Prepare defect data for summarization
       const defectData = defects.map(d => ({
+        id: d.id,
+        site: d.site,
         type: d.type,
         severity: d.severity,
         location: d.location,
@@ -52,13 +103,15 @@ export default function AISummary() {
       const result = await generateSummary(
         defectData,
         'Solar Farm Alpha', // This could be dynamic based on selected project
-        summaryType
+        summaryType,
+        language || undefined
       );
 
       const newSummary: Summary = {
         id: `summary-${Date.now()}`,
         text: result.summary,
-        severity: result.metadata.overallSeverity as Summary['severity'],
+        statements: result.statements,
+        severity: SUMMARY_SEVERITY[result.metadata.overallSeverity],
         timestamp: new Date().toLocaleTimeString(),
         metadata: result.metadata,
       };
@@ -83,63 +136,83 @@ export default function AISummary() {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  const loadThreads = useCallback(async () => {
+    try {
+      const response = await fetch('/api/chat/threads');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setThreads((await response.json()).threads);
+    } catch (error) {
+      console.error('Error loading chat threads:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (showChat) loadThreads();
+  }, [showChat, loadThreads]);
+
+  const openThread = async (id: string) => {
+    if (!id) {
+      setThreadId(null);
+      setChatMessages([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/chat/threads/${id}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const thread = await response.json();
+      setThreadId(thread.id);
+      setChatSite(thread.site ?? '');
+      setChatMessages(thread.messages);
+    } catch (error) {
+      console.error('Error opening chat thread:', error);
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!chatInput.trim() || chatLoading) return;
 
-    const userMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
+    // Shown at once; replaced by the stored copy when the answer arrives
+    const pendingMessage: ChatMessage = {
+      id: `msg-${Date.now()}-pending`,
       role: 'user',
       content: chatInput.trim(),
-      timestamp: new Date().toLocaleTimeString(),
+      timestamp: new Date().toISOString(),
     };
 
-    setChatMessages(prev => [...prev, userMessage]);
+    setChatMessages(prev => [...prev, pendingMessage]);
     setChatInput('');
     setChatLoading(true);
 
     try {
-      // Prepare context for the chat
-      const context = {
-        defects: defects.map(d => ({
-          type: d.type,
-          severity: d.severity,
-          location: d.location,
-          description: d.description,
-        })),
-        summaries: summaries.map(s => ({
-          text: s.text,
-          severity: s.severity,
-          actionItems: s.metadata?.actionItems || [],
-        })),
-        statistics: getDefectsBySeverity(),
+      // The server keeps the thread, so only the new question is sent
+      const body: ChatRequest = {
+        message: pendingMessage.content,
+        ...(threadId ? { threadId } : { site: chatSite || undefined }),
+        language: language || undefined,
       };
-
       const response = await fetch('/api/chat/defects', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: userMessage.content,
-          context,
-        }),
+        body: JSON.stringify(body),
       });
 
       const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Chat request failed');
+      }
 
-      const assistantMessage: ChatMessage = {
-        id: `msg-${Date.now()}-assistant`,
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date().toLocaleTimeString(),
-      };
-
-      setChatMessages(prev => [...prev, assistantMessage]);
+      setChatMessages(prev => [...prev.filter(m => m.id !== pendingMessage.id), data.userMessage, data.message]);
+      if (!threadId) {
+        setThreadId(data.threadId);
+        loadThreads();
+      }
     } catch (error) {
       console.error('Error sending message:', error);
       const errorMessage: ChatMessage = {
         id: `msg-${Date.now()}-error`,
         role: 'assistant',
         content: 'Sorry, I encountered an error processing your request. Please try again.',
-        timestamp: new Date().toLocaleTimeString(),
+        timestamp: new Date().toISOString(),
       };
       setChatMessages(prev => [...prev, errorMessage]);
     } finally {
@@ -147,6 +220,38 @@ export default function AISummary() {
     }
   };
 
+  // Confirm or reject the changes proposed in an assistant message
+  const decideChanges = async (messageId: string, changeSet: ChangeSet, decision: 'confirm' | 'reject') => {
+    const update = (fields: Partial<ChatMessage>) =>
+      setChatMessages(prev => prev.map(m => (m.id === messageId ? { ...m, ...fields } : m)));
+    update({ proposalState: 'applying' });
+
+    try {
+      const body: ChatDecisionRequest = { changeSetId: changeSet.id, decision, threadId: threadId ?? undefined };
+      const response = await fetch('/api/chat/defects/actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (data.proposalState === 'expired') {
+        update({ proposalState: 'expired', proposalNote: data.error });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      if (decision === 'confirm') {
+        mergeDefects((data as ChangeSetOutcome).defects as unknown as Defect[]);
+      }
+      update({ proposalState: decision === 'confirm' ? 'applied' : 'rejected', proposalNote: data.note });
+    } catch (error) {
+      console.error('Error applying changes:', error);
+      update({ proposalState: 'failed', proposalNote: error instanceof Error ? error.message : 'Failed to apply changes' });
+    }
+  };
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -185,6 +290,7 @@ export default function AISummary() {
 
   // Get defect statistics
   const defectStats = getDefectsBySeverity();
+  const chatSites = Array.from(new Set([...defects.map(d => d.site), chatSite].filter((site): site is string => !!site))).sort();
   const hasDefects = defects.length > 0;
 
   return (
@@ -204,6 +310,17 @@ export default function AISummary() {
             <option value="technical">Technical</option>
             <option value="maintenance">Maintenance</option>
           </select>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as typeof language)}
+            className="text-sm border border-gray-300 rounded px-2 py-1"
+            title="Language of summaries and assistant answers"
+          >
+            <option value="">Profile language</option>
+            {LANGUAGES.map(code => (
+              <option key={code} value={code}>{LANGUAGE_LABELS[code]}</option>
+            ))}
+          </select>
           <button
             onClick={generateNewSummary}
             disabled={loading || !hasDefects}
@@ -275,9 +392,32 @@ export default function AISummary() {
                   {getSeverityIcon(summary.severity)}
                 </div>
                 <div className="flex-1">
-                  <p className="text-sm leading-relaxed">
-                    {summary.text}
-                  </p>
+                  {summary.metadata?.generator === 'template' && (
+                    <p className="text-xs font-semibold mb-1">
+                      Template-generated{summary.metadata.template?.source === 'organization' ? ' (organization template)' : ''}
+                      {summary.metadata.template?.fallbackReason && ` • ${summary.metadata.template.fallbackReason}`}
+                      {summary.metadata.template?.requestedLanguage &&
+                        ` • No ${LANGUAGE_LABELS[summary.metadata.template.requestedLanguage]} template; written in ${LANGUAGE_LABELS[summary.metadata.language ?? 'en']}`}
+                    </p>
+                  )}
+                  {summary.statements.length > 0 ? (
+                    <div className="text-sm leading-relaxed space-y-1">
+                      {summary.statements.map((statement, idx) => (
+                        <p key={idx}>
+                          {statement.text}{' '}
+                          <span className="inline-flex flex-wrap gap-1 align-middle">
+                            {statement.defectIds.map(id => (
+                              <CitationLink key={id} id={id} onOpen={focusDefect} />
+                            ))}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm leading-relaxed">
+                      {summary.text}
+                    </p>
+                  )}
                   {summary.metadata?.actionItems && summary.metadata.actionItems.length > 0 && (
                     <div className="mt-2">
                       <p className="text-xs font-semibold mb-1">Action Items:</p>
@@ -293,6 +433,21 @@ export default function AISummary() {
                   )}
                   <p className="text-xs mt-2 opacity-70">
                     {summary.timestamp} • {summary.metadata?.totalDefects || 0} defects analyzed
+                    {summary.metadata?.language && summary.metadata.language !== 'en' && (
+                      <>{' '}• {LANGUAGE_LABELS[summary.metadata.language]}</>
+                    )}
+                    {summary.metadata?.stripped && summary.metadata.stripped.length > 0 && (
+                      <span title={summary.metadata.stripped.map(s => `${s.text} (${s.reason})`).join('\n')}>
+                        {' '}• {summary.metadata.stripped.length} unsupported statement(s) removed
+                      </span>
+                    )}
+                    {summary.metadata?.strategy === 'map-reduce' && summary.metadata.groups && (
+                      <span title={summary.metadata.groups.map(g => `${g.key}: ${g.defects} defects, ${g.status}`).join('\n')}>
+                        {' '}• summarized in {summary.metadata.groups.length} groups
+                        {summary.metadata.groups.some(g => g.status !== 'covered') &&
+                          `, ${summary.metadata.groups.filter(g => g.status !== 'covered').length} not fully covered`}
+                      </span>
+                    )}
                   </p>
                 </div>
               </div>
@@ -329,6 +484,63 @@ export default function AISummary() {
             </button>
           </div>
 
+          {/* Conversations: resume a stored thread, pick the site of a new one, export */}
+          <div className="px-4 py-2 border-b flex items-center gap-2 bg-white">
+            <select
+              value={threadId ?? ''}
+              onChange={(e) => openThread(e.target.value)}
+              className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-2 py-1"
+              title="Conversations"
+            >
+              <option value="">New conversation</option>
+              {threads.map(thread => (
+                <option key={thread.id} value={thread.id}>
+                  {thread.title}{thread.site ? ` (${thread.site})` : ''}
+                </option>
+              ))}
+            </select>
+            <select
+              value={chatSite}
+              onChange={(e) => setChatSite(e.target.value)}
+              disabled={threadId !== null}
+              className="text-xs border border-gray-300 rounded px-2 py-1 disabled:bg-gray-100"
+              title="Site"
+            >
+              <option value="">All sites</option>
+              {chatSites.map(site => (
+                <option key={site} value={site}>{site}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => openThread('')}
+              className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+              title="New conversation"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            {threadId && (
+              <>
+                <a
+                  href={`/api/chat/threads/${threadId}/export?format=markdown`}
+                  className="flex items-center gap-1 text-xs text-gray-600 hover:bg-gray-100 rounded px-1 py-1"
+                  title="Export as Markdown"
+                >
+                  <Download className="w-3 h-3" />MD
+                </a>
+                {/* The PDF export has no fonts for Indian scripts */}
+                {chatMessages.every(m => !m.language || m.language === 'en') && (
+                  <a
+                    href={`/api/chat/threads/${threadId}/export?format=pdf`}
+                    className="flex items-center gap-1 text-xs text-gray-600 hover:bg-gray-100 rounded px-1 py-1"
+                    title="Export as PDF"
+                  >
+                    <Download className="w-3 h-3" />PDF
+                  </a>
+                )}
+              </>
+            )}
+          </div>
+
             {/* Chat Messages */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
               {chatMessages.length === 0 ? (
@@ -370,8 +582,47 @@ export default function AISummary() {
                           : 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      <p className="text-sm">{message.content}</p>
-                      <p className="text-xs opacity-70 mt-1">{message.timestamp}</p>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.citations && message.citations.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {message.citations.map(id => (
+                            <CitationLink key={id} id={id} onOpen={focusDefect} />
+                          ))}
+                        </div>
+                      )}
+                      {message.proposal && (
+                        <div className="mt-2 p-2 bg-white border border-amber-200 rounded">
+                          <p className="text-xs font-medium text-amber-800 mb-1">Proposed changes</p>
+                          <ul className="text-xs text-gray-700 space-y-1 list-disc pl-4">
+                            {message.proposal.changes.map((change, index) => (
+                              <li key={index}>{describeChange(change)}</li>
+                            ))}
+                          </ul>
+                          {message.proposalState === 'pending' || message.proposalState === 'applying' ? (
+                            <div className="flex gap-2 mt-2">
+                              <button
+                                onClick={() => message.proposal && decideChanges(message.id, message.proposal, 'confirm')}
+                                disabled={message.proposalState === 'applying'}
+                                className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                              >
+                                Confirm
+                              </button>
+                              <button
+                                onClick={() => message.proposal && decideChanges(message.id, message.proposal, 'reject')}
+                                disabled={message.proposalState === 'applying'}
+                                className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          ) : (
+                            <p className={`text-xs mt-2 ${message.proposalState === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                              {message.proposalNote}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-xs opacity-70 mt-1">{new Date(message.timestamp).toLocaleTimeString()}</p>
                     </div>
                   </div>
                 ))
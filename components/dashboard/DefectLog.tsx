@@ -6,10 +6,9 @@ import { AlertTriangle, AlertCircle, Info, CheckCircle, Filter, Download, Trash2
 import { useDefects } from '@/hooks/useDefects';
 
 export default function DefectLog() {
-  const { defects, updateDefect, deleteDefect } = useDefects();
+  const { defects, updateDefect, deleteDefect, focusedDefectId, focusDefect } = useDefects();
   const [selectedSeverity, setSelectedSeverity] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
-  const [selectedDefect, setSelectedDefect] = useState<string | null>(null);
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -173,6 +172,9 @@ export default function DefectLog() {
                     <option value="in-progress">IN PROGRESS</option>
                     <option value="resolved">RESOLVED</option>
                   </select>
+                  {defect.assignee && (
+                    <div className="text-xs text-gray-500 mt-1">{defect.assignee}</div>
+                  )}
                 </td>
                 <td className="py-2 px-3 text-sm text-gray-600 max-w-xs">
                   <div className="truncate" title={defect.description}>
@@ -187,7 +189,7 @@ export default function DefectLog() {
                 <td className="py-2 px-3">
                   <div className="flex items-center gap-1">
                     <button
-                      onClick={() => setSelectedDefect(defect.id)}
+                      onClick={() => focusDefect(defect.id)}
                       className="p-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded"
                       title="View details"
                     >
@@ -220,14 +222,14 @@ export default function DefectLog() {
       </div>
 
       {/* Detail Modal */}
-      {selectedDefect && (() => {
-        const defect = defects.find(d => d.id === selectedDefect);
+      {focusedDefectId && (() => {
+        const defect = defects.find(d => d.id === focusedDefectId);
         if (!defect) return null;
         
         return (
           <div 
             className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
-            onClick={() => setSelectedDefect(null)}
+            onClick={() => focusDefect(null)}
           >
             <div 
               className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4"
@@ -291,7 +293,7 @@ export default function DefectLog() {
               </div>
               <div className="flex justify-end mt-6">
                 <button
-                  onClick={() => setSelectedDefect(null)}
+                  onClick={() => focusDefect(null)}
                   className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
                 >
                   Close
@@ -3,15 +3,18 @@
 import { useState, useRef } from 'react';
 import Image from 'next/image';
 import { Camera, AlertCircle, CheckCircle, XCircle, Upload, Loader2, AlertTriangle, Download, Eye, X, Calendar, Activity, Info } from 'lucide-react';
-import { analyzeWithVision, detectHotspots, fileToBase64, HotspotResult, VisionAnalysisResult } from '@/lib/api';
+import { analyzeWithVision, detectHotspots, fileToBase64, renderHotspotOverlay, submitBatchJob, getBatchJob, getBatchItemResult, HotspotResult, VisionAnalysisResult } from '@/lib/api';
 import { useDefects } from '@/hooks/useDefects';
+import { componentLabel, inferComponentType, ComponentType, COMPONENT_TYPES } from '@/lib/components';
 
 interface ImageData {
   id: string;
   url: string;
   file?: File;
+  // RGB frame uploaded together with a thermal one
+  visualFile?: File;
   type: string;
-  componentType?: 'solar' | 'battery' | 'inverter';
+  componentType?: ComponentType;
   imageType?: 'thermal' | 'visual';
   status: 'critical' | 'warning' | 'normal' | 'analyzing';
   confidence: number;
@@ -22,144 +25,354 @@ interface ImageData {
 
 // Removed unused interface - AnalysisResult
 
+interface AnalysisOutcome {
+  type: string;
+  status: ImageData['status'];
+  confidence: number;
+  defectDetails: string;
+  location: string;
+  geo: { latitude: number; longitude: number } | null;
+}
+
+// Uploads with more files than this run as a server-side batch job
+const BATCH_THRESHOLD = 10;
+const BATCH_POLL_INTERVAL = 3000; // 3 seconds
+
+function classifyFilename(name: string): { componentType: ComponentType; imageType: 'thermal' | 'visual' } {
+  const filename = name.toLowerCase();
+  const componentType = inferComponentType(filename);
+  const imageType = filename.includes('visual') || filename.includes('rgb') ? 'visual' : 'thermal';
+  return { componentType, imageType };
+}
+
+// Dual-sensor cameras name the two frames of a shot alike, e.g.
+// DJI_..._0001_T.JPG (thermal) and DJI_..._0001_W.JPG or _V.JPG (RGB)
+const THERMAL_SUFFIX = /[_\-. ](t|ir|thermal)$/;
+const VISUAL_SUFFIX = /[_\-. ](v|w|z|rgb|visual|wide|zoom)$/;
+
+function pairDualSensorFiles(files: File[]): Array<{ file: File; visual?: File }> {
+  const stem = (file: File) => file.name.toLowerCase().replace(/\.[^.]+$/, '');
+  const groups = new Map<string, { thermal: File[]; visual: File[] }>();
+  files.forEach(file => {
+    const name = stem(file);
+    const role = THERMAL_SUFFIX.test(name) ? 'thermal' : VISUAL_SUFFIX.test(name) ? 'visual' : null;
+    if (!role) return;
+    const key = name.replace(role === 'thermal' ? THERMAL_SUFFIX : VISUAL_SUFFIX, '');
+    const group = groups.get(key) || { thermal: [], visual: [] };
+    group[role].push(file);
+    groups.set(key, group);
+  });
+
+  const pairs = new Map<File, File>();
+  groups.forEach(group => {
+    if (group.thermal.length === 1 && group.visual.length === 1) {
+      pairs.set(group.thermal[0], group.visual[0]);
+    }
+  });
+  const pairedVisuals = new Set(pairs.values());
+
+  return files
+    .filter(file => !pairedVisuals.has(file))
+    .map(file => ({ file, visual: pairs.get(file) }));
+}
+
+function interpretAnalysis(
+  analysis: HotspotResult | VisionAnalysisResult,
+  componentType: ComponentType,
+  imageType: 'thermal' | 'visual'
+): AnalysisOutcome {
+  let defectDetails = '';
+  let status: ImageData['status'] = 'normal';
+  let confidence = 0;
+  let type = '';
+  let location = `Component: ${componentType}`;
+  let geo: AnalysisOutcome['geo'] = null;
+
+  if (componentType === 'solar') {
+    const result = analysis as HotspotResult;
+    
+    // Check if hotspots were detected based on the actual API response
+    if (result.hotspots && result.hotspots.length > 0) {
+      // Map severity to status
+      status = result.severity === 'critical' ? 'critical' : 
+              result.severity === 'none' ? 'normal' : 'warning';
+      
+      confidence = result.confidence * 100;
+      type = `Solar Panel ${imageType === 'thermal' ? 'Hotspot' : 'Visual Defect'}`;
+      defectDetails = `${result.hotspots.length} defect(s) detected. `;
+      
+      // Add temperature info if available
+      if (typeof result.metadata.maxTemperature === 'number') {
+        defectDetails += `Max temperature: ${result.metadata.maxTemperature.toFixed(1)}°C. `;
+      }
+
+      // Paired RGB frame separates soiling and droppings from cell failures
+      const crossReference = result.metadata.pairing?.crossReference;
+      if (crossReference) {
+        defectDetails += `${crossReference.summary} `;
+        if (crossReference.surfaceObstruction > 0 && crossReference.cellFailure === 0) {
+          type = 'Solar Panel Surface Obstruction';
+        }
+      }
+      
+      // RGB inspections and paired RGB frames name the defect types found
+      const defectCounts = new Map<string, number>();
+      result.hotspots.forEach(h => {
+        const defect = h.defect ?? h.visual?.defect;
+        if (defect) defectCounts.set(defect.label, (defectCounts.get(defect.label) || 0) + 1);
+      });
+      if (defectCounts.size > 0) {
+        defectDetails += `Defects: ${Array.from(defectCounts).map(([label, count]) => `${count}× ${label}`).join(', ')}. `;
+        if (defectCounts.size === 1) {
+          type = `Solar Panel ${Array.from(defectCounts.keys())[0]}`;
+        }
+      }
+      
+      // Report the physical modules rather than the component type
+      const moduleLabels = Array.from(new Set(
+        result.hotspots
+          .map(h => h.location?.label)
+          .filter((label): label is string => Boolean(label))
+      ));
+      if (moduleLabels.length > 0) {
+        location = moduleLabels.length > 3
+          ? `${moduleLabels.slice(0, 3).join('; ')} (+${moduleLabels.length - 3} more)`
+          : moduleLabels.join('; ');
+      }
+      
+      // Pin the defect to the ground position of the strongest georeferenced hotspot
+      const georeferenced = result.hotspots.filter(h => h.geo);
+      if (georeferenced.length > 0) {
+        geo = georeferenced.reduce((a, b) => b.intensity > a.intensity ? b : a).geo ?? null;
+      }
+      
+      // Calculate max intensity from hotspots
+      const maxIntensity = Math.max(...result.hotspots.map(h => h.intensity));
+      defectDetails += `Maximum defect intensity: ${maxIntensity}%. `;
+      
+      // Add severity-based recommendations
+      if (result.severity === 'critical') {
+        defectDetails += 'Immediate maintenance required!';
+      } else if (result.severity === 'high' || result.severity === 'medium') {
+        defectDetails += 'Monitor closely, maintenance recommended within 30 days.';
+      }
+    } else {
+      // No hotspots detected
+      status = 'normal';
+      type = 'Solar Panel - Normal';
+      defectDetails = 'No defects detected. System operating normally.';
+      confidence = result.confidence * 100;
+    }
+  } else {
+    const result = analysis as VisionAnalysisResult;
+    
+    if (result.defectsFound) {
+      // Safety findings escalate regardless of the reported severity
+      status = result.severity === 'critical' || result.safetyConcern ? 'critical' : 'warning';
+
+      type = `${componentLabel(componentType)} Defect`;
+      defectDetails = result.findings
+        .map(f => `${f.id} ${f.component}: ${f.description} (${f.severity}${f.safety ? ', safety risk' : ''}). Action: ${f.action}`)
+        .join('\n');
+      if (result.narrative) {
+        defectDetails += `\n\n${result.narrative}`;
+      }
+      confidence = result.confidence * 100;
+    } else {
+      type = `${componentLabel(componentType)} - Normal`;
+      defectDetails = result.narrative || 'No defects detected';
+      confidence = result.confidence * 100;
+    }
+
+    // Decoded codes are already listed as findings; show what the panel reads
+    if (result.display) {
+      const { manufacturer, model, text, leds } = result.display;
+      const unit = [manufacturer, model].filter(Boolean).join(' ');
+      defectDetails += `\n\nDisplay${unit ? ` (${unit})` : ''}: ${text || 'no legible text'}`;
+      if (leds.length > 0) {
+        defectDetails += `\nLEDs: ${leds.map(led => `${led.label} ${led.color} ${led.state}`).join(', ')}`;
+      }
+    }
+  }
+
+  // Model answers that failed schema validation are flagged, never trusted
+  const validation = componentType === 'solar'
+    ? (analysis as HotspotResult).metadata.validation
+    : (analysis as VisionAnalysisResult).validation;
+  if (validation?.status === 'needs_review') {
+    if (status === 'normal') status = 'warning';
+    type = `${type} (Needs Review)`;
+    defectDetails = `Needs review: the AI response failed validation (${validation.errors.slice(0, 2).join('; ')}).\n\n${defectDetails}`;
+  }
+
+  return { type, status, confidence, defectDetails, location, geo };
+}
+
 export default function ImageViewer() {
   const [selectedImage, setSelectedImage] = useState<ImageData | null>(null);
   const [images, setImages] = useState<ImageData[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [downloadingOverlay, setDownloadingOverlay] = useState(false);
+  // Explicit component type for the next upload; 'auto' reads the filename
+  const [uploadComponentType, setUploadComponentType] = useState<ComponentType | 'auto'>('auto');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { addDefect } = useDefects();
 
+  // Update the image card with its analysis and log a defect when needed
+  const recordAnalysis = (
+    imageId: string,
+    analysis: HotspotResult | VisionAnalysisResult,
+    componentType: ComponentType,
+    imageType: 'thermal' | 'visual',
+    imageUrl: string
+  ) => {
+    const outcome = interpretAnalysis(analysis, componentType, imageType);
+
+    setImages(prev => prev.map(img => 
+      img.id === imageId 
+        ? { ...img, type: outcome.type, status: outcome.status, confidence: outcome.confidence, defectDetails: outcome.defectDetails, analysis, componentType, imageType }
+        : img
+    ));
+
+    // Add to defects if issues found
+    if (outcome.status !== 'normal') {
+      addDefect({
+        type: outcome.type,
+        severity: outcome.status === 'critical' ? 'critical' : outcome.status === 'warning' ? 'high' : 'medium',
+        status: 'new',
+        location: outcome.location,
+        gpsLat: outcome.geo?.latitude,
+        gpsLng: outcome.geo?.longitude,
+        description: outcome.defectDetails,
+        timestamp: new Date().toISOString(),
+        imageUrl,
+        analysis,
+        confidence: outcome.confidence,
+      });
+    }
+  };
+
+  const markFailed = (imageId: string, details = 'Failed to analyze image') => {
+    setImages(prev => prev.map(img => 
+      img.id === imageId 
+        ? { ...img, type: 'Analysis Failed', status: 'warning', defectDetails: details }
+        : img
+    ));
+  };
+
+  const addPreview = async (file: File, visualFile?: File): Promise<ImageData> => {
+    const url = await fileToBase64(file);
+    const newImage: ImageData = {
+      id: `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      url,
+      file,
+      visualFile,
+      type: 'Analyzing...',
+      status: 'analyzing',
+      confidence: 0,
+      timestamp: new Date().toLocaleString(),
+    };
+    setImages(prev => [newImage, ...prev]);
+    return newImage;
+  };
+
+  const analyzeFile = async (file: File, visualFile?: File) => {
+    let newImage: ImageData | null = null;
+    try {
+      // Create preview
+      newImage = await addPreview(file, visualFile);
+
+      // Component type as selected, or from the filename. A thermal + RGB
+      // pair is always a solar inspection.
+      const classified = classifyFilename(file.name);
+      const { componentType, imageType } = visualFile
+        ? { componentType: 'solar' as const, imageType: 'thermal' as const }
+        : { ...classified, componentType: uploadComponentType === 'auto' ? classified.componentType : uploadComponentType };
+
+      // Use hotspot detection for solar panels, vision API for every other component
+      const analysis = componentType === 'solar'
+        ? await detectHotspots(file, imageType, visualFile ? { visualImage: visualFile, annotate: true } : {})
+        : await analyzeWithVision(file, componentType);
+
+      recordAnalysis(newImage.id, analysis, componentType, imageType, newImage.url);
+    } catch (error) {
+      console.error('Error analyzing image:', error);
+      // Update image with error status
+      if (newImage) markFailed(newImage.id);
+    }
+  };
+
+  // Large uploads (whole flights) run as a server-side job so analysis
+  // continues even if this tab is closed; results stream in as frames finish
+  const analyzeBatch = async (files: File[]) => {
+    const previews = new Map<string, ImageData[]>();
+    for (const file of files) {
+      const preview = await addPreview(file);
+      previews.set(file.name, [...(previews.get(file.name) || []), preview]);
+    }
+    const takePreview = (filename: string) => previews.get(filename)?.shift();
+
+    const submitted = await submitBatchJob(files, uploadComponentType === 'auto' ? {} : { componentType: uploadComponentType });
+    submitted.rejected.forEach(name => {
+      const preview = takePreview(name);
+      if (preview) markFailed(preview.id, 'Unsupported image file');
+    });
+
+    const handled = new Map<number, ImageData | undefined>();
+    let since: string | undefined;
+    while (true) {
+      const job = await getBatchJob(submitted.jobId, since);
+      since = job.updatedAt;
+
+      for (const item of job.items) {
+        if (handled.has(item.index) || (item.status !== 'completed' && item.status !== 'failed')) continue;
+        const preview = takePreview(item.filename);
+        handled.set(item.index, preview);
+        if (!preview) continue;
+
+        if (item.status === 'failed') {
+          markFailed(preview.id, item.error || 'Failed to analyze image');
+          continue;
+        }
+        try {
+          const analysis = await getBatchItemResult(submitted.jobId, item.index);
+          recordAnalysis(preview.id, analysis, item.componentType, item.imageType === 'visual' ? 'visual' : 'thermal', preview.url);
+        } catch (error) {
+          console.error('Error loading batch result:', error);
+          markFailed(preview.id);
+        }
+      }
+
+      if (job.status === 'completed' || job.status === 'completed_with_errors') break;
+      await new Promise(resolve => setTimeout(resolve, BATCH_POLL_INTERVAL));
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
     setUploading(true);
     
-    for (const file of Array.from(files)) {
+    if (files.length > BATCH_THRESHOLD) {
       try {
-        // Create preview
-        const url = await fileToBase64(file);
-        const newImage: ImageData = {
-          id: `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          url,
-          file,
-          type: 'Analyzing...',
-          status: 'analyzing',
-          confidence: 0,
-          timestamp: new Date().toLocaleString(),
-        };
-        
-        setImages(prev => [newImage, ...prev]);
-
-        // Determine component type from filename or let user select
-        let componentType: 'solar' | 'battery' | 'inverter' = 'solar';
-        let imageType: 'thermal' | 'visual' = 'thermal';
-        
-        const filename = file.name.toLowerCase();
-        if (filename.includes('battery')) componentType = 'battery';
-        else if (filename.includes('inverter')) componentType = 'inverter';
-        if (filename.includes('visual') || filename.includes('rgb')) imageType = 'visual';
-
-        // Analyze the image
-        let analysis;
-        let defectDetails = '';
-        let status: ImageData['status'] = 'normal';
-        let confidence = 0;
-        let type = '';
-
-        if (componentType === 'solar') {
-          // Use hotspot detection for solar panels
-          const result = await detectHotspots(file, imageType);
-          analysis = result;
-          
-          // Check if hotspots were detected based on the actual API response
-          if (result.hotspots && result.hotspots.length > 0) {
-            // Map severity to status
-            status = result.severity === 'critical' ? 'critical' : 
-                    result.severity === 'warning' ? 'warning' : 'normal';
-            
-            confidence = result.metadata.confidence * 100;
-            type = `Solar Panel ${imageType === 'thermal' ? 'Hotspot' : 'Visual Defect'}`;
-            defectDetails = `${result.hotspots.length} defect(s) detected. `;
-            
-            // Add temperature info if available
-            if (result.temperature_estimate) {
-              defectDetails += `Max temperature: ${result.temperature_estimate.toFixed(1)}°C. `;
-            }
-            
-            // Calculate max intensity from hotspots
-            if (result.hotspots.length > 0) {
-              const maxIntensity = Math.max(...result.hotspots.map(h => h.intensity));
-              defectDetails += `Maximum defect intensity: ${maxIntensity}%. `;
-            }
-            
-            // Add severity-based recommendations
-            if (result.severity === 'critical') {
-              defectDetails += 'Immediate maintenance required!';
-            } else if (result.severity === 'warning') {
-              defectDetails += 'Monitor closely, maintenance recommended within 30 days.';
-            }
-          } else {
-            // No hotspots detected
-            status = 'normal';
-            type = 'Solar Panel - Normal';
-            defectDetails = 'No defects detected. System operating normally.';
-            confidence = result.metadata.confidence * 100;
-          }
-        } else {
-          // Use vision API for battery/inverter
-          const result = await analyzeWithVision(file, componentType);
-          analysis = result;
-          
-          if (result.defectsFound) {
-            // Parse severity from analysis text
-            const analysisLower = result.analysis?.toLowerCase() || '';
-            if (analysisLower.includes('critical') || analysisLower.includes('immediate')) {
-              status = 'critical';
-            } else if (analysisLower.includes('warning') || analysisLower.includes('moderate')) {
-              status = 'warning';
-            }
-            
-            type = `${componentType.charAt(0).toUpperCase() + componentType.slice(1)} Defect`;
-            defectDetails = result.analysis || 'Defect detected';
-            confidence = result.confidence * 100;
-          } else {
-            type = `${componentType.charAt(0).toUpperCase() + componentType.slice(1)} - Normal`;
-            defectDetails = result.analysis || 'No defects detected';
-            confidence = result.confidence * 100;
-          }
-        }
-
-        // Update image with analysis results
-        setImages(prev => prev.map(img => 
-          img.id === newImage.id 
-            ? { ...img, type, status, confidence, defectDetails, analysis, componentType, imageType }
-            : img
-        ));
-
-        // Add to defects if issues found
-        if (status !== 'normal') {
-          addDefect({
-            type,
-            severity: status === 'critical' ? 'critical' : status === 'warning' ? 'high' : 'medium',
-            status: 'new',
-            location: `Component: ${componentType}`,
-            description: defectDetails,
-            timestamp: new Date().toISOString(),
-            imageUrl: url,
-            analysis,
-            confidence,
-          });
-        }
+        await analyzeBatch(Array.from(files));
       } catch (error) {
-        console.error('Error analyzing image:', error);
-        // Update image with error status
+        console.error('Error running batch analysis:', error);
         setImages(prev => prev.map(img => 
-          img.file === file 
-            ? { ...img, type: 'Analysis Failed', status: 'warning', defectDetails: 'Failed to analyze image' }
+          img.status === 'analyzing' 
+            ? { ...img, type: 'Analysis Failed', status: 'warning', defectDetails: 'Batch analysis failed' }
             : img
         ));
       }
+    } else {
+      // Thermal + RGB pairing only applies to solar inspections
+      const uploads = uploadComponentType === 'auto' || uploadComponentType === 'solar'
+        ? pairDualSensorFiles(Array.from(files))
+        : Array.from(files).map(file => ({ file, visual: undefined }));
+      for (const { file, visual } of uploads) {
+        await analyzeFile(file, visual);
+      }
     }
     
     setUploading(false);
@@ -168,6 +381,25 @@ export default function ImageViewer() {
     }
   };
 
+  const handleDownloadOverlay = async (image: ImageData) => {
+    if (!image.file || !image.analysis || !('hotspots' in image.analysis)) return;
+
+    setDownloadingOverlay(true);
+    try {
+      const blob = await renderHotspotOverlay(image.file, image.analysis);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${image.file.name.replace(/\.[^.]+$/, '')}_annotated.png`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error rendering annotated image:', error);
+    } finally {
+      setDownloadingOverlay(false);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'critical':
@@ -209,6 +441,18 @@ export default function ImageViewer() {
           <span className="text-sm text-gray-500">
             {images.length} images
           </span>
+          <select
+            value={uploadComponentType}
+            onChange={(e) => setUploadComponentType(e.target.value as ComponentType | 'auto')}
+            disabled={uploading}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+            title="Component type of the next upload"
+          >
+            <option value="auto">Auto-detect</option>
+            {COMPONENT_TYPES.map(type => (
+              <option key={type} value={type}>{componentLabel(type)}</option>
+            ))}
+          </select>
           <button
             onClick={() => fileInputRef.current?.click()}
             disabled={uploading}
@@ -282,7 +526,7 @@ export default function ImageViewer() {
                   <p className="text-gray-600">{selectedImage.timestamp}</p>
                   {selectedImage.componentType && (
                     <p className="text-sm text-gray-500">
-                      Component: {selectedImage.componentType} | Type: {selectedImage.imageType}
+                      Component: {selectedImage.componentType && componentLabel(selectedImage.componentType)} | Type: {selectedImage.imageType}
                     </p>
                   )}
                 </div>
@@ -301,6 +545,19 @@ export default function ImageViewer() {
                 height={600}
                 className="w-full rounded-lg mb-4"
               />
+
+              {selectedImage.analysis && 'annotatedVisualImage' in selectedImage.analysis && selectedImage.analysis.annotatedVisualImage && (
+                <div className="mb-4">
+                  <h4 className="font-semibold mb-2">Hotspots on paired RGB frame:</h4>
+                  <Image
+                    src={selectedImage.analysis.annotatedVisualImage}
+                    alt={`${selectedImage.type} (RGB)`}
+                    width={800}
+                    height={600}
+                    className="w-full rounded-lg"
+                  />
+                </div>
+              )}
               
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -315,7 +572,22 @@ export default function ImageViewer() {
                   <span className="font-semibold">AI Confidence:</span>
                   <span className="text-gray-700">{selectedImage.confidence.toFixed(1)}%</span>
                 </div>
-                
+
+                {selectedImage.analysis?.cached && (
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">Result:</span>
+                    <span className="text-gray-700">
+                      Cached from {new Date(selectedImage.analysis.cachedAt || '').toLocaleString()}
+                    </span>
+                  </div>
+                )}
+
+                {selectedImage.analysis?.nearDuplicate && (
+                  <p className="text-sm text-yellow-700 bg-yellow-50 p-2 rounded">
+                    Near-duplicate of {selectedImage.analysis.nearDuplicate.filename || 'an earlier upload'} (analysed {new Date(selectedImage.analysis.nearDuplicate.createdAt).toLocaleString()})
+                  </p>
+                )}
+
                 <div>
                   <h4 className="font-semibold mb-2">Defect Analysis:</h4>
                   <p className="text-gray-700 bg-gray-50 p-3 rounded whitespace-pre-wrap">
@@ -325,14 +597,84 @@ export default function ImageViewer() {
 
                 {selectedImage.analysis && 'hotspots' in selectedImage.analysis && selectedImage.analysis.hotspots && selectedImage.analysis.hotspots.length > 0 && (
                   <div>
-                    <h4 className="font-semibold mb-2">Hotspot Locations:</h4>
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="font-semibold">
+                        {selectedImage.imageType === 'visual' ? 'Defect Locations:' : 'Hotspot Locations:'}
+                      </h4>
+                      <button
+                        onClick={() => handleDownloadOverlay(selectedImage)}
+                        disabled={downloadingOverlay || !selectedImage.file}
+                        className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Download annotated image"
+                      >
+                        {downloadingOverlay ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Download className="w-4 h-4" />
+                        )}
+                        Annotated PNG
+                      </button>
+                    </div>
                     <div className="grid grid-cols-2 gap-2">
-                      {selectedImage.analysis.hotspots.map((hotspot: { x: number; y: number; intensity: number; radius: number }, idx: number) => (
+                      {selectedImage.analysis.hotspots.map((hotspot: HotspotResult['hotspots'][number], idx: number) => (
                         <div key={idx} className="bg-gray-50 p-2 rounded text-sm">
-                          <span className="font-medium">Hotspot {idx + 1}:</span>
-                          <span className="text-gray-600"> Position ({hotspot.x}%, {hotspot.y}%)</span>
+                          <span className="font-medium">
+                            {hotspot.defect ? `${hotspot.defect.label} ${idx + 1}:` : `Hotspot ${idx + 1}:`}
+                          </span>
+                          <span className="text-gray-600">
+                            {hotspot.location ? ` ${hotspot.location.label}` : ` Position (${hotspot.x}%, ${hotspot.y}%)`}
+                          </span>
+                          {hotspot.bbox && (
+                            <>
+                              <br />
+                              <span className="text-gray-600">
+                                Box: {hotspot.bbox.width}×{hotspot.bbox.height}px at ({hotspot.bbox.x}, {hotspot.bbox.y})
+                              </span>
+                            </>
+                          )}
+                          {hotspot.geo && (
+                            <>
+                              <br />
+                              <span className="text-gray-600">
+                                GPS: {hotspot.geo.latitude.toFixed(6)}, {hotspot.geo.longitude.toFixed(6)}
+                              </span>
+                            </>
+                          )}
+                          {hotspot.visual?.cause && (
+                            <>
+                              <br />
+                              <span className={hotspot.visual.defect || hotspot.visual.surface?.finding ? 'text-yellow-700' : 'text-gray-600'}>
+                                {hotspot.visual.defect
+                                  ? `Visible in RGB: ${hotspot.visual.defect.label}`
+                                  : hotspot.visual.surface?.finding
+                                    ? `Visible cause: ${hotspot.visual.surface.finding.replace(/-/g, ' ')}`
+                                    : 'No visible cause: likely cell failure'}
+                              </span>
+                            </>
+                          )}
                           <br />
-                          <span className="text-gray-600">Intensity: {hotspot.intensity}%</span>
+                          <span className="text-gray-600">
+                            {hotspot.defect
+                              ? `Confidence: ${Math.round(hotspot.defect.confidence * 100)}% · ${hotspot.defect.severity}`
+                              : `Intensity: ${hotspot.intensity}%`}
+                          </span>
+                          {hotspot.classification?.anomalyClass && (
+                            <>
+                              <br />
+                              <span className="text-gray-600">
+                                {hotspot.classification.anomalyClass} · {hotspot.classification.faultPattern}
+                                {hotspot.classification.deltaT !== null && ` · ΔT ${hotspot.classification.deltaT.toFixed(1)} K`}
+                              </span>
+                            </>
+                          )}
+                          {hotspot.temperature && (
+                            <>
+                              <br />
+                              <span className="text-gray-600">
+                                Temperature: {hotspot.temperature.max.toFixed(1)}°C max, {hotspot.temperature.mean.toFixed(1)}°C mean
+                              </span>
+                            </>
+                          )}
                         </div>
                       ))}
                     </div>
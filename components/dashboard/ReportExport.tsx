@@ -2,6 +2,16 @@
 
 import React, { useState, useEffect } from 'react';
 import { FileText, Download, Calendar, Filter, Loader2 } from 'lucide-react';
+import { useDefects } from '@/contexts/DefectContext';
+import {
+  REPORT_DATE_RANGES,
+  REPORT_DATE_RANGE_LABELS,
+  REPORT_TYPES,
+  REPORT_TYPE_LABELS,
+  ReportDateRange,
+  ReportRequest,
+  ReportType,
+} from '@/lib/contracts';
 
 interface ExportRecord {
   filename: string;
@@ -14,9 +24,10 @@ interface ExportRecord {
 
 export default function ReportExport() {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [dateRange, setDateRange] = useState('last-7-days');
-  const [reportType, setReportType] = useState('comprehensive');
+  const [dateRange, setDateRange] = useState<ReportDateRange>('last-7-days');
+  const [reportType, setReportType] = useState<ReportType>('comprehensive');
   const [exportHistory, setExportHistory] = useState<ExportRecord[]>([]);
+  const { defects } = useDefects();
 
   useEffect(() => {
     fetchExportHistory();
@@ -36,19 +47,32 @@ export default function ReportExport() {
     setIsGenerating(true);
     
     try {
+      const body: ReportRequest = {
+        dateRange,
+        reportType,
+        // CSV rows are built from the logged defects, including their GPS fix
+        ...(format === 'csv' && defects.length > 0 && {
+          defects: defects.map(d => ({
+            type: d.type,
+            severity: d.severity,
+            location: d.location,
+            timestamp: d.timestamp,
+            gpsLat: d.gpsLat,
+            gpsLng: d.gpsLng,
+          })),
+        }),
+      };
       const response = await fetch(`/api/reports/${format}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          dateRange,
-          reportType,
-        }),
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate report');
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error || 'Failed to generate report');
       }
 
       // Get the blob from response
@@ -93,14 +117,12 @@ export default function ReportExport() {
             <Calendar className="w-4 h-4 text-gray-500" />
             <select
               value={dateRange}
-              onChange={(e) => setDateRange(e.target.value)}
+              onChange={(e) => setDateRange(e.target.value as ReportDateRange)}
               className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="today">Today</option>
-              <option value="last-7-days">Last 7 Days</option>
-              <option value="last-30-days">Last 30 Days</option>
-              <option value="last-quarter">Last Quarter</option>
-              <option value="custom">Custom Range</option>
+              {REPORT_DATE_RANGES.map(range => (
+                <option key={range} value={range}>{REPORT_DATE_RANGE_LABELS[range]}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -114,13 +136,12 @@ export default function ReportExport() {
             <Filter className="w-4 h-4 text-gray-500" />
             <select
               value={reportType}
-              onChange={(e) => setReportType(e.target.value)}
+              onChange={(e) => setReportType(e.target.value as ReportType)}
               className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="comprehensive">Comprehensive Analysis</option>
-              <option value="defects-only">Defects Summary</option>
-              <option value="maintenance">Maintenance Report</option>
-              <option value="performance">Performance Metrics</option>
+              {REPORT_TYPES.map(type => (
+                <option key={type} value={type}>{REPORT_TYPE_LABELS[type]}</option>
+              ))}
             </select>
           </div>
         </div>
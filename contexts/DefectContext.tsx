@@ -1,14 +1,19 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { VisionAnalysisResult, HotspotResult } from '@/lib/api';
+import type { DefectSeverity, DefectStatus } from '@/lib/contracts';
 
 export interface Defect {
   id: string;
   type: string;
-  severity: 'critical' | 'high' | 'medium' | 'low';
-  status: 'new' | 'in-progress' | 'resolved';
+  severity: DefectSeverity;
+  status: DefectStatus;
+  assignee?: string;
+  site?: string;
   location: string;
+  gpsLat?: number;
+  gpsLng?: number;
   description: string;
   timestamp: string;
   imageUrl?: string;
@@ -23,15 +28,58 @@ interface DefectContextType {
   addDefect: (defect: Omit<Defect, 'id'>) => Defect;
   updateDefect: (id: string, updates: Partial<Defect>) => void;
   deleteDefect: (id: string) => void;
+  // Show changes the server has already saved, e.g. confirmed chat actions
+  mergeDefects: (updated: Defect[]) => void;
+  // Defect open in the log's detail view, e.g. after clicking a citation
+  focusedDefectId: string | null;
+  focusDefect: (id: string | null) => void;
   getDefectsBySeverity: () => Record<Defect['severity'], number>;
   getDefectsByStatus: () => Record<Defect['status'], number>;
 }
 
 const DefectContext = createContext<DefectContextType | undefined>(undefined);
 
+// Changes apply locally at once and are written through to the server's
+// defect register, which the defect assistant reads
+async function syncDefect(path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) {
+  try {
+    const response = await fetch(path, {
+      method,
+      ...(body !== undefined && {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+    });
+    if (!response.ok) {
+      console.error(`Failed to save defect change (${method} ${path}):`, response.status);
+    }
+  } catch (error) {
+    console.error(`Failed to save defect change (${method} ${path}):`, error);
+  }
+}
+
 export function DefectProvider({ children }: { children: ReactNode }) {
   const [defects, setDefects] = useState<Defect[]>([]);
   const [loading, setLoading] = useState(false);
+  const [focusedDefectId, focusDefect] = useState<string | null>(null);
+
+  // Load the register; image previews only exist in this session, so they
+  // are kept for defects recorded before the load finished
+  useEffect(() => {
+    fetch('/api/defects')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(({ defects: stored }: { defects: Defect[] }) => {
+        setDefects(prev => {
+          const local = new Map(prev.map(d => [d.id, d]));
+          const storedIds = new Set(stored.map(d => d.id));
+          return [
+            ...prev.filter(d => !storedIds.has(d.id)),
+            ...stored.map(d => ({ ...d, imageUrl: local.get(d.id)?.imageUrl })),
+          ];
+        });
+      })
+      .catch(error => console.error('Failed to load defects:', error));
+  }, []);
 
   const addDefect = useCallback((defect: Omit<Defect, 'id'>) => {
     const newDefect: Defect = {
@@ -39,6 +87,8 @@ export function DefectProvider({ children }: { children: ReactNode }) {
       id: `defect-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     };
     setDefects(prev => [newDefect, ...prev]);
+    // The preview is a data URL; the register does not keep images
+    syncDefect('/api/defects', 'POST', { ...newDefect, imageUrl: undefined });
     return newDefect;
   }, []);
 
@@ -46,10 +96,20 @@ export function DefectProvider({ children }: { children: ReactNode }) {
     setDefects(prev => 
       prev.map(d => d.id === id ? { ...d, ...updates } : d)
     );
+    syncDefect(`/api/defects/${encodeURIComponent(id)}`, 'PATCH', updates);
   }, []);
 
   const deleteDefect = useCallback((id: string) => {
     setDefects(prev => prev.filter(d => d.id !== id));
+    syncDefect(`/api/defects/${encodeURIComponent(id)}`, 'DELETE');
+  }, []);
+
+  const mergeDefects = useCallback((updated: Defect[]) => {
+    const byId = new Map(updated.map(d => [d.id, d]));
+    setDefects(prev => prev.map(d => {
+      const stored = byId.get(d.id);
+      return stored ? { ...stored, imageUrl: d.imageUrl } : d;
+    }));
   }, []);
 
   const getDefectsBySeverity = useCallback(() => {
@@ -90,6 +150,9 @@ export function DefectProvider({ children }: { children: ReactNode }) {
         addDefect,
         updateDefect,
         deleteDefect,
+        mergeDefects,
+        focusedDefectId,
+        focusDefect,
         getDefectsBySeverity,
         getDefectsByStatus,
       }}
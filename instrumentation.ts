@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Pick up batch jobs interrupted by the last shutdown
+    const { resumeBatchJobs } = await import('@/lib/jobs/batch');
+    await resumeBatchJobs();
+  }
+}
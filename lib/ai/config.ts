@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isAIProviderName, AIModelSelection, AITask } from '@/lib/ai/provider';
+
+// Which provider and model serve each task. Layers, later ones win:
+//   1. OpenAI with DEFAULT_MODEL
+//   2. AI_PROVIDER, AI_MODEL and AI_BASE_URL
+//   3. per-task variables such as AI_SUMMARY_MODEL or AI_VISION_PROVIDER
+//   4. data/ai-config.json: { "default": {...}, "tasks": { "<task>": {...} } }
+//   5. the same shape under "organizations": { "<organizationId>": {...} }
+// A layer may set any of provider, model and baseUrl. The file is read on
+// every resolution, so edits apply without a restart.
+//
+// Tasks that can switch providers (the defect assistant) also take
+// fallbacks, tried in order when the selected provider is unavailable: the
+// organization's "fallbacks" list, then the file's, then AI_FALLBACK_PROVIDER,
+// AI_FALLBACK_MODEL and AI_FALLBACK_BASE_URL.
+
+export const DEFAULT_MODEL = 'gpt-4.1-2025-04-14';
+
+type SelectionLayer = Partial<AIModelSelection>;
+
+interface ConfigScope {
+  default?: SelectionLayer;
+  tasks?: Partial<Record<AITask, SelectionLayer>>;
+  fallbacks?: SelectionLayer[];
+}
+
+interface AIConfigFile extends ConfigScope {
+  organizations?: Record<string, ConfigScope>;
+}
+
+const CONFIG_FILE = path.join(process.cwd(), 'data', 'ai-config.json');
+
+function envLayer(prefix: string): SelectionLayer {
+  return {
+    provider: process.env[`${prefix}_PROVIDER`] as AIModelSelection['provider'] | undefined,
+    model: process.env[`${prefix}_MODEL`],
+    baseUrl: process.env[`${prefix}_BASE_URL`],
+  };
+}
+
+async function loadConfigFile(): Promise<AIConfigFile> {
+  try {
+    return JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[AI] Failed to read AI provider config:', error);
+    }
+    return {};
+  }
+}
+
+function merge(selection: AIModelSelection, layer: SelectionLayer | undefined): AIModelSelection {
+  if (!layer) return selection;
+  if (layer.provider !== undefined && !isAIProviderName(layer.provider)) {
+    console.error(`[AI] Ignoring unknown provider "${layer.provider}"`);
+  }
+  return {
+    provider: isAIProviderName(layer.provider) ? layer.provider : selection.provider,
+    model: layer.model || selection.model,
+    baseUrl: layer.baseUrl || selection.baseUrl,
+  };
+}
+
+// The base URL only means something to openai-compatible endpoints
+function finalise(selection: AIModelSelection): AIModelSelection {
+  return selection.provider === 'openai-compatible'
+    ? selection
+    : { provider: selection.provider, model: selection.model };
+}
+
+export async function resolveAIModel(task: AITask, organizationId?: string | null): Promise<AIModelSelection> {
+  return (await resolveAIModels(task, organizationId))[0];
+}
+
+// The selected provider followed by its fallbacks, without duplicates
+export async function resolveAIModels(task: AITask, organizationId?: string | null): Promise<AIModelSelection[]> {
+  const file = await loadConfigFile();
+  const organization = organizationId ? file.organizations?.[organizationId] : undefined;
+
+  const layers = [
+    envLayer('AI'),
+    envLayer(`AI_${task.toUpperCase()}`),
+    file.default,
+    file.tasks?.[task],
+    organization?.default,
+    organization?.tasks?.[task],
+  ];
+  const selection = finalise(layers.reduce(merge, { provider: 'openai', model: DEFAULT_MODEL }));
+
+  const fallbackLayers = [...(organization?.fallbacks ?? []), ...(file.fallbacks ?? []), envLayer('AI_FALLBACK')]
+    .filter(layer => layer.provider || layer.model);
+  const fallbacks = fallbackLayers.map(layer => finalise(merge({ provider: 'openai', model: DEFAULT_MODEL }, layer)));
+
+  const seen = new Set<string>();
+  return [selection, ...fallbacks].filter(candidate => {
+    const key = JSON.stringify(candidate);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
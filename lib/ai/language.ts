@@ -0,0 +1,20 @@
+import type { Language } from '@/lib/contracts';
+
+// Instructions for answering in the user's language. Defect ids, module
+// labels, codes and technical terms stay as written in the defect data, so
+// citations and grounding keep working and crews can match them to what is
+// printed on site.
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  gu: 'Gujarati',
+  hi: 'Hindi',
+  mr: 'Marathi',
+  ta: 'Tamil',
+};
+
+// Empty for English, the language of the prompts
+export function languageInstruction(language: Language): string {
+  if (language === 'en') return '';
+  return `Write in ${LANGUAGE_NAMES[language]}, in its own script. Keep these exactly as written in the defect data: defect ids, module and row labels such as r3c7, site names, fault and inverter codes, units, and technical terms such as hotspot, bypass diode, PID, soiling, string and inverter. Write numbers with the digits 0-9.`;
+}
@@ -0,0 +1,76 @@
+import type { AIChatReply, AIChatRequest, AITask } from '@/lib/ai/provider';
+
+// Offline provider for development, demos and tests without network access.
+// Responses depend only on the task and prompt, so repeated runs give
+// identical results; image analyses report a clean frame.
+
+const NOTE = 'Offline mock response; no model was called.';
+
+const ANALYSIS_RESPONSES: Record<Exclude<AITask, 'summary' | 'chat'>, Record<string, unknown>> = {
+  hotspot: { hotspots: [], severity: 'none', analysis: NOTE, recommendations: [], confidence: 0.5 },
+  visual: { defects: [], analysis: NOTE, recommendations: [], confidence: 0.5 },
+  vision: { findings: [], narrative: NOTE, display: null, confidence: 0.5 },
+};
+
+function promptText(request: AIChatRequest): string {
+  const content = request.messages[request.messages.length - 1]?.content;
+  if (typeof content === 'string') return content;
+  return (content ?? [])
+    .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+    .join('\n');
+}
+
+function reply(content: string): AIChatReply {
+  return { content, toolCalls: [] };
+}
+
+// Chat: call the first tool that takes no required arguments, then answer
+// by citing every defect id the tool results mention
+function mockChatReply(request: AIChatRequest): AIChatReply {
+  const toolResults = request.messages.filter(message => message.role === 'tool');
+  const tool = request.tools?.find(t => !(t.function.parameters?.required as string[] | undefined)?.length);
+  if (toolResults.length === 0 && tool) {
+    return {
+      content: '',
+      toolCalls: [{ id: 'mock-call-1', type: 'function', function: { name: tool.function.name, arguments: '{}' } }],
+    };
+  }
+
+  const ids = new Set<string>();
+  toolResults.forEach(message => {
+    const content = typeof message.content === 'string' ? message.content : '';
+    for (const match of content.match(/"id":"[^"]+"/g) ?? []) ids.add(match.slice(6, -1));
+  });
+  const cited = Array.from(ids).map(id => `[${id}]`).join(', ');
+  return reply(`${NOTE} The tools returned ${ids.size} defect${ids.size === 1 ? '' : 's'}${cited ? `: ${cited}` : ''}.`);
+}
+
+// Summary prompts list one defect per "- [id] type (severity) at location" line;
+// each becomes a statement citing it. Prompts built from group summaries list
+// "- statement (defects: id, ...)" lines, which are passed through.
+function mockSummary(request: AIChatRequest) {
+  const text = promptText(request);
+  const defects = Array.from(text.matchAll(/^- \[([^\]]+)\] (.+?) \((\w+) severity\) at (.+?), detected/gm));
+  const digests = Array.from(text.matchAll(/^- (.+) \(defects: ([^)+]+?)(?: \+\d+ more)?\)$/gm));
+  const statements = defects.length > 0
+    ? defects.map(([, id, type, severity, location]) => ({ text: `${type} (${severity}) at ${location}.`, defectIds: [id] }))
+    : digests.map(([, statement, ids]) => ({ text: statement, defectIds: ids.split(', ') }));
+  const cited = Array.from(new Set(statements.flatMap(s => s.defectIds)));
+  return {
+    statements: [
+      { text: `${NOTE} The prompt cited ${cited.length} defect${cited.length === 1 ? '' : 's'}.`, defectIds: cited },
+      // Within the response schema's statement limit
+      ...statements.slice(0, 29),
+    ],
+  };
+}
+
+export function mockCompletion(request: AIChatRequest): AIChatReply {
+  if (request.task === 'chat') {
+    return mockChatReply(request);
+  }
+  if (request.task !== 'summary') {
+    return reply(JSON.stringify(ANALYSIS_RESPONSES[request.task]));
+  }
+  return reply(JSON.stringify(mockSummary(request)));
+}
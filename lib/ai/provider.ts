@@ -0,0 +1,119 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import { mockCompletion } from '@/lib/ai/mock';
+import { withResilience } from '@/lib/ai/resilience';
+
+// Every model call (hotspot, visual and component analysis, summaries, the
+// defect assistant) goes through this layer. Adapters: the OpenAI API, any OpenAI-compatible
+// endpoint (vLLM, Ollama or LM Studio serving a self-hosted vision model)
+// and a deterministic offline mock. lib/ai/config.ts picks the provider and
+// model for each task.
+
+export type AIProviderName = 'openai' | 'openai-compatible' | 'mock';
+export type AITask = 'hotspot' | 'visual' | 'vision' | 'summary' | 'chat';
+
+export const AI_PROVIDERS: AIProviderName[] = ['openai', 'openai-compatible', 'mock'];
+export const AI_TASKS: AITask[] = ['hotspot', 'visual', 'vision', 'summary', 'chat'];
+
+export interface AIModelSelection {
+  provider: AIProviderName;
+  model: string;
+  baseUrl?: string; // openai-compatible endpoints only
+}
+
+export interface AIChatRequest {
+  task: AITask;
+  messages: ChatCompletionMessageParam[];
+  temperature: number;
+  maxTokens: number;
+  json?: boolean; // ask for a JSON object response
+  tools?: ChatCompletionTool[]; // functions the model may call instead of answering
+}
+
+// The assistant message: text, or the tool calls the model wants run first
+export interface AIChatReply {
+  content: string;
+  toolCalls: ChatCompletionMessageToolCall[];
+}
+
+interface AIProvider {
+  complete(selection: AIModelSelection, request: AIChatRequest, timeoutMs: number): Promise<AIChatReply>;
+}
+
+// Clients are created on first use so a missing API key only fails the
+// calls that need it. The SDK's own retries are off; lib/ai/resilience.ts
+// retries instead.
+const clients = new Map<string, OpenAI>();
+
+function openAIClient(baseUrl?: string): OpenAI {
+  const key = baseUrl ?? '';
+  let client = clients.get(key);
+  if (!client) {
+    client = baseUrl
+      // Local servers usually ignore the key, but the SDK requires one
+      ? new OpenAI({ apiKey: process.env.AI_COMPATIBLE_API_KEY || 'not-needed', baseURL: baseUrl, maxRetries: 0 })
+      : new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+async function chatCompletion(
+  client: OpenAI,
+  selection: AIModelSelection,
+  request: AIChatRequest,
+  timeoutMs: number
+): Promise<AIChatReply> {
+  const response = await client.chat.completions.create({
+    model: selection.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json && { response_format: { type: 'json_object' as const } }),
+    ...(request.tools?.length && { tools: request.tools }),
+  }, { timeout: timeoutMs });
+  const message = response.choices[0]?.message;
+  return { content: message?.content || '', toolCalls: message?.tool_calls ?? [] };
+}
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  openai: {
+    complete: (selection, request, timeoutMs) => chatCompletion(openAIClient(), selection, request, timeoutMs),
+  },
+  'openai-compatible': {
+    complete: (selection, request, timeoutMs) => {
+      if (!selection.baseUrl) {
+        throw new Error('The openai-compatible provider needs a baseUrl');
+      }
+      return chatCompletion(openAIClient(selection.baseUrl), selection, request, timeoutMs);
+    },
+  },
+  mock: {
+    complete: async (_selection, request) => mockCompletion(request),
+  },
+};
+
+export function isAIProviderName(value: unknown): value is AIProviderName {
+  return AI_PROVIDERS.includes(value as AIProviderName);
+}
+
+// Circuit breakers are kept per endpoint, not per model
+export function providerKey(selection: AIModelSelection): string {
+  return selection.provider === 'openai-compatible' ? `${selection.provider} ${selection.baseUrl}` : selection.provider;
+}
+
+// Run a chat completion with the selected provider and return the assistant
+// message. Deadlines, retries and the circuit breaker apply to every provider.
+export function completeChatTurn(selection: AIModelSelection, request: AIChatRequest): Promise<AIChatReply> {
+  return withResilience(providerKey(selection), timeoutMs =>
+    PROVIDERS[selection.provider].complete(selection, request, timeoutMs));
+}
+
+// Message text only, for requests without tools
+export async function completeChat(selection: AIModelSelection, request: AIChatRequest): Promise<string> {
+  return (await completeChatTurn(selection, request)).content;
+}
@@ -0,0 +1,194 @@
+import { APIConnectionError, APIError } from 'openai';
+
+// Resilience policy for outbound model calls: a deadline per attempt,
+// jittered exponential backoff on transient errors (honouring retry-after),
+// and a circuit breaker per provider endpoint. While a breaker is open calls
+// fail fast with AIUnavailableError, which the analysis pipelines already
+// handle by switching to their local detectors.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  key: string; // provider, plus the base URL for openai-compatible endpoints
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null; // when an open breaker lets a trial call through
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  calls: number;
+  failures: number;
+  retries: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const AI_CALL_POLICY = {
+  timeoutMs: envNumber('AI_TIMEOUT_MS', 60_000),
+  maxAttempts: envNumber('AI_MAX_ATTEMPTS', 3),
+  baseDelayMs: 1000,
+  maxDelayMs: 20_000,
+  // A longer retry-after is not waited out; the call fails instead
+  maxRetryAfterMs: 30_000,
+  failureThreshold: envNumber('AI_BREAKER_THRESHOLD', 5),
+  cooldownMs: envNumber('AI_BREAKER_COOLDOWN_MS', 30_000),
+};
+
+// The provider is unavailable: the breaker is open or retries ran out
+export class AIUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIUnavailableError';
+  }
+}
+
+interface BreakerState {
+  circuits: Map<string, CircuitStatus>;
+  trials: Set<string>; // half-open circuits with their trial call in flight
+}
+
+// Route handlers can be bundled separately, so breakers live on globalThis
+const globalForCircuits = globalThis as unknown as { aiBreakers?: BreakerState };
+const state: BreakerState = globalForCircuits.aiBreakers ??= { circuits: new Map(), trials: new Set() };
+
+function circuit(key: string): CircuitStatus {
+  const { circuits } = state;
+  let entry = circuits.get(key);
+  if (!entry) {
+    entry = {
+      key,
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      calls: 0,
+      failures: 0,
+      retries: 0,
+    };
+    circuits.set(key, entry);
+  }
+  return entry;
+}
+
+// Connection failures, timeouts, rate limits and server errors; a 429 for an
+// exhausted quota will not clear by waiting
+function isTransient(error: unknown): boolean {
+  if (error instanceof APIConnectionError) return true;
+  if (!(error instanceof APIError) || error.status === undefined) return false;
+  if (error.status === 429) return error.code !== 'insufficient_quota';
+  return error.status === 408 || error.status === 409 || error.status >= 500;
+}
+
+function retryAfterMs(error: unknown): number | null {
+  if (!(error instanceof APIError) || !error.headers) return null;
+  const ms = Number(error.headers.get('retry-after-ms'));
+  if (Number.isFinite(ms) && ms >= 0 && error.headers.get('retry-after-ms') !== null) return ms;
+  const header = error.headers.get('retry-after');
+  if (header === null) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+// Full jitter: a random delay up to the exponential backoff for the attempt
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(AI_CALL_POLICY.maxDelayMs, AI_CALL_POLICY.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+// SDK error messages already start with the HTTP status
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function acquire(entry: CircuitStatus) {
+  if (entry.state === 'open') {
+    if (entry.retryAt && Date.now() < Date.parse(entry.retryAt)) {
+      throw new AIUnavailableError(`AI provider ${entry.key} is unavailable (circuit open until ${entry.retryAt})`);
+    }
+    entry.state = 'half-open';
+  }
+  if (entry.state === 'half-open') {
+    // One trial call decides whether the breaker closes again
+    if (state.trials.has(entry.key)) {
+      throw new AIUnavailableError(`AI provider ${entry.key} is unavailable (recovery check in progress)`);
+    }
+    state.trials.add(entry.key);
+  }
+}
+
+function recordSuccess(entry: CircuitStatus) {
+  entry.state = 'closed';
+  entry.consecutiveFailures = 0;
+  entry.openedAt = null;
+  entry.retryAt = null;
+  state.trials.delete(entry.key);
+  entry.lastSuccessAt = new Date().toISOString();
+}
+
+function recordFailure(entry: CircuitStatus, error: unknown) {
+  entry.failures++;
+  entry.lastError = describe(error);
+  entry.lastFailureAt = new Date().toISOString();
+  const wasTrial = state.trials.delete(entry.key);
+  if (!isTransient(error)) {
+    // Bad requests and auth errors say nothing about provider health
+    if (wasTrial) entry.state = 'closed';
+    return;
+  }
+
+  entry.consecutiveFailures++;
+  if (wasTrial || entry.consecutiveFailures >= AI_CALL_POLICY.failureThreshold) {
+    if (entry.state !== 'open') {
+      console.error(`[AI] Circuit for ${entry.key} opened after ${entry.consecutiveFailures} consecutive failures: ${entry.lastError}`);
+    }
+    entry.state = 'open';
+    entry.openedAt = entry.lastFailureAt;
+    entry.retryAt = new Date(Date.now() + AI_CALL_POLICY.cooldownMs).toISOString();
+  }
+}
+
+// Run a model call under the policy. `call` receives the deadline for the
+// attempt in milliseconds.
+export async function withResilience<T>(key: string, call: (timeoutMs: number) => Promise<T>): Promise<T> {
+  const entry = circuit(key);
+  entry.calls++;
+
+  for (let attempt = 1; ; attempt++) {
+    acquire(entry);
+    try {
+      const result = await call(AI_CALL_POLICY.timeoutMs);
+      recordSuccess(entry);
+      return result;
+    } catch (error) {
+      recordFailure(entry, error);
+      if (!isTransient(error)) throw error;
+      if (attempt >= AI_CALL_POLICY.maxAttempts || entry.state === 'open') {
+        throw new AIUnavailableError(`AI provider ${key} failed after ${attempt} attempt(s): ${describe(error)}`);
+      }
+
+      const retryAfter = retryAfterMs(error);
+      if (retryAfter !== null && retryAfter > AI_CALL_POLICY.maxRetryAfterMs) {
+        throw new AIUnavailableError(`AI provider ${key} asked to retry after ${Math.round(retryAfter / 1000)}s`);
+      }
+      entry.retries++;
+      await new Promise(resolve => setTimeout(resolve, retryAfter ?? backoffMs(attempt)));
+    }
+  }
+}
+
+export function circuitStatuses(): CircuitStatus[] {
+  return Array.from(state.circuits.values()).map(status => {
+    // An open breaker past its cooldown admits the next call
+    const ready = status.state === 'open' && status.retryAt !== null && Date.now() >= Date.parse(status.retryAt);
+    return ready ? { ...status, state: 'half-open' } : { ...status };
+  });
+}
@@ -0,0 +1,173 @@
+// Minimal runtime schemas for model responses and API request bodies
+// (lib/contracts.ts). A schema checks an unknown value, collects every
+// violation with its path ("hotspots[2].x: ...") and returns the typed value.
+// Nothing is defaulted: a missing or out-of-range field is a violation, so
+// callers can ask the model to repair its answer or list the problems in a 400.
+
+export interface Schema<T> {
+  check(value: unknown, path: string, errors: string[]): T;
+  // Shown to the model when it has to repair a response
+  describe(): string;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+// Fields whose schema accepts undefined are optional keys
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+function fail(errors: string[], path: string, message: string) {
+  errors.push(path ? `${path}: ${message}` : message);
+}
+
+function schema<T>(describe: string, check: Schema<T>['check']): Schema<T> {
+  return { check, describe: () => describe };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  const { min, max, integer } = options;
+  const range = min !== undefined && max !== undefined ? ` ${min}-${max}`
+    : min !== undefined ? ` >= ${min}`
+    : max !== undefined ? ` <= ${max}` : '';
+  const describe = `${integer ? 'integer' : 'number'}${range}`;
+  return schema(describe, (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(errors, path, `expected ${describe}, got ${JSON.stringify(value) ?? 'nothing'}`);
+    } else if ((min !== undefined && value < min) || (max !== undefined && value > max) || (integer && !Number.isInteger(value))) {
+      fail(errors, path, `expected ${describe}, got ${value}`);
+    }
+    return value as number;
+  });
+}
+
+// Strings are trimmed unless `trim` is false, e.g. for passwords
+export function string(options: { minLength?: number; maxLength?: number; trim?: boolean } = {}): Schema<string> {
+  const { minLength = 0, maxLength, trim = true } = options;
+  const describe = minLength > 1 ? `string of at least ${minLength} characters`
+    : `${minLength > 0 ? 'non-empty string' : 'string'}${maxLength !== undefined ? ` of at most ${maxLength} characters` : ''}`;
+  return schema(describe, (value, path, errors) => {
+    if (typeof value !== 'string') {
+      fail(errors, path, `expected ${describe}, got ${JSON.stringify(value) ?? 'nothing'}`);
+      return '';
+    }
+    const trimmed = trim ? value.trim() : value;
+    if (trimmed.length < minLength || (maxLength !== undefined && trimmed.length > maxLength)) {
+      fail(errors, path, `expected ${describe}`);
+    }
+    return trimmed;
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return schema('boolean', (value, path, errors) => {
+    if (typeof value !== 'boolean') fail(errors, path, `expected boolean, got ${JSON.stringify(value) ?? 'nothing'}`);
+    return value as boolean;
+  });
+}
+
+// Enum values are matched case-insensitively and returned as declared
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  const describe = values.map(v => `"${v}"`).join(' | ');
+  return schema(describe, (value, path, errors) => {
+    const match = typeof value === 'string' ? values.find(v => v.toLowerCase() === value.trim().toLowerCase()) : undefined;
+    if (!match) fail(errors, path, `expected one of ${describe}, got ${JSON.stringify(value) ?? 'nothing'}`);
+    return (match ?? value) as T;
+  });
+}
+
+// An uploaded multipart file, optionally limited to some extensions and to a
+// size that may depend on the extension
+export function file(
+  options: { formats?: readonly string[]; maxSize?: number | ((extension: string) => number) } = {}
+): Schema<File> {
+  const { formats, maxSize } = options;
+  const describe = formats ? `${formats.join(', ')} file` : 'file';
+  return schema(describe, (value, path, errors) => {
+    if (!(value instanceof File)) {
+      fail(errors, path, `expected ${describe}, got ${typeof value === 'string' ? 'a text field' : 'nothing'}`);
+      return value as File;
+    }
+    const extension = value.name.split('.').pop()?.toLowerCase() ?? '';
+    if (formats && !formats.includes(extension)) {
+      fail(errors, path, `expected ${describe}, got "${value.name}"`);
+      return value;
+    }
+    const limit = typeof maxSize === 'function' ? maxSize(extension) : maxSize;
+    if (limit !== undefined && value.size > limit) {
+      fail(errors, path, `${value.name} exceeds the maximum size of ${limit / 1024 / 1024}MB`);
+    }
+    return value;
+  });
+}
+
+export function array<T>(items: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+  const describe = `array of ${items.describe()}${options.maxItems !== undefined ? ` (at most ${options.maxItems})` : ''}`;
+  return schema(describe, (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      fail(errors, path, `expected array, got ${JSON.stringify(value) ?? 'nothing'}`);
+      return [];
+    }
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      fail(errors, path, `expected at most ${options.maxItems} items, got ${value.length}`);
+    }
+    return value.map((item, index) => items.check(item, `${path}[${index}]`, errors));
+  });
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  const describe = `{ ${Object.entries(shape).map(([key, field]) => `"${key}": ${field.describe()}`).join(', ')} }`;
+  return schema(describe, (value, path, errors) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      fail(errors, path, `expected object, got ${JSON.stringify(value) ?? 'nothing'}`);
+      return {} as ObjectOf<S>;
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, field]) => {
+      output[key] = field.check(input[key], path ? `${path}.${key}` : key, errors);
+    });
+    return output as ObjectOf<S>;
+  });
+}
+
+// Any JSON object, passed through unchecked (e.g. a stored analysis result)
+export function record(): Schema<Record<string, unknown>> {
+  return schema('object', (value, path, errors) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      fail(errors, path, `expected object, got ${JSON.stringify(value) ?? 'nothing'}`);
+    }
+    return value as Record<string, unknown>;
+  });
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema(`${inner.describe()} or null`, (value, path, errors) =>
+    value === null ? null : inner.check(value, path, errors));
+}
+
+// Optional fields may be missing or null; both read as undefined
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return schema(`${inner.describe()} (optional)`, (value, path, errors) =>
+    value === undefined || value === null ? undefined : inner.check(value, path, errors));
+}
+
+// Extra rule on top of a schema, e.g. a lookup in a taxonomy
+export function refine<T>(inner: Schema<T>, test: (value: T) => boolean, message: string): Schema<T> {
+  return schema(`${inner.describe()} (${message})`, (value, path, errors) => {
+    const before = errors.length;
+    const checked = inner.check(value, path, errors);
+    if (errors.length === before && !test(checked)) fail(errors, path, `${message}, got ${JSON.stringify(value)}`);
+    return checked;
+  });
+}
+
+export function validate<T>(target: Schema<T>, value: unknown): { value: T; errors: string[] } {
+  const errors: string[] = [];
+  return { value: target.check(value, '', errors), errors };
+}
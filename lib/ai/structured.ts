@@ -0,0 +1,64 @@
+import { completeChat, AIChatRequest, AIModelSelection } from '@/lib/ai/provider';
+import { validate, Schema } from '@/lib/ai/schema';
+
+// JSON model calls checked against a schema. A response that fails is sent
+// back to the model with the violations for a bounded number of repair
+// rounds; if it still fails the caller gets a ModelResponseError and marks
+// its result as needing review instead of filling in defaults.
+
+const MAX_REPAIR_ROUNDS = 1;
+const MAX_REPORTED_ERRORS = 20;
+
+// Recorded on every model-backed result
+export interface ResponseValidation {
+  status: 'ok' | 'needs_review';
+  repairs: number; // repair rounds used
+  errors: string[]; // violations left after the last round
+}
+
+export class ModelResponseError extends Error {
+  constructor(public errors: string[], public repairs: number) {
+    super(`Model response failed validation after ${repairs} repair round(s): ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'ModelResponseError';
+  }
+}
+
+export function needsReview(error: ModelResponseError): ResponseValidation {
+  return { status: 'needs_review', repairs: error.repairs, errors: error.errors.slice(0, MAX_REPORTED_ERRORS) };
+}
+
+function parseResponse<T>(content: string, schema: Schema<T>): { value: T; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return { value: undefined as T, errors: ['response is not valid JSON'] };
+  }
+  return validate(schema, raw);
+}
+
+export async function completeJson<T>(
+  selection: AIModelSelection,
+  request: Omit<AIChatRequest, 'json'>,
+  schema: Schema<T>
+): Promise<{ value: T; validation: ResponseValidation }> {
+  const messages = [...request.messages];
+  for (let round = 0; ; round++) {
+    const content = await completeChat(selection, { ...request, messages, json: true });
+    const { value, errors } = parseResponse(content, schema);
+    if (errors.length === 0) {
+      return { value, validation: { status: 'ok', repairs: round, errors: [] } };
+    }
+    if (round >= MAX_REPAIR_ROUNDS) {
+      throw new ModelResponseError(errors, round);
+    }
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response does not match the required schema:\n${errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only. Required structure: ${schema.describe()}`,
+      },
+    );
+  }
+}
@@ -0,0 +1,327 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { DEFAULT_ORGANIZATION_ID } from '@/lib/auth';
+
+// Content-addressed cache for image analyses. Results are keyed by a hash of
+// the image bytes plus the parameters that shape the result (settings, model,
+// prompt version), so re-running a report does not pay for the same model
+// call twice. A perceptual hash of each cached image flags uploads that are
+// near-duplicates of an earlier frame without being byte-identical.
+// Entries belong to the organization that uploaded the image: lookups,
+// near-duplicate matches and invalidation never cross organizations. The
+// least recently used entries are evicted past ANALYSIS_CACHE_MAX_ENTRIES.
+
+export type CacheKind = 'hotspot' | 'vision';
+
+export interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  organizationId?: string; // missing on entries cached before organizations
+  imageHash: string; // sha256 of the image bytes
+  perceptualHash: string | null; // 64-bit dHash, hex
+  filename?: string;
+  createdAt: string;
+  hits: number;
+  lastHitAt?: string;
+}
+
+export interface NearDuplicate {
+  key: string;
+  imageHash: string;
+  filename?: string;
+  distance: number; // differing bits out of 64
+  createdAt: string;
+}
+
+export interface CacheStatus {
+  cached: boolean;
+  cacheKey: string;
+  cachedAt?: string;
+  nearDuplicate?: NearDuplicate;
+}
+
+export interface CacheFilter {
+  key?: string;
+  imageHash?: string;
+  kind?: CacheKind;
+}
+
+interface CacheState {
+  index: Map<string, CacheEntry> | null;
+  loading: Promise<Map<string, CacheEntry>> | null;
+  inflight: Map<string, Promise<unknown>>;
+  write: Promise<void>;
+}
+
+const CACHE_DIR = path.join(process.cwd(), 'data', 'cache');
+const INDEX_FILE = path.join(CACHE_DIR, 'index.json');
+const RESULTS_DIR = path.join(CACHE_DIR, 'results');
+const NEAR_DUPLICATE_DISTANCE = 6; // bits; survives re-encoding and small crops
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+const DEFAULT_MAX_ENTRIES = 5000;
+
+// Route handlers can be bundled separately, so the index lives on globalThis
+const globalForCache = globalThis as unknown as { analysisCache?: CacheState };
+const state: CacheState = globalForCache.analysisCache ??= {
+  index: null,
+  loading: null,
+  inflight: new Map(),
+  write: Promise.resolve(),
+};
+
+function cacheEnabled(): boolean {
+  return process.env.ANALYSIS_CACHE !== 'off';
+}
+
+function maxEntries(): number {
+  const configured = Number(process.env.ANALYSIS_CACHE_MAX_ENTRIES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ENTRIES;
+}
+
+function ownedBy(entry: CacheEntry, organizationId: string): boolean {
+  return (entry.organizationId ?? DEFAULT_ORGANIZATION_ID) === organizationId;
+}
+
+// JSON with sorted keys, so parameter order never changes the cache key
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function imageHash(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+export function cacheKey(organizationId: string, kind: CacheKind, hash: string, params: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(`${organizationId}\n${kind}\n${hash}\n${canonicalJson(params)}`).digest('hex');
+}
+
+// Difference hash: shrink to 9x8 greyscale and record whether each pixel is
+// brighter than its right-hand neighbour
+export async function perceptualHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer)
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    let hash = '';
+    for (let row = 0; row < 8; row++) {
+      let nibble = 0;
+      for (let column = 0; column < 8; column++) {
+        const bit = pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? 1 : 0;
+        nibble = (nibble << 1) | bit;
+        if (column % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } catch {
+    return null; // Too large or not decodable; exact-match caching still works
+  }
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+async function loadIndex(): Promise<Map<string, CacheEntry>> {
+  if (state.index) return state.index;
+  state.loading ??= fs.readFile(INDEX_FILE, 'utf-8')
+    .then(data => new Map(Object.entries(JSON.parse(data) as Record<string, CacheEntry>)))
+    .catch(() => new Map<string, CacheEntry>())
+    .then(index => (state.index = index));
+  return state.loading;
+}
+
+// Index writes are chained so concurrent analyses never interleave
+function saveIndex(index: Map<string, CacheEntry>): Promise<void> {
+  state.write = state.write.then(async () => {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(`${INDEX_FILE}.tmp`, JSON.stringify(Object.fromEntries(index), null, 2));
+    await fs.rename(`${INDEX_FILE}.tmp`, INDEX_FILE);
+  }).catch(error => {
+    console.error('[CACHE] Failed to persist cache index:', error);
+  });
+  return state.write;
+}
+
+async function readResult<T>(key: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(RESULTS_DIR, `${key}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function removeEntries(index: Map<string, CacheEntry>, entries: CacheEntry[]): Promise<void> {
+  for (const entry of entries) {
+    index.delete(entry.key);
+    await fs.rm(path.join(RESULTS_DIR, `${entry.key}.json`), { force: true });
+  }
+}
+
+function lastUsed(entry: CacheEntry): string {
+  return entry.lastHitAt ?? entry.createdAt;
+}
+
+// Drop the least recently used entries until the index fits its cap
+async function evictEntries(index: Map<string, CacheEntry>): Promise<void> {
+  const excess = index.size - maxEntries();
+  if (excess <= 0) return;
+  const oldest = Array.from(index.values())
+    .sort((a, b) => lastUsed(a).localeCompare(lastUsed(b)))
+    .slice(0, excess);
+  await removeEntries(index, oldest);
+}
+
+function findNearDuplicate(
+  index: Map<string, CacheEntry>,
+  organizationId: string,
+  hash: string,
+  pHash: string | null
+): NearDuplicate | undefined {
+  if (!pHash) return undefined;
+  let closest: NearDuplicate | undefined;
+  index.forEach(entry => {
+    if (!ownedBy(entry, organizationId) || entry.imageHash === hash || !entry.perceptualHash) return;
+    const distance = hammingDistance(pHash, entry.perceptualHash);
+    if (distance <= NEAR_DUPLICATE_DISTANCE && (!closest || distance < closest.distance)) {
+      closest = {
+        key: entry.key,
+        imageHash: entry.imageHash,
+        filename: entry.filename,
+        distance,
+        createdAt: entry.createdAt,
+      };
+    }
+  });
+  return closest;
+}
+
+// Return the organization's cached result for this image and parameters, or
+// run `compute` and cache what it returns. `refresh` skips the lookup and replaces any
+// existing entry; results rejected by `cacheable` are returned but not
+// stored. Concurrent identical requests share one computation.
+export async function withResultCache<T>(
+  organizationId: string,
+  kind: CacheKind,
+  buffer: Buffer,
+  params: Record<string, unknown>,
+  compute: () => Promise<T>,
+  options: { refresh?: boolean; filename?: string; cacheable?: (result: T) => boolean } = {}
+): Promise<{ result: T; cache: CacheStatus }> {
+  const hash = imageHash(buffer);
+  const key = cacheKey(organizationId, kind, hash, params);
+  if (!cacheEnabled()) {
+    return { result: await compute(), cache: { cached: false, cacheKey: key } };
+  }
+
+  const index = await loadIndex();
+  const existing = index.get(key);
+  if (existing && ownedBy(existing, organizationId) && !options.refresh) {
+    const result = await readResult<T>(key);
+    if (result !== null) {
+      existing.hits++;
+      existing.lastHitAt = new Date().toISOString();
+      void saveIndex(index);
+      return { result, cache: { cached: true, cacheKey: key, cachedAt: existing.createdAt } };
+    }
+  }
+
+  const pending = state.inflight.get(key) as Promise<T> | undefined;
+  if (pending) {
+    return { result: await pending, cache: { cached: false, cacheKey: key } };
+  }
+
+  const computation = compute();
+  state.inflight.set(key, computation);
+  try {
+    const result = await computation;
+    // Flagged for every fresh result, including ones that are not stored
+    const pHash = await perceptualHash(buffer);
+    const nearDuplicate = findNearDuplicate(index, organizationId, hash, pHash);
+    const cache: CacheStatus = nearDuplicate
+      ? { cached: false, cacheKey: key, nearDuplicate }
+      : { cached: false, cacheKey: key };
+    if (options.cacheable && !options.cacheable(result)) {
+      return { result, cache };
+    }
+
+    try {
+      await fs.mkdir(RESULTS_DIR, { recursive: true });
+      await fs.writeFile(path.join(RESULTS_DIR, `${key}.json`), JSON.stringify(result));
+      index.set(key, {
+        key,
+        kind,
+        organizationId,
+        imageHash: hash,
+        perceptualHash: pHash,
+        filename: options.filename,
+        createdAt: new Date().toISOString(),
+        hits: 0,
+      });
+      await evictEntries(index);
+      await saveIndex(index);
+    } catch (error) {
+      console.error(`[CACHE] Failed to store ${kind} result ${key}:`, error);
+    }
+
+    return { result, cache };
+  } finally {
+    state.inflight.delete(key);
+  }
+}
+
+// Drop the organization's matching entries; with no filter its whole cache
+// is cleared. Returns the number of entries removed.
+export async function invalidateCache(organizationId: string, filter: CacheFilter = {}): Promise<number> {
+  const index = await loadIndex();
+  const removed = Array.from(index.values()).filter(entry =>
+    ownedBy(entry, organizationId) &&
+    (!filter.key || entry.key === filter.key) &&
+    (!filter.imageHash || entry.imageHash === filter.imageHash) &&
+    (!filter.kind || entry.kind === filter.kind)
+  );
+
+  await removeEntries(index, removed);
+  if (removed.length > 0) await saveIndex(index);
+  return removed.length;
+}
+
+export async function cacheStats(organizationId: string) {
+  const entries = Array.from((await loadIndex()).values()).filter(entry => ownedBy(entry, organizationId));
+  return {
+    enabled: cacheEnabled(),
+    entries: entries.length,
+    maxEntries: maxEntries(), // shared by all organizations
+    byKind: {
+      hotspot: entries.filter(entry => entry.kind === 'hotspot').length,
+      vision: entries.filter(entry => entry.kind === 'vision').length,
+    },
+    hits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+  };
+}
+
+export function isValidCacheKey(value: string): boolean {
+  return KEY_PATTERN.test(value);
+}
@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ComponentSeverity } from '@/lib/components';
+import { isReservedKey } from '@/lib/contracts';
+
+// Inverter fault-code library, keyed by manufacturer, model and code. The
+// defaults ship in data/fault-codes.json and are only edited by hand; each
+// organization's additions, replacements and removals made through the
+// fault-codes API live in data/fault-code-overrides.json and are laid over
+// the defaults. Lookups read both files each time, so edits apply at once.
+// Model '*' holds codes shared by every model of a manufacturer, and a model
+// key also matches longer model names it prefixes ("SUN2000" covers
+// "SUN2000-60KTL-M0"). The library is held in null-prototype objects and
+// names such as __proto__ are never used as keys, so a request cannot
+// reach Object.prototype.
+
+export interface FaultCodeEntry {
+  message: string; // text the display shows for the code
+  meaning: string;
+  remedy: string;
+  severity: ComponentSeverity;
+  safety?: boolean;
+}
+
+export type FaultCodeLibrary = Record<string, Record<string, Record<string, FaultCodeEntry>>>;
+
+export interface FaultCodeMatch extends FaultCodeEntry {
+  manufacturer: string; // library keys the code was found under
+  model: string;
+  code: string;
+}
+
+// Per organization; a null entry removes a default code
+type OverrideFile = Record<string, Record<string, Record<string, Record<string, FaultCodeEntry | null>>>>;
+
+interface LibraryState {
+  write: Promise<void>;
+}
+
+const LIBRARY_FILE = path.join(process.cwd(), 'data', 'fault-codes.json');
+const OVERRIDES_FILE = path.join(process.cwd(), 'data', 'fault-code-overrides.json');
+const ANY_MODEL = '*';
+// Words displays put in front of the number ("State 102", "Event 3501")
+const CODE_PREFIX = /^(STATE|EVENT|ERROR|ERR|ALARM|FAULT|CODE|WARNING)[\s:#-]*/;
+
+// Route handlers can be bundled separately, so the write chain lives on globalThis
+const globalForLibrary = globalThis as unknown as { faultCodeLibrary?: LibraryState };
+const state: LibraryState = globalForLibrary.faultCodeLibrary ??= { write: Promise.resolve() };
+
+// Null when nothing but a prefix is left ("ALARM", "ERR")
+export function normaliseFaultCode(code: string): string | null {
+  return code.trim().toUpperCase().replace(CODE_PREFIX, '').replace(/[\s#]+/g, '') || null;
+}
+
+function dictionary<T>(): Record<string, T> {
+  return Object.create(null);
+}
+
+async function readLibraryFile<T>(file: string): Promise<Record<string, T>> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'), (key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value) ? Object.assign(dictionary(), value) : value);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[FAULTS] Failed to read ${path.basename(file)}:`, error);
+    }
+    return dictionary();
+  }
+}
+
+function findKey(keys: string[], value: string): string | undefined {
+  if (isReservedKey(value)) return undefined;
+  const wanted = value.trim().toLowerCase();
+  return keys.find(key => key.toLowerCase() === wanted);
+}
+
+function findCodeKey(codes: Record<string, unknown>, code: string): string | undefined {
+  const normalised = normaliseFaultCode(code);
+  return normalised ? Object.keys(codes).find(key => normaliseFaultCode(key) === normalised) : undefined;
+}
+
+// The defaults with the organization's overrides laid over them
+export async function loadFaultLibrary(organizationId: string): Promise<FaultCodeLibrary> {
+  const [library, overrides] = await Promise.all([
+    readLibraryFile<FaultCodeLibrary[string]>(LIBRARY_FILE),
+    readLibraryFile<OverrideFile[string]>(OVERRIDES_FILE),
+  ]);
+  const organization = isReservedKey(organizationId) ? undefined : overrides[organizationId];
+  Object.entries(organization ?? {}).forEach(([manufacturer, models]) => {
+    const manufacturerKey = findKey(Object.keys(library), manufacturer) ?? manufacturer;
+    Object.entries(models).forEach(([model, codes]) => {
+      const modelKeys = library[manufacturerKey] ??= dictionary();
+      const modelKey = findKey(Object.keys(modelKeys), model) ?? model;
+      const entries = modelKeys[modelKey] ??= dictionary();
+      Object.entries(codes).forEach(([code, entry]) => {
+        const codeKey = findCodeKey(entries, code);
+        if (codeKey) delete entries[codeKey];
+        if (entry) entries[code] = entry;
+      });
+      if (Object.keys(entries).length === 0) delete modelKeys[modelKey];
+    });
+    if (Object.keys(library[manufacturerKey]).length === 0) delete library[manufacturerKey];
+  });
+  return library;
+}
+
+// Exact model first, then the longest prefixing model key, then '*'
+function modelKeys(models: string[], model: string | null): string[] {
+  const wanted = (model || '').trim().toLowerCase();
+  const prefixes = models
+    .filter(key => key !== ANY_MODEL && wanted && wanted.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length);
+  return [...prefixes, ...(models.includes(ANY_MODEL) ? [ANY_MODEL] : [])];
+}
+
+export function lookupFaultCode(
+  library: FaultCodeLibrary,
+  manufacturer: string | null,
+  model: string | null,
+  code: string
+): FaultCodeMatch | null {
+  if (!manufacturer || isReservedKey(code)) return null;
+  const manufacturerKey = findKey(Object.keys(library), manufacturer);
+  if (!manufacturerKey) return null;
+
+  const models = library[manufacturerKey];
+  for (const modelKey of modelKeys(Object.keys(models), model)) {
+    const codeKey = findCodeKey(models[modelKey], code);
+    if (codeKey) {
+      return { ...models[modelKey][codeKey], manufacturer: manufacturerKey, model: modelKey, code: codeKey };
+    }
+  }
+  return null;
+}
+
+// Override edits are chained and written atomically; the defaults are never
+// written
+function updateOverrides(organizationId: string, update: (overrides: OverrideFile[string], defaults: FaultCodeLibrary) => boolean): Promise<boolean> {
+  let changed = false;
+  const result = state.write.then(async () => {
+    const [overrides, defaults] = await Promise.all([
+      readLibraryFile<OverrideFile[string]>(OVERRIDES_FILE),
+      readLibraryFile<FaultCodeLibrary[string]>(LIBRARY_FILE),
+    ]);
+    const organization = overrides[organizationId] ?? dictionary();
+    changed = update(organization, defaults);
+    if (!changed) return;
+    if (Object.keys(organization).length > 0) {
+      overrides[organizationId] = organization;
+    } else {
+      delete overrides[organizationId];
+    }
+    await fs.mkdir(path.dirname(OVERRIDES_FILE), { recursive: true });
+    await fs.writeFile(`${OVERRIDES_FILE}.tmp`, `${JSON.stringify(overrides, null, 2)}\n`);
+    await fs.rename(`${OVERRIDES_FILE}.tmp`, OVERRIDES_FILE);
+  });
+  state.write = result.catch(error => {
+    console.error('[FAULTS] Failed to update fault-code overrides:', error);
+  });
+  return result.then(() => changed);
+}
+
+// Slot of one code in an organization's overrides, created on demand
+function overrideCodes(overrides: OverrideFile[string], manufacturer: string, model: string) {
+  const manufacturerKey = findKey(Object.keys(overrides), manufacturer) ?? manufacturer.trim();
+  const models = overrides[manufacturerKey] ??= dictionary();
+  const modelKey = findKey(Object.keys(models), model) ?? model.trim();
+  return models[modelKey] ??= dictionary();
+}
+
+function pruneOverrides(overrides: OverrideFile[string]) {
+  Object.entries(overrides).forEach(([manufacturer, models]) => {
+    Object.entries(models).forEach(([model, codes]) => {
+      if (Object.keys(codes).length === 0) delete models[model];
+    });
+    if (Object.keys(models).length === 0) delete overrides[manufacturer];
+  });
+}
+
+function defaultHasCode(defaults: FaultCodeLibrary, manufacturer: string, model: string, code: string): boolean {
+  const manufacturerKey = findKey(Object.keys(defaults), manufacturer);
+  const modelKey = manufacturerKey && findKey(Object.keys(defaults[manufacturerKey]), model);
+  return !!manufacturerKey && !!modelKey && findCodeKey(defaults[manufacturerKey][modelKey], code) !== undefined;
+}
+
+export function upsertFaultCode(
+  organizationId: string,
+  manufacturer: string,
+  model: string,
+  code: string,
+  entry: FaultCodeEntry
+): Promise<boolean> {
+  if ([organizationId, manufacturer, model, code].some(isReservedKey)) {
+    return Promise.reject(new Error(`Fault-code library keys must not be reserved names: ${manufacturer} / ${model} / ${code}`));
+  }
+  if (!normaliseFaultCode(code)) {
+    return Promise.reject(new Error(`Fault code ${code} has no number or identifier`));
+  }
+  return updateOverrides(organizationId, overrides => {
+    const codes = overrideCodes(overrides, manufacturer, model);
+    const codeKey = findCodeKey(codes, code) ?? code.trim();
+    codes[codeKey] = {
+      message: entry.message,
+      meaning: entry.meaning,
+      remedy: entry.remedy,
+      severity: entry.severity,
+      ...(entry.safety !== undefined && { safety: entry.safety }),
+    };
+    return true;
+  });
+}
+
+// Codes the organization added are dropped; default codes are hidden for the
+// organization only
+export function removeFaultCode(organizationId: string, manufacturer: string, model: string, code: string): Promise<boolean> {
+  if ([organizationId, manufacturer, model, code].some(isReservedKey) || !normaliseFaultCode(code)) {
+    return Promise.resolve(false);
+  }
+  return updateOverrides(organizationId, (overrides, defaults) => {
+    const codes = overrideCodes(overrides, manufacturer, model);
+    const codeKey = findCodeKey(codes, code);
+    const inDefaults = defaultHasCode(defaults, manufacturer, model, code);
+    const removed = codeKey ? codes[codeKey] !== null : inDefaults;
+    if (removed) {
+      if (codeKey) delete codes[codeKey];
+      if (inDefaults) codes[codeKey ?? code.trim()] = null;
+    }
+    pruneOverrides(overrides);
+    return removed;
+  });
+}
@@ -0,0 +1,976 @@
+import sharp from 'sharp';
+import {
+  readRadiometricImage,
+  imageTemperatureStats,
+  regionTemperatureStats,
+  RadiometricImage,
+  TemperatureStats,
+} from '@/lib/thermal/radiometric';
+import {
+  detectHotspots,
+  intensityFieldFromPixels,
+  intensityFieldFromTemperatures,
+  crossCheckHotspots,
+  parseDetectionEngine,
+  DETECTION_ENGINES,
+  DetectedHotspot,
+  DetectionEngine,
+  HotspotSource,
+  IntensityField,
+  LocalDetectionResult,
+} from '@/lib/thermal/detector';
+import {
+  classifyHotspots,
+  countByClass,
+  hotspotBox,
+  measureDeltaT,
+  parseDeltaTThresholds,
+  severityFromClassifications,
+  DeltaTSource,
+  DeltaTThresholds,
+  ScalarField,
+  ThermalClassification,
+} from '@/lib/thermal/classification';
+import { segmentModuleGrid, locateHotspot, HotspotLocation, ModuleGrid } from '@/lib/thermal/grid';
+import { renderHotspotOverlay, OverlayStyle } from '@/lib/thermal/overlay';
+import {
+  extractDronePose,
+  readGeoTransform,
+  imagePositionGeo,
+  georeferenceMetadata,
+  GeoPosition,
+} from '@/lib/thermal/georeference';
+import { planTiles, toMosaicBox, unionBox, groupSeamDetections, Box, Tile } from '@/lib/thermal/tiling';
+import { analyzeVisualFrame, VISUAL_PROMPT_VERSION } from '@/lib/analysis/visual';
+import { AIModelSelection, AITask } from '@/lib/ai/provider';
+import { completeJson, needsReview, ModelResponseError, ResponseValidation } from '@/lib/ai/structured';
+import { array, nullable, number, object, oneOf, optional, string } from '@/lib/ai/schema';
+import type { HotspotAnalysisResult } from '@/lib/contracts';
+
+// Thermal hotspot analysis pipeline shared by the hotspot route and batch jobs
+
+export const MAX_IMAGE_DIMENSION = 8192; // 8K resolution; larger images are tiled
+const MAX_MOSAIC_PIXELS = 1_000_000_000; // 1 gigapixel
+const DEFAULT_TILE_SIZE = 4096;
+const TILE_OVERLAP = 256; // pixels; wider than a typical hotspot
+// Every tile is a model call; mosaics with more tiles than this are too slow
+// for one HTTP request and are analysed as a batch job instead
+export const MAX_SYNC_MOSAIC_TILES = 4;
+const MAX_MOSAIC_HOTSPOTS = 1000;
+const OVERLAY_PREVIEW_DIMENSION = 4096;
+const SEVERITY_RANK: Record<string, number> = { none: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+// Part of the result cache key; bump the prompt version when the prompt or
+// response handling changes so stale results are not served
+export const HOTSPOT_PROMPT_VERSION = '2';
+
+const modelResponseSchema = object({
+  hotspots: array(object({
+    x: number({ min: 0, max: 100 }),
+    y: number({ min: 0, max: 100 }),
+    radius: number({ min: 1 }),
+    intensity: number({ min: 0, max: 100 }),
+    area: number({ min: 0 }),
+    description: string({ minLength: 1 }),
+  })),
+  severity: oneOf(['critical', 'high', 'medium', 'low', 'none'] as const),
+  maxTemperature: optional(nullable(number({ min: -50, max: 500 }))),
+  analysis: string(),
+  recommendations: array(string()),
+  confidence: number({ min: 0, max: 1 }),
+});
+
+export interface HotspotAnalysisOptions {
+  requestId: string;
+  imageType: string; // 'thermal' | 'visual' | 'auto'
+  demoMode: boolean;
+  engine: DetectionEngine;
+  deltaTThresholds: DeltaTThresholds;
+  // Temperature span of the false-color palette, for non-radiometric images
+  paletteScale: { min: number; max: number } | null;
+  // Horizontal camera FOV in degrees, for files that don't record the lens
+  fallbackFov: number | null;
+  annotate: boolean;
+  overlayStyle: OverlayStyle;
+  // Provider and model for the 'llm' and 'cross-check' engines
+  ai: AIModelSelection;
+}
+
+// Request-independent settings; batch jobs store these and resolve the model
+// when each frame runs
+export type HotspotAnalysisSettings = Omit<HotspotAnalysisOptions, 'requestId' | 'ai'>;
+
+// The upload could be read but is not a usable image
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+// Read analysis settings from a multipart form, applying the environment
+// defaults. Returns an error message for invalid input.
+export function parseHotspotSettings(formData: FormData): { settings: HotspotAnalysisSettings } | { error: string } {
+  const engine = parseDetectionEngine(
+    formData.get('engine') || process.env.HOTSPOT_DETECTION_ENGINE || 'llm'
+  );
+  const deltaTThresholds = parseDeltaTThresholds(
+    (formData.get('deltaTThresholds') as string | null) || process.env.IEC_DELTA_T_THRESHOLDS
+  );
+  const overlayStyle = (formData.get('overlayStyle') as string | null) || 'circle';
+  const scaleMinInput = formData.get('scaleMin');
+  const scaleMaxInput = formData.get('scaleMax');
+  const paletteScale = scaleMinInput !== null && scaleMaxInput !== null
+    ? { min: Number(scaleMinInput), max: Number(scaleMaxInput) }
+    : null;
+  const fovInput = formData.get('fov');
+  const fallbackFov = fovInput !== null && fovInput !== '' ? Number(fovInput) : null;
+
+  if (!engine) {
+    return { error: `Invalid detection engine. Allowed engines: ${DETECTION_ENGINES.join(', ')}` };
+  }
+  if (!deltaTThresholds) {
+    return { error: 'Invalid deltaTThresholds. Expected JSON with positive numbers where coa2 < coa3 <= critical' };
+  }
+  if (overlayStyle !== 'circle' && overlayStyle !== 'box') {
+    return { error: 'Invalid overlay style. Allowed styles: circle, box' };
+  }
+  if (paletteScale && !(Number.isFinite(paletteScale.min) && Number.isFinite(paletteScale.max) && paletteScale.max > paletteScale.min)) {
+    return { error: 'scaleMin and scaleMax must be numbers with scaleMax greater than scaleMin' };
+  }
+  if (fallbackFov !== null && !(Number.isFinite(fallbackFov) && fallbackFov > 0 && fallbackFov < 180)) {
+    return { error: 'fov must be a number of degrees between 0 and 180' };
+  }
+
+  return {
+    settings: {
+      imageType: formData.get('imageType') as string || 'auto',
+      demoMode: formData.get('demoMode') === 'true',
+      engine,
+      deltaTThresholds,
+      paletteScale,
+      fallbackFov,
+      annotate: formData.get('annotate') === 'true',
+      overlayStyle,
+    },
+  };
+}
+
+// Model task that serves an analysis: RGB frames use the visual prompt
+export function hotspotTask(settings: HotspotAnalysisSettings): AITask {
+  return settings.imageType === 'visual' ? 'visual' : 'hotspot';
+}
+
+// Everything besides the image bytes that shapes a hotspot result
+export function hotspotCacheParams(settings: HotspotAnalysisSettings, ai: AIModelSelection): Record<string, unknown> {
+  return {
+    ...settings,
+    ...ai,
+    promptVersion: hotspotTask(settings) === 'visual' ? VISUAL_PROMPT_VERSION : HOTSPOT_PROMPT_VERSION,
+  };
+}
+
+// Degraded results (local fallback during a model outage, mosaics with failed
+// tiles) are not cached, so the next request retries the full analysis
+export function isCacheableHotspotResult({ metadata }: HotspotAnalysisResult): boolean {
+  return metadata.detectionEngine !== 'local-fallback' && !metadata.tiling?.failedTiles.length;
+}
+
+// Analyze one image. Stitched orthomosaics larger than a single frame are
+// analysed tile by tile; RGB frames (imageType 'visual') are inspected for
+// visible module defects. `audit` collects details for the caller's audit log.
+export async function analyzeHotspotImage(
+  buffer: Buffer,
+  options: HotspotAnalysisOptions,
+  audit: Record<string, unknown> = {}
+): Promise<HotspotAnalysisResult> {
+  // Validate image integrity
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer, { limitInputPixels: MAX_MOSAIC_PIXELS }).metadata();
+    
+    // Dimension validation
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Invalid image dimensions');
+    }
+    
+    if (metadata.width * metadata.height > MAX_MOSAIC_PIXELS) {
+      throw new Error(`Image exceeds maximum allowed size of ${MAX_MOSAIC_PIXELS / 1e6} megapixels`);
+    }
+    
+    audit.imageMetadata = {
+      width: metadata.width,
+      height: metadata.height,
+      format: metadata.format,
+      channels: metadata.channels
+    };
+  } catch (error) {
+    console.error(`[${options.requestId}] Image validation failed:`, error);
+    throw new InvalidImageError(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  const isMosaic = metadata.width > MAX_IMAGE_DIMENSION || metadata.height > MAX_IMAGE_DIMENSION;
+  if (options.imageType === 'visual') {
+    if (isMosaic) {
+      throw new InvalidImageError(`Visual inspection supports single frames up to ${MAX_IMAGE_DIMENSION}px; upload RGB orthomosaics in tiles`);
+    }
+    return analyzeVisualFrame(buffer, metadata, options, audit);
+  }
+  if (isMosaic) {
+    return analyzeMosaic(buffer, metadata.width, metadata.height, options, audit);
+  }
+  return analyzeFrame(buffer, metadata, options, audit);
+}
+
+// Number of tiles the image would be analysed in: 1 for single frames and for
+// anything unreadable, which the analysis itself rejects
+export async function plannedTileCount(buffer: Buffer): Promise<number> {
+  try {
+    const { width, height } = await sharp(buffer, { limitInputPixels: MAX_MOSAIC_PIXELS }).metadata();
+    if (!width || !height || (width <= MAX_IMAGE_DIMENSION && height <= MAX_IMAGE_DIMENSION)) return 1;
+    return planTiles(width, height, tileSize(), TILE_OVERLAP).length;
+  } catch {
+    return 1;
+  }
+}
+
+async function analyzeFrame(
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  options: HotspotAnalysisOptions,
+  audit: Record<string, unknown>
+) {
+  const startTime = Date.now();
+  const {
+    requestId,
+    imageType,
+    demoMode,
+    engine,
+    deltaTThresholds,
+    paletteScale,
+    fallbackFov,
+    annotate,
+    overlayStyle,
+  } = options;
+
+  // Process the image using sharp
+  const { width = 0, height = 0 } = metadata;
+
+  // Radiometric R-JPEGs carry the raw sensor matrix, so temperatures can be
+  // measured rather than estimated from the false-color rendering
+  let radiometric: RadiometricImage | null = null;
+  let imageTemperatures: TemperatureStats | null = null;
+  try {
+    radiometric = await readRadiometricImage(buffer);
+    if (radiometric) {
+      imageTemperatures = imageTemperatureStats(radiometric);
+      audit.radiometric = {
+        cameraModel: radiometric.cameraModel,
+        rawDimensions: `${radiometric.width}x${radiometric.height}`,
+        emissivity: radiometric.calibration.emissivity,
+        objectDistance: radiometric.calibration.objectDistance,
+      };
+    }
+  } catch (radiometricError) {
+    console.error(`[${requestId}] Radiometric decoding failed:`, radiometricError);
+    radiometric = null;
+  }
+
+  // Drone pose from EXIF/XMP, used to place each hotspot on the ground
+  const pose = extractDronePose(
+    metadata.exif,
+    metadata.xmp,
+    fallbackFov ?? radiometric?.fieldOfView
+  );
+  // Orthomosaic GeoTIFFs map pixels to coordinates directly
+  const geoTransform = pose ? null : readGeoTransform(buffer);
+  if (pose) {
+    audit.georeference = {
+      latitude: pose.latitude,
+      longitude: pose.longitude,
+      relativeAltitude: pose.relativeAltitude
+    };
+  } else if (geoTransform) {
+    audit.georeference = { model: 'geotiff', crs: geoTransform.crs };
+  }
+
+  // Convert to raw pixel data for analysis
+  const { data: pixelArray, info } = await sharp(buffer)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width: w, height: h, channels } = info;
+  let hotspots: Array<{
+    x: number;
+    y: number;
+    radius: number;
+    intensity: number;
+    area: number;
+    description: string;
+    temperature?: TemperatureStats | null;
+    source?: HotspotSource;
+    bbox?: DetectedHotspot['bbox'];
+    classification?: ThermalClassification;
+    location?: HotspotLocation | null;
+    geo?: GeoPosition | null;
+  }> = [];
+  let severity: 'critical' | 'high' | 'medium' | 'low' | 'none' = 'none';
+  let maxTemp: number | null = null;
+
+  // First, check if this looks like a thermal image
+  // Thermal images typically have:
+  // 1. Limited color palette (often grayscale or false color)
+  // 2. Smooth gradients
+  // 3. Specific color mappings (e.g., iron, rainbow, grayscale)
+
+  let colorVariance = 0;
+  let totalPixels = 0;
+  const colorHistogram = new Map<string, number>();
+
+  // Sample the image to check color characteristics
+  for (let y = 0; y < h; y += 20) {
+    for (let x = 0; x < w; x += 20) {
+      const idx = (y * w + x) * channels;
+      const r = pixelArray[idx];
+      const g = pixelArray[idx + 1];
+      const b = pixelArray[idx + 2];
+
+      // Create a color key
+      const colorKey = `${Math.floor(r/32)}-${Math.floor(g/32)}-${Math.floor(b/32)}`;
+      colorHistogram.set(colorKey, (colorHistogram.get(colorKey) || 0) + 1);
+      totalPixels++;
+
+      // Calculate color variance
+      const gray = (r + g + b) / 3;
+      colorVariance += Math.abs(r - gray) + Math.abs(g - gray) + Math.abs(b - gray);
+    }
+  }
+
+  // Check if image has thermal characteristics
+  const avgColorVariance = colorVariance / totalPixels;
+  const uniqueColors = colorHistogram.size;
+  
+  // Check for thermal-specific patterns
+  let thermalColorPattern = false;
+  
+  // Check if colors follow thermal gradients (iron, rainbow, grayscale patterns)
+  const redBias = colorVariance > 0 ? 
+    Array.from(colorHistogram.keys()).filter(key => {
+      const [r, g, b] = key.split('-').map(Number);
+      return r > g && r > b; // Red-dominant colors (common in iron palette)
+    }).length / colorHistogram.size : 0;
+  
+  // Check for blue/cyan bias (common in thermal cool zones)
+  const blueBias = colorVariance > 0 ?
+    Array.from(colorHistogram.keys()).filter(key => {
+      const [r, g, b] = key.split('-').map(Number);
+      return b > r && b > g; // Blue-dominant colors
+    }).length / colorHistogram.size : 0;
+  
+  // Thermal images have specific characteristics
+  const hasHighColorVariance = avgColorVariance > 50; // Significant color differences
+  const hasModerateColors = uniqueColors > 50 && uniqueColors < 300; // Not too few, not too many
+  const hasColorGradient = uniqueColors > 100 && avgColorVariance > 100; // Rainbow palette
+  const hasThermalBias = redBias > 0.3 || blueBias > 0.3; // Significant red OR blue zones
+  
+  // Check for thermal-like characteristics (more inclusive)
+  thermalColorPattern = (
+    (hasThermalBias && hasModerateColors) || // Iron/hot-cold palette
+    (hasColorGradient && hasHighColorVariance) || // Rainbow thermal palette  
+    (uniqueColors < 50 && avgColorVariance < 10) || // Grayscale thermal
+    (avgColorVariance > 150 && uniqueColors > 100) // High contrast thermal
+  );
+  
+  // If imageType is explicitly set to thermal WITHOUT being 'visual', trust it
+  // In demo mode, treat all images as thermal for testing
+  // Otherwise, use thermal-specific heuristics
+  const isThermalImage = demoMode || 
+    radiometric !== null || // Embedded raw sensor data is definitive
+    (imageType === 'thermal' && thermalColorPattern) || // Must match thermal patterns if explicitly set
+    (imageType !== 'visual' && thermalColorPattern); // Auto-detect only if patterns match
+  
+  audit.thermalDetection = {
+    isThermalImage,
+    radiometric: radiometric !== null,
+    thermalColorPattern,
+    uniqueColors,
+    avgColorVariance: Math.round(avgColorVariance * 100) / 100
+  };
+
+  // If not a thermal image, return no hotspots
+  if (!isThermalImage) {
+    return {
+      hotspots: [],
+      severity: 'none' as const,
+      confidence: 0.95,
+      metadata: {
+        totalHotspots: 0,
+        maxTemperature: null,
+        affectedArea: 0,
+        message: 'Image does not appear to be a thermal image'
+      }
+    };
+  }
+
+  // Deterministic detector on the decoded pixels, or on measured temperatures
+  // when the file is radiometric
+  let intensityField: IntensityField | null = null;
+  const getIntensityField = (): IntensityField => {
+    if (!intensityField) {
+      intensityField = radiometric
+        ? intensityFieldFromTemperatures(radiometric)
+        : intensityFieldFromPixels(pixelArray, w, h, channels);
+    }
+    return intensityField;
+  };
+  const runLocalDetection = (): LocalDetectionResult => detectHotspots(getIntensityField(), w, h);
+  const toHotspot = (d: DetectedHotspot) => ({
+    x: d.x,
+    y: d.y,
+    radius: d.radius,
+    intensity: d.intensity,
+    area: d.area,
+    description: d.description,
+    bbox: d.bbox
+  });
+  const localMetadata = (result: LocalDetectionResult) => ({
+    analysis: `Local detector found ${result.hotspots.length} thermal anomal${result.hotspots.length === 1 ? 'y' : 'ies'} using ${result.palette === 'radiometric' ? 'measured temperatures' : `the ${result.palette} palette`}.`,
+    recommendations: [] as string[],
+    aiProvider: null,
+    aiModel: null,
+    palette: result.palette,
+    confidence: result.confidence
+  });
+  let engineUsed: 'llm' | 'local' | 'local-fallback' | 'cross-check' = engine;
+
+  // Use OpenAI Vision API for thermal image analysis
+  let response: { 
+    metadata?: {
+      confidence?: number;
+      avgTemperature?: number;
+      maxTemperature?: number;
+      minTemperature?: number;
+      temperatureUnit?: string;
+      [key: string]: unknown;
+    } 
+  } = {};
+  
+  if (engine === 'local') {
+    const localResult = runLocalDetection();
+    hotspots = localResult.hotspots.map(toHotspot);
+    severity = localResult.severity;
+    response = { metadata: localMetadata(localResult) };
+  } else {
+    try {
+      // Convert buffer to base64 for OpenAI
+      const base64Image = buffer.toString('base64');
+      const mimeType = `image/${metadata.format}`;
+    
+      // Call the vision model with specialized thermal analysis prompt
+      const { value: visionResult, validation } = await completeJson(options.ai, {
+        task: 'hotspot',
+        messages: [
+          {
+            role: "system",
+            content: "You are an expert thermal imaging analyst specializing in solar panel defect detection. Analyze thermal images to identify hotspots, temperature anomalies, and potential failures."
+          },
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: `Analyze this thermal image of solar panels and identify all hotspots and defects. 
+              
+                Return a JSON response with the following structure:
+                {
+                  "hotspots": [
+                    {
+                      "x": percentage from left (0-100),
+                      "y": percentage from top (0-100),
+                      "radius": approximate size in pixels,
+                      "intensity": severity percentage (0-100),
+                      "area": affected area in pixels,
+                      "description": "brief description of the defect"
+                    }
+                  ],
+                  "severity": "critical" | "high" | "medium" | "low" | "none",
+                  "maxTemperature": estimated maximum temperature in Celsius,
+                  "analysis": "detailed technical analysis",
+                  "recommendations": ["action item 1", "action item 2", ...],
+                  "confidence": confidence score (0-1)
+                }
+              
+                Focus on:
+                - Hot spots indicating cell failures or bypass diode activation
+                - Temperature gradients suggesting electrical issues
+                - Uniform heating patterns indicating soiling or shading
+                - Module-level vs cell-level defects
+                - Severity classification based on temperature differential${imageTemperatures ? `
+              
+                Measured radiometric temperatures for this frame: min ${imageTemperatures.min}°C, max ${imageTemperatures.max}°C, mean ${imageTemperatures.mean}°C. Use these instead of estimating from the color palette.` : ''}`
+              },
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:${mimeType};base64,${base64Image}`,
+                  detail: "high"
+                }
+              }
+            ]
+          }
+        ],
+        temperature: 0.1,
+        maxTokens: 8192,
+      }, modelResponseSchema);
+
+      // The response passed schema validation, so nothing is defaulted here
+      hotspots = visionResult.hotspots.map(h => ({
+        x: Math.round(h.x),
+        y: Math.round(h.y),
+        radius: Math.round(h.radius),
+        intensity: Math.round(h.intensity),
+        area: h.area,
+        description: h.description
+      }));
+
+      // Use the model's severity assessment
+      severity = visionResult.severity;
+      maxTemp = visionResult.maxTemperature ?? null;
+      
+      // Store AI-powered metadata
+      response = {
+        metadata: {
+          analysis: visionResult.analysis || 'Thermal analysis completed',
+          recommendations: visionResult.recommendations,
+          aiProvider: options.ai.provider,
+          aiModel: options.ai.model,
+          promptVersion: HOTSPOT_PROMPT_VERSION,
+          validation,
+          confidence: visionResult.confidence
+        }
+      };
+
+      // Verify the model's findings against the local detector
+      if (engine === 'cross-check' && response.metadata) {
+        const localResult = runLocalDetection();
+        const checked = crossCheckHotspots(hotspots, localResult.hotspots.map(toHotspot), w, h);
+        hotspots = checked.hotspots;
+        response.metadata.crossCheck = checked.summary;
+      }
+
+    } catch (visionError) {
+      console.error('Vision model error:', visionError);
+      
+      // Fall back to the local detector so the service keeps producing
+      // results during an outage or without network access. An answer that
+      // failed validation is not used, and the result is flagged for review.
+      const localResult = runLocalDetection();
+      hotspots = localResult.hotspots.map(toHotspot);
+      severity = localResult.severity;
+      engineUsed = 'local-fallback';
+      response = {
+        metadata: visionError instanceof ModelResponseError
+          ? {
+              ...localMetadata(localResult),
+              message: 'Vision model response failed validation. Results are from the local detector and need review.',
+              error: 'invalid_model_response',
+              validation: needsReview(visionError)
+            }
+          : {
+              ...localMetadata(localResult),
+              message: 'Vision model unavailable. Results are from the local detector.',
+              error: 'vision_api_error'
+            }
+      };
+    }
+  }
+
+  // Replace model estimates with measured values when raw data is available
+  if (radiometric) {
+    const thermal = radiometric;
+    hotspots = hotspots.map(h => ({
+      ...h,
+      temperature: regionTemperatureStats(thermal, h, width, height)
+    }));
+    maxTemp = imageTemperatures?.max ?? null;
+  }
+
+  // IEC TS 62446-3 classification from ΔT to the surrounding module area.
+  // Needs a temperature scale: measured data, or the palette span supplied
+  // by the inspector for false-color images.
+  let deltaTSource: DeltaTSource | null = null;
+  let temperatureField: { field: ScalarField; scale: number; offset: number } | null = null;
+  if (radiometric) {
+    deltaTSource = 'radiometric';
+    temperatureField = {
+      field: { width: radiometric.width, height: radiometric.height, values: radiometric.temperatures },
+      scale: 1,
+      offset: 0
+    };
+  } else if (paletteScale) {
+    deltaTSource = 'palette-scale';
+    temperatureField = {
+      field: getIntensityField(),
+      scale: paletteScale.max - paletteScale.min,
+      offset: paletteScale.min
+    };
+  }
+
+  const measurements = hotspots.map(h => temperatureField
+    ? measureDeltaT(temperatureField.field, h, width, height, temperatureField.scale, temperatureField.offset)
+    : null
+  );
+
+  // Segment the frame into modules and cells so every hotspot maps to a
+  // physical module a technician can walk to
+  let moduleGrid: ModuleGrid | null = null;
+  try {
+    moduleGrid = segmentModuleGrid(pixelArray, w, h, channels);
+  } catch (gridError) {
+    console.error(`[${requestId}] Module grid segmentation failed:`, gridError);
+  }
+
+  const classifications = classifyHotspots(hotspots, measurements, width, height, {
+    thresholds: deltaTThresholds,
+    cellSize: moduleGrid?.cellSize
+  });
+  hotspots = hotspots.map((h, i) => {
+    const box = hotspotBox(h, width, height);
+    const x = Math.max(0, box.x);
+    const y = Math.max(0, box.y);
+    return {
+      ...h,
+      bbox: {
+        x,
+        y,
+        width: Math.min(width, box.x + box.width) - x,
+        height: Math.min(height, box.y + box.height) - y
+      },
+      classification: classifications[i],
+      location: moduleGrid ? locateHotspot(moduleGrid, h, width, height) : null,
+      geo: imagePositionGeo(h, width, height, pose, geoTransform)
+    };
+  });
+  // Measured ΔT classes set the image severity; pattern-only classes (no
+  // temperature scale) can only raise what the detector or model reported
+  const classified = severityFromClassifications(classifications);
+  const measured = classifications.some(c => c.deltaT !== null);
+  if (classified && (measured || SEVERITY_RANK[classified] > SEVERITY_RANK[severity])) {
+    severity = classified;
+  }
+
+
+  // Calculate metadata
+  const totalArea = hotspots.reduce((sum, h) => sum + (h.area || Math.PI * h.radius * h.radius), 0);
+  
+  // Prepare response with AI-enhanced data
+  const finalResponse = {
+    requestId,
+    severity,
+    hotspots: hotspots.slice(0, 50), // Increased limit for AI detection
+    confidence: isThermalImage ? 0.85 : 0,
+    metadata: {
+      totalHotspots: hotspots.length,
+      maxTemperature: maxTemp,
+      minTemperature: imageTemperatures?.min ?? null,
+      avgTemperature: imageTemperatures?.mean ?? null,
+      temperatureSource: radiometric ? 'radiometric' as const : 'estimated' as const,
+      detectionEngine: engineUsed,
+      classification: {
+        standard: 'IEC TS 62446-3',
+        deltaTSource,
+        thresholds: deltaTThresholds,
+        counts: countByClass(classifications)
+      },
+      moduleGrid: moduleGrid && {
+        rows: moduleGrid.rows,
+        columns: moduleGrid.columns,
+        cellsPerModule: moduleGrid.modules[0]?.cells,
+        cellSize: moduleGrid.cellSize,
+        confidence: moduleGrid.confidence
+      },
+      georeference: georeferenceMetadata(pose, geoTransform),
+      ...(radiometric && {
+        radiometric: {
+          cameraModel: radiometric.cameraModel,
+          rawDimensions: { width: radiometric.width, height: radiometric.height },
+          emissivity: radiometric.calibration.emissivity,
+          objectDistance: radiometric.calibration.objectDistance,
+          reflectedTemperature: radiometric.calibration.reflectedTemperature,
+          atmosphericTemperature: radiometric.calibration.atmosphericTemperature,
+          relativeHumidity: radiometric.calibration.relativeHumidity
+        }
+      }),
+      affectedArea: Math.round(totalArea / 100), // Convert to percentage
+      imageType: isThermalImage ? 'thermal' as const : 'visual' as const,
+      dimensions: { width, height },
+      processingTime: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString()
+    }
+  };
+  
+  // Merge AI metadata if available
+  if (response.metadata) {
+    finalResponse.metadata = { ...finalResponse.metadata, ...response.metadata };
+    if (response.metadata.confidence) {
+      // Normalize confidence to 0-1 range if AI returns percentage
+      let normalizedConfidence = response.metadata.confidence;
+      if (normalizedConfidence > 1) {
+        normalizedConfidence = normalizedConfidence / 100;
+      }
+      finalResponse.confidence = normalizedConfidence;
+    }
+  }
+
+  // Optional annotated PNG for pasting into reports and emails
+  let annotatedImage: string | undefined;
+  if (annotate) {
+    try {
+      const png = await renderHotspotOverlay(buffer, finalResponse.hotspots, {
+        severity,
+        style: overlayStyle,
+        temperatureRange: imageTemperatures
+      });
+      annotatedImage = `data:image/png;base64,${png.toString('base64')}`;
+    } catch (overlayError) {
+      console.error(`[${requestId}] Overlay rendering failed:`, overlayError);
+    }
+  }
+
+  return annotatedImage ? { ...finalResponse, annotatedImage } : finalResponse;
+}
+
+type FrameAnalysis = Awaited<ReturnType<typeof analyzeFrame>>;
+type ThermalFrameAnalysis = Extract<FrameAnalysis, { requestId: string }>;
+type FrameHotspot = ThermalFrameAnalysis['hotspots'][number];
+
+interface TileDetection {
+  tile: number;
+  bbox: Box;
+  hotspot: FrameHotspot;
+}
+
+function tileSize(): number {
+  const value = parseInt(process.env.HOTSPOT_TILE_SIZE || '', 10);
+  return value >= 1024 && value <= MAX_IMAGE_DIMENSION ? value : DEFAULT_TILE_SIZE;
+}
+
+function isThermalFrame(result: FrameAnalysis): result is ThermalFrameAnalysis {
+  return 'requestId' in result;
+}
+
+// Combine detections of one physical hotspot from overlapping tiles
+function mergeSeamHotspot(parts: TileDetection[], tiles: Tile[], width: number, height: number) {
+  const strongest = parts.reduce((a, b) => b.hotspot.intensity > a.hotspot.intensity ? b : a);
+  const bbox = unionBox(parts.map(p => p.bbox));
+  const classification = parts
+    .map(p => p.hotspot.classification)
+    .reduce<ThermalClassification | undefined>((worst, c) =>
+      c && (!worst || SEVERITY_RANK[c.severity ?? 'none'] > SEVERITY_RANK[worst.severity ?? 'none']) ? c : worst, undefined);
+  const temperatures = parts
+    .map(p => p.hotspot.temperature)
+    .filter((t): t is TemperatureStats => Boolean(t));
+
+  // Module IDs are only unique within a tile
+  const tile = tiles[strongest.tile];
+  const location = strongest.hotspot.location && {
+    ...strongest.hotspot.location,
+    moduleId: `t${tile.row}-${tile.column}:${strongest.hotspot.location.moduleId}`,
+    label: `tile ${tile.row}×${tile.column}, ${strongest.hotspot.location.label}`
+  };
+
+  return {
+    ...strongest.hotspot,
+    x: Math.round(((bbox.x + bbox.width / 2) / width) * 100000) / 1000,
+    y: Math.round(((bbox.y + bbox.height / 2) / height) * 100000) / 1000,
+    radius: Math.round(Math.max(bbox.width, bbox.height) / 2),
+    area: Math.max(...parts.map(p => p.hotspot.area)),
+    bbox,
+    temperature: temperatures.length > 0
+      ? {
+          min: Math.min(...temperatures.map(t => t.min)),
+          max: Math.max(...temperatures.map(t => t.max)),
+          mean: temperatures.reduce((worst, t) => t.max > worst.max ? t : worst).mean
+        }
+      : strongest.hotspot.temperature,
+    classification,
+    location,
+    tiles: parts.map(p => p.tile)
+  };
+}
+
+// Split an orthomosaic into overlapping tiles, analyse each as a frame and
+// merge the findings back into full-image coordinates
+async function analyzeMosaic(
+  buffer: Buffer,
+  width: number,
+  height: number,
+  options: HotspotAnalysisOptions,
+  audit: Record<string, unknown>
+) {
+  const startTime = Date.now();
+  const { requestId } = options;
+  const size = tileSize();
+  const tiles = planTiles(width, height, size, TILE_OVERLAP);
+  const image = sharp(buffer, { limitInputPixels: MAX_MOSAIC_PIXELS });
+  const geoTransform = readGeoTransform(buffer);
+
+  audit.tiling = { tileSize: size, overlap: TILE_OVERLAP, tiles: tiles.length };
+
+  const results: Array<{ tile: Tile; result: ThermalFrameAnalysis }> = [];
+  const detections: TileDetection[] = [];
+  const failedTiles: number[] = [];
+  let nonThermalTiles = 0;
+
+  for (const tile of tiles) {
+    try {
+      const tileBuffer = await image.clone()
+        .extract({ left: tile.x, top: tile.y, width: tile.width, height: tile.height })
+        .png()
+        .toBuffer();
+      const result = await analyzeFrame(
+        tileBuffer,
+        await sharp(tileBuffer).metadata(),
+        { ...options, annotate: false, requestId: `${requestId}:t${tile.index}` },
+        {}
+      );
+
+      if (!isThermalFrame(result)) {
+        nonThermalTiles++;
+        continue;
+      }
+      results.push({ tile, result });
+      result.hotspots.forEach(h => {
+        const box = h.bbox ?? hotspotBox(h, tile.width, tile.height);
+        detections.push({ tile: tile.index, bbox: toMosaicBox(box, tile), hotspot: h });
+      });
+    } catch (error) {
+      console.error(`[${requestId}] Tile ${tile.index} (row ${tile.row}, column ${tile.column}) failed:`, error);
+      failedTiles.push(tile.index);
+    }
+  }
+
+  if (results.length === 0 && failedTiles.length === tiles.length) {
+    throw new Error('Analysis failed for every tile of the mosaic');
+  }
+
+  if (results.length === 0) {
+    return {
+      hotspots: [],
+      severity: 'none' as const,
+      confidence: 0.95,
+      metadata: {
+        totalHotspots: 0,
+        maxTemperature: null,
+        affectedArea: 0,
+        message: 'Image does not appear to be a thermal image'
+      }
+    };
+  }
+
+  const groups = groupSeamDetections(detections);
+  const hotspots = groups
+    .map(group => mergeSeamHotspot(group.map(i => detections[i]), tiles, width, height))
+    .map(h => ({ ...h, geo: geoTransform ? imagePositionGeo(h, width, height, null, geoTransform) : h.geo }))
+    .sort((a, b) => b.intensity - a.intensity);
+
+  const frames = results.map(r => r.result);
+  // Model output (analysis, recommendations, aiModel) is merged in untyped
+  const modelMetadata = (r: ThermalFrameAnalysis) => r.metadata as Record<string, unknown> & Partial<HotspotAnalysisResult['metadata']>;
+  const severity = frames.reduce<ThermalFrameAnalysis['severity']>((worst, r) =>
+    SEVERITY_RANK[r.severity] > SEVERITY_RANK[worst] ? r.severity : worst, 'none');
+  const temperatureValues = (key: 'maxTemperature' | 'minTemperature' | 'avgTemperature') => frames
+    .map(r => r.metadata[key])
+    .filter((v): v is number => typeof v === 'number');
+  const maxTemperatures = temperatureValues('maxTemperature');
+  const minTemperatures = temperatureValues('minTemperature');
+  const avgTemperatures = temperatureValues('avgTemperature');
+  const recommendations = Array.from(new Set(frames.flatMap(r => {
+    const tileRecommendations = modelMetadata(r).recommendations;
+    return Array.isArray(tileRecommendations) ? tileRecommendations as string[] : [];
+  }))).slice(0, 10);
+  const totalArea = hotspots.reduce((sum, h) => sum + (h.area || Math.PI * h.radius * h.radius), 0);
+  // Tiles whose model answers failed validation flag the whole mosaic
+  const validations = results
+    .map(r => ({ tile: r.tile.index, validation: modelMetadata(r.result).validation as ResponseValidation | undefined }))
+    .filter((v): v is { tile: number; validation: ResponseValidation } => Boolean(v.validation));
+  const reviewTiles = validations.filter(v => v.validation.status === 'needs_review');
+
+  const finalResponse = {
+    requestId,
+    severity,
+    hotspots: hotspots.slice(0, MAX_MOSAIC_HOTSPOTS),
+    confidence: Math.round((frames.reduce((sum, r) => sum + r.confidence, 0) / frames.length) * 100) / 100,
+    metadata: {
+      totalHotspots: hotspots.length,
+      maxTemperature: maxTemperatures.length > 0 ? Math.max(...maxTemperatures) : null,
+      minTemperature: minTemperatures.length > 0 ? Math.min(...minTemperatures) : null,
+      avgTemperature: avgTemperatures.length > 0
+        ? Math.round((avgTemperatures.reduce((a, b) => a + b, 0) / avgTemperatures.length) * 10) / 10
+        : null,
+      temperatureSource: frames[0].metadata.temperatureSource,
+      detectionEngine: frames.some(r => r.metadata.detectionEngine === 'local-fallback')
+        ? 'local-fallback' as const
+        : options.engine,
+      classification: {
+        ...frames[0].metadata.classification,
+        counts: countByClass(hotspots
+          .map(h => h.classification)
+          .filter((c): c is ThermalClassification => Boolean(c)))
+      },
+      moduleGrid: null,
+      georeference: georeferenceMetadata(null, geoTransform),
+      tiling: {
+        tileSize: size,
+        overlap: TILE_OVERLAP,
+        tiles: tiles.length,
+        nonThermalTiles,
+        failedTiles,
+        seamMerges: detections.length - groups.length
+      },
+      analysis: `Analysed ${tiles.length} tiles of a ${width}x${height} mosaic and found ${hotspots.length} thermal anomal${hotspots.length === 1 ? 'y' : 'ies'}.`,
+      recommendations,
+      aiProvider: frames.map(r => modelMetadata(r).aiProvider).find(Boolean) ?? null,
+      aiModel: frames.map(r => modelMetadata(r).aiModel).find(Boolean) ?? null,
+      promptVersion: frames.map(r => modelMetadata(r).promptVersion).find(Boolean) ?? null,
+      validation: validations.length > 0 ? {
+        status: reviewTiles.length > 0 ? 'needs_review' as const : 'ok' as const,
+        repairs: validations.reduce((sum, v) => sum + v.validation.repairs, 0),
+        errors: reviewTiles.flatMap(v => v.validation.errors.map(e => `tile ${v.tile}: ${e}`)).slice(0, 20)
+      } : undefined,
+      affectedArea: Math.round(totalArea / 100), // Convert to percentage
+      imageType: 'thermal' as const,
+      dimensions: { width, height },
+      processingTime: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString()
+    }
+  };
+
+  // The overlay is drawn on a downscaled copy so it stays a usable size
+  let annotatedImage: string | undefined;
+  if (options.annotate) {
+    try {
+      const preview = await image.clone()
+        .resize({ width: OVERLAY_PREVIEW_DIMENSION, height: OVERLAY_PREVIEW_DIMENSION, fit: 'inside' })
+        .png()
+        .toBuffer();
+      const scale = Math.min(OVERLAY_PREVIEW_DIMENSION / width, OVERLAY_PREVIEW_DIMENSION / height);
+      const png = await renderHotspotOverlay(preview, finalResponse.hotspots.map(h => ({
+        ...h,
+        radius: h.radius * scale,
+        bbox: { x: h.bbox.x * scale, y: h.bbox.y * scale, width: h.bbox.width * scale, height: h.bbox.height * scale }
+      })), {
+        severity,
+        style: options.overlayStyle,
+        temperatureRange: finalResponse.metadata.maxTemperature !== null && finalResponse.metadata.minTemperature !== null
+          ? { min: finalResponse.metadata.minTemperature, max: finalResponse.metadata.maxTemperature }
+          : null
+      });
+      annotatedImage = `data:image/png;base64,${png.toString('base64')}`;
+    } catch (overlayError) {
+      console.error(`[${requestId}] Overlay rendering failed:`, overlayError);
+    }
+  }
+
+  return annotatedImage ? { ...finalResponse, annotatedImage } : finalResponse;
+}
@@ -0,0 +1,222 @@
+import sharp from 'sharp';
+import {
+  analyzeHotspotImage,
+  HotspotAnalysisOptions,
+  InvalidImageError,
+  MAX_IMAGE_DIMENSION,
+} from '@/lib/analysis/hotspot';
+import { analyzeVisualFrame } from '@/lib/analysis/visual';
+import { readHorizontalFov } from '@/lib/thermal/georeference';
+import { registerThermalToVisual, thermalToVisual, projectBox, Registration } from '@/lib/thermal/registration';
+import { decodeRgb, inspectSurface, HotspotCause, SurfaceEvidence } from '@/lib/thermal/surface';
+import { renderHotspotOverlay, OverlaySeverity } from '@/lib/thermal/overlay';
+import { countByDefectType, VisualDefect, VisualDefectType } from '@/lib/visual/taxonomy';
+import type { HotspotAnalysisResult } from '@/lib/contracts';
+
+// Thermal + RGB pairs from dual-sensor payloads. The thermal frame is
+// analysed as usual and registered onto the RGB frame; the RGB frame is
+// inspected for typed visual defects with the same engine. Every hotspot is
+// projected into RGB coordinates and matched against those defects, and
+// checked for a visible surface cause where none matches.
+
+export interface VisualProjection {
+  x: number; // percent of the RGB frame
+  y: number;
+  radius: number; // RGB pixels
+  bbox: { x: number; y: number; width: number; height: number };
+  // Visual defect found over the hotspot, e.g. a bird dropping or a burn mark
+  defect: VisualDefect | null;
+  surface: SurfaceEvidence | null; // null when the registration is unreliable
+  cause: HotspotCause | null; // null when the hotspot was not checked
+}
+
+type Box = VisualProjection['bbox'];
+
+// Defects on the glass that heat the cells they cover; every other visible
+// defect (burn marks, cracks, delamination) is damage to the module itself
+const OBSTRUCTION_TYPES: VisualDefectType[] = ['soiling', 'bird-dropping', 'vegetation-shading'];
+// Share of the smaller of the two boxes the overlap must cover
+const MIN_DEFECT_OVERLAP = 0.3;
+
+function overlapShare(a: Box, b: Box): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.max(1, Math.min(a.width * a.height, b.width * b.height));
+}
+
+// The best-overlapping visual defect, the most confident on a tie
+function matchDefect(box: Box, findings: Array<{ bbox: Box; defect: VisualDefect }>): VisualDefect | null {
+  let best: { share: number; defect: VisualDefect } | null = null;
+  for (const finding of findings) {
+    const share = overlapShare(box, finding.bbox);
+    if (share < MIN_DEFECT_OVERLAP) continue;
+    if (!best || share > best.share || (share === best.share && finding.defect.confidence > best.defect.confidence)) {
+      best = { share, defect: finding.defect };
+    }
+  }
+  return best?.defect ?? null;
+}
+
+function labelList(defects: VisualDefect[]): string {
+  return Array.from(new Set(defects.map(d => d.label.toLowerCase()))).join(', ');
+}
+
+// Thermal cores are always the lower-resolution sensor on dual payloads,
+// which catches pairs uploaded the wrong way round
+async function orderPair(first: Buffer, second: Buffer) {
+  let firstMeta: sharp.Metadata;
+  let secondMeta: sharp.Metadata;
+  try {
+    [firstMeta, secondMeta] = await Promise.all([sharp(first).metadata(), sharp(second).metadata()]);
+  } catch (error) {
+    throw new InvalidImageError(error instanceof Error ? error.message : 'Unreadable image pair');
+  }
+
+  for (const meta of [firstMeta, secondMeta]) {
+    if (!meta.width || !meta.height) throw new InvalidImageError('Invalid image dimensions');
+    if (meta.width > MAX_IMAGE_DIMENSION || meta.height > MAX_IMAGE_DIMENSION) {
+      throw new InvalidImageError('Paired analysis supports single frames; upload mosaics on their own');
+    }
+  }
+
+  const swapped = (firstMeta.width as number) * (firstMeta.height as number) >
+    (secondMeta.width as number) * (secondMeta.height as number);
+  return swapped
+    ? { thermal: second, visual: first, thermalMeta: secondMeta, visualMeta: firstMeta, swapped }
+    : { thermal: first, visual: second, thermalMeta: firstMeta, visualMeta: secondMeta, swapped };
+}
+
+export async function analyzeThermalVisualPair(
+  first: Buffer,
+  second: Buffer,
+  options: HotspotAnalysisOptions,
+  audit: Record<string, unknown> = {}
+): Promise<HotspotAnalysisResult> {
+  const { requestId } = options;
+  const { thermal, visual, thermalMeta, visualMeta, swapped } = await orderPair(first, second);
+  if (swapped) {
+    console.log(`[${requestId}] Paired upload: higher-resolution frame treated as RGB`);
+  }
+
+  const result = await analyzeHotspotImage(thermal, { ...options, imageType: 'thermal' }, audit);
+  // Not a thermal frame after all; nothing to project
+  if (!('requestId' in result)) return result;
+
+  const thermalWidth = thermalMeta.width as number;
+  const thermalHeight = thermalMeta.height as number;
+  const visualWidth = visualMeta.width as number;
+  const visualHeight = visualMeta.height as number;
+  const thermalFov = readHorizontalFov(thermalMeta.exif, thermalMeta.xmp) ?? options.fallbackFov;
+  const visualFov = readHorizontalFov(visualMeta.exif, visualMeta.xmp);
+
+  let registration: Registration;
+  try {
+    registration = await registerThermalToVisual(thermal, visual, { thermalFov, visualFov });
+  } catch (error) {
+    console.error(`[${requestId}] Thermal/RGB registration failed:`, error);
+    throw new InvalidImageError('The RGB frame could not be read');
+  }
+  audit.registration = registration;
+
+  // Typed defects of the RGB frame, only worth finding when hotspots can be
+  // placed on it
+  let visualFindings: Array<{ bbox: Box; defect: VisualDefect }> = [];
+  if (registration.reliable && result.hotspots.length > 0) {
+    const visualAudit: Record<string, unknown> = {};
+    const inspection = await analyzeVisualFrame(visual, visualMeta, { ...options, imageType: 'visual', annotate: false }, visualAudit);
+    visualFindings = inspection.hotspots;
+    audit.visualInspection = { engine: inspection.metadata.detectionEngine, findings: visualFindings.length, ...visualAudit };
+  }
+
+  const rgb = registration.reliable ? await decodeRgb(visual) : null;
+  const hotspots = result.hotspots.map(hotspot => {
+    const centre = thermalToVisual(
+      registration,
+      (hotspot.x / 100) * thermalWidth,
+      (hotspot.y / 100) * thermalHeight
+    );
+    const bbox = projectBox(registration, hotspot.bbox ?? {
+      x: (hotspot.x / 100) * thermalWidth - hotspot.radius,
+      y: (hotspot.y / 100) * thermalHeight - hotspot.radius,
+      width: hotspot.radius * 2,
+      height: hotspot.radius * 2,
+    });
+    const defect = registration.reliable ? matchDefect(bbox, visualFindings) : null;
+    const surface = rgb ? inspectSurface(rgb, bbox) : null;
+    const visualProjection: VisualProjection = {
+      x: Math.round((centre.x / visualWidth) * 1000) / 10,
+      y: Math.round((centre.y / visualHeight) * 1000) / 10,
+      radius: Math.round(hotspot.radius * registration.scale),
+      bbox,
+      defect,
+      surface,
+      cause: defect
+        ? OBSTRUCTION_TYPES.includes(defect.type) ? 'surface-obstruction' : 'cell-failure'
+        : surface?.cause ?? null,
+    };
+    return { ...hotspot, visual: visualProjection };
+  });
+
+  const checked = hotspots.filter(h => h.visual.cause);
+  const obstructions = checked.filter(h => h.visual.cause === 'surface-obstruction');
+  const typedObstructions = obstructions.flatMap(h => h.visual.defect ? [h.visual.defect] : []);
+  const damage = checked.flatMap(h => h.visual.defect && h.visual.cause === 'cell-failure' ? [h.visual.defect] : []);
+  const crossReference = {
+    surfaceObstruction: obstructions.length,
+    cellFailure: checked.length - obstructions.length,
+    unchecked: hotspots.length - checked.length,
+    // Hotspots matched to each visual defect type
+    defects: countByDefectType(checked.flatMap(h => h.visual.defect ? [h.visual.defect] : [])),
+    summary: !registration.reliable
+      ? 'The RGB frame could not be aligned reliably; hotspots were not cross-checked against it.'
+      : hotspots.length === 0
+        ? 'No hotspots to cross-check.'
+        : [
+            obstructions.length > 0
+              ? `${obstructions.length} of ${hotspots.length} hotspot(s) sit under visible ${typedObstructions.length === obstructions.length ? labelList(typedObstructions) : 'soiling, droppings or debris'}. Clean the modules and re-inspect before replacing them.`
+              : 'No visible surface cause in the RGB frame; the hotspots point to cell or module failures.',
+            ...(damage.length > 0 ? [`${damage.length} hotspot(s) line up with visible ${labelList(damage)}.`] : []),
+          ].join(' '),
+  };
+
+  // Same markers drawn on the RGB frame
+  let annotatedVisualImage: string | undefined;
+  if (options.annotate) {
+    try {
+      const { minTemperature, maxTemperature } = result.metadata;
+      const png = await renderHotspotOverlay(visual, hotspots.map(h => ({
+        ...h,
+        x: h.visual.x,
+        y: h.visual.y,
+        radius: h.visual.radius,
+        bbox: h.visual.bbox,
+      })), {
+        severity: result.severity as OverlaySeverity,
+        style: options.overlayStyle,
+        temperatureRange: typeof minTemperature === 'number' && typeof maxTemperature === 'number'
+          ? { min: minTemperature, max: maxTemperature }
+          : null,
+      });
+      annotatedVisualImage = `data:image/png;base64,${png.toString('base64')}`;
+    } catch (overlayError) {
+      console.error(`[${requestId}] RGB overlay rendering failed:`, overlayError);
+    }
+  }
+
+  const pairedResult = {
+    ...result,
+    hotspots,
+    metadata: {
+      ...result.metadata,
+      pairing: {
+        visualDimensions: { width: visualWidth, height: visualHeight },
+        swapped,
+        fieldOfView: { thermal: thermalFov ?? null, visual: visualFov },
+        registration,
+        crossReference,
+      },
+    },
+  };
+  return annotatedVisualImage ? { ...pairedResult, annotatedVisualImage } : pairedResult;
+}
@@ -0,0 +1,292 @@
+import {
+  applySeverityRules,
+  COMPONENT_REGISTRY,
+  ComponentSeverity,
+  InspectionComponentType,
+} from '@/lib/components';
+import { loadFaultLibrary, lookupFaultCode, FaultCodeLibrary, FaultCodeMatch } from '@/lib/analysis/faults';
+import { AIModelSelection, AIProviderName } from '@/lib/ai/provider';
+import { completeJson, needsReview, ModelResponseError, ResponseValidation } from '@/lib/ai/structured';
+import { array, boolean, nullable, number, object, oneOf, optional, string, Infer } from '@/lib/ai/schema';
+
+// Component image analysis (everything but solar modules) shared by the
+// vision route and batch jobs. Checklists and taxonomies come from the
+// component registry.
+
+export type VisionComponentType = InspectionComponentType;
+export type VisionSeverity = ComponentSeverity;
+
+// Part of the result cache key; bump the prompt version when a prompt changes
+export const VISION_PROMPT_VERSION = '5';
+
+export interface VisionFinding {
+  id: string; // F1, F2, ... in order of severity
+  component: string; // part of the unit, e.g. "terminal 3", "cooling fan"
+  category: string; // category id from the component registry
+  severity: VisionSeverity;
+  // Percent of the image, null when the finding concerns the whole unit
+  region: { x: number; y: number; width: number; height: number } | null;
+  action: string;
+  safety: boolean; // risk to people (fire, shock, chemical exposure)
+  description: string;
+}
+
+// Front-panel display and status LEDs, read from inverter photos
+export interface InverterDisplay {
+  manufacturer: string | null;
+  model: string | null;
+  text: string; // everything legible on the display
+  codes: Array<{
+    code: string;
+    // Library entry for the code, null when the library doesn't know it
+    decoded: FaultCodeMatch | null;
+  }>;
+  leds: Array<{ label: string; color: string; state: 'on' | 'off' | 'blinking' }>;
+}
+
+export interface VisionAnalysis {
+  type: VisionComponentType;
+  findings: VisionFinding[];
+  severity: VisionSeverity | 'none';
+  defectsFound: boolean;
+  safetyConcern: boolean;
+  // Model prose, for display only; clients read the findings
+  narrative: string;
+  confidence: number;
+  // needs_review when the model's answer failed validation; the result then
+  // has no findings and must be checked by a person
+  validation: ResponseValidation;
+  display?: InverterDisplay;
+  // Provider, model and prompt that produced the result
+  provider: AIProviderName;
+  model: string;
+  promptVersion: string;
+  timestamp: string;
+}
+
+const SEVERITY_RANK: Record<VisionSeverity, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+const LED_STATES = ['on', 'off', 'blinking'] as const;
+
+export function visionCacheParams(type: string, ai: AIModelSelection): Record<string, unknown> {
+  return { type, ...ai, promptVersion: VISION_PROMPT_VERSION };
+}
+
+// Results flagged for review are not cached, so the next request asks again
+export function isCacheableVisionResult(result: VisionAnalysis): boolean {
+  return result.validation.status === 'ok';
+}
+
+const percent = () => number({ min: 0, max: 100 });
+
+function responseSchema(type: VisionComponentType) {
+  return object({
+    findings: array(object({
+      component: string({ minLength: 1 }),
+      category: oneOf(COMPONENT_REGISTRY[type].categories.map(c => c.id)),
+      severity: oneOf(['critical', 'high', 'medium', 'low'] as const),
+      region: nullable(object({ x: percent(), y: percent(), width: percent(), height: percent() })),
+      action: string({ minLength: 1 }),
+      safety: boolean(),
+      description: string({ minLength: 1 }),
+    })),
+    narrative: string(),
+    confidence: number({ min: 0, max: 1 }),
+    display: optional(object({
+      manufacturer: nullable(string()),
+      model: nullable(string()),
+      text: string(),
+      codes: array(string({ minLength: 1 })),
+      leds: array(object({
+        label: string(),
+        color: string(),
+        state: oneOf(LED_STATES),
+      })),
+    })),
+  });
+}
+
+type VisionResponse = Infer<ReturnType<typeof responseSchema>>;
+
+function toRegion(region: VisionResponse['findings'][number]['region']): VisionFinding['region'] {
+  if (!region) return null;
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const width = round(Math.min(100 - region.x, region.width));
+  const height = round(Math.min(100 - region.y, region.height));
+  return width > 0 && height > 0 ? { x: round(region.x), y: round(region.y), width, height } : null;
+}
+
+function toDisplay(display: VisionResponse['display']): InverterDisplay | undefined {
+  if (!display) return undefined;
+  return {
+    manufacturer: display.manufacturer || null,
+    model: display.model || null,
+    text: display.text,
+    codes: Array.from(new Set(display.codes)).map(code => ({ code, decoded: null })),
+    leds: display.leds.map(led => ({ label: led.label || 'LED', color: led.color.toLowerCase() || 'unknown', state: led.state })),
+  };
+}
+
+// Apply the registry's severity rules to a validated model response
+export function parseVisionResponse(response: VisionResponse, type: VisionComponentType) {
+  const findings = response.findings.map(finding => ({
+    component: finding.component,
+    ...applySeverityRules(type, finding.category, finding.severity, finding.safety),
+    region: toRegion(finding.region),
+    action: finding.action,
+    description: finding.description,
+  }));
+
+  return {
+    findings: numberFindings(findings),
+    narrative: response.narrative,
+    confidence: Math.round(response.confidence * 100) / 100,
+    display: type === 'inverter' ? toDisplay(response.display) : undefined,
+  };
+}
+
+// Order by severity, safety first among equals, and assign F1, F2, ...
+function numberFindings(findings: Omit<VisionFinding, 'id'>[]): VisionFinding[] {
+  return [...findings]
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || Number(b.safety) - Number(a.safety))
+    .map((finding, index) => ({ ...finding, id: `F${index + 1}` }));
+}
+
+function withFindings(analysis: VisionAnalysis, findings: Omit<VisionFinding, 'id'>[]): VisionAnalysis {
+  const numbered = numberFindings(findings);
+  return {
+    ...analysis,
+    findings: numbered,
+    severity: numbered.length > 0 ? numbered[0].severity : 'none',
+    defectsFound: numbered.length > 0,
+    safetyConcern: numbered.some(f => f.safety),
+  };
+}
+
+// Decode the fault codes read from an inverter display against the library
+// and report each as a finding. Runs on every response rather than inside
+// the cached analysis, so library edits apply to cached results too.
+export function applyFaultCodeLibrary(analysis: VisionAnalysis, library: FaultCodeLibrary): VisionAnalysis {
+  if (!analysis.display || analysis.display.codes.length === 0) return analysis;
+  const { manufacturer, model } = analysis.display;
+
+  const codes = analysis.display.codes.map(({ code }) => ({
+    code,
+    decoded: lookupFaultCode(library, manufacturer, model, code),
+  }));
+  const codeFindings = codes.map(({ code, decoded }) => ({
+    component: `Display code ${code}`,
+    ...applySeverityRules(analysis.type, 'indicator-fault', decoded?.severity ?? 'medium', decoded?.safety === true),
+    region: null,
+    action: decoded?.remedy ?? 'Look the code up in the manufacturer manual and add it to the fault-code library',
+    description: decoded
+      ? `${decoded.message}: ${decoded.meaning}`
+      : `Fault code ${code} is not in the fault-code library${manufacturer ? ` for ${manufacturer}` : ''}`,
+  }));
+  return withFindings({ ...analysis, display: { ...analysis.display, codes } }, [...analysis.findings, ...codeFindings]);
+}
+
+export async function decodeDisplayedFaultCodes(analysis: VisionAnalysis, organizationId: string): Promise<VisionAnalysis> {
+  if (!analysis.display || analysis.display.codes.length === 0) return analysis;
+  return applyFaultCodeLibrary(analysis, await loadFaultLibrary(organizationId));
+}
+
+export async function analyzeComponentImage(
+  buffer: Buffer,
+  type: VisionComponentType,
+  ai: AIModelSelection
+): Promise<VisionAnalysis> {
+  const base64Image = buffer.toString('base64');
+  const definition = COMPONENT_REGISTRY[type];
+  const checklist = definition.checklist.map((item, index) => `${index + 1}. ${item}`).join('\n      ');
+  // Inverters report faults on their front panel; codes are decoded against
+  // the fault-code library afterwards
+  const displaySchema = type === 'inverter' ? `
+        "display": {
+          "manufacturer": "brand shown on the unit or display, or null",
+          "model": "model designation, or null",
+          "text": "all legible display text, verbatim",
+          "codes": ["fault, event or error codes exactly as displayed"],
+          "leds": [{ "label": "printed label or position", "color": "green" | "red" | "yellow" | "orange" | "blue" | "white", "state": "on" | "off" | "blinking" }]
+        } or null if no display or LEDs are visible,` : '';
+
+  const analysis = {
+    type,
+    findings: [],
+    severity: 'none' as const,
+    defectsFound: false,
+    safetyConcern: false,
+    provider: ai.provider,
+    model: ai.model,
+    promptVersion: VISION_PROMPT_VERSION,
+  };
+
+  const result = await completeJson(ai, {
+    task: 'vision',
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Analyze this ${definition.label.toLowerCase()} image for defects. Look for:
+      ${checklist}
+
+      Return a JSON response with the following structure:
+      {
+        "findings": [
+          {
+            "component": "the part of the unit affected",
+            "category": one of ${definition.categories.map(c => `"${c.id}"`).join(' | ')},
+            "severity": "critical" | "high" | "medium" | "low",
+            "region": { "x": left edge, "y": top edge, "width": box width, "height": box height } as percentages of the image (0-100), or null if the finding concerns the whole unit,
+            "action": "recommended maintenance action",
+            "safety": true if the defect endangers people (fire, electric shock, chemical exposure), otherwise false,
+            "description": "what is visible"
+          }
+        ],
+        "narrative": "detailed technical analysis, including operational impact",${displaySchema}
+        "confidence": confidence score (0-1)
+      }
+
+      Report each defect as a separate finding. Return an empty "findings" array when the unit looks healthy.${type === 'inverter' ? ' Put displayed fault codes in "display" only, not in "findings".' : ''}`,
+          },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:image/jpeg;base64,${base64Image}`,
+              detail: "high"
+            },
+          },
+        ],
+      },
+    ],
+    temperature: 0.1,
+    maxTokens: 10000,
+  }, responseSchema(type)).catch(error => {
+    if (error instanceof ModelResponseError) return error;
+    throw error;
+  });
+
+  if (result instanceof ModelResponseError) {
+    console.error(`Vision model response for ${type} failed validation:`, result.errors);
+    return {
+      ...analysis,
+      narrative: 'The model response failed validation. Review the image manually.',
+      confidence: 0,
+      validation: needsReview(result),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  const parsed = parseVisionResponse(result.value, type);
+
+  return withFindings({
+    ...analysis,
+    narrative: parsed.narrative,
+    confidence: parsed.confidence,
+    validation: result.validation,
+    ...(parsed.display && { display: parsed.display }),
+    timestamp: new Date().toISOString(),
+  }, parsed.findings);
+}
@@ -0,0 +1,299 @@
+import sharp from 'sharp';
+import type { HotspotAnalysisOptions } from '@/lib/analysis/hotspot';
+import { AIModelSelection } from '@/lib/ai/provider';
+import { completeJson, needsReview, ModelResponseError } from '@/lib/ai/structured';
+import { array, number, object, oneOf, optional, refine, string, Infer } from '@/lib/ai/schema';
+import { crossCheckHotspots, HotspotSource } from '@/lib/thermal/detector';
+import { extractDronePose, imagePositionGeo, georeferenceMetadata } from '@/lib/thermal/georeference';
+import { renderHotspotOverlay } from '@/lib/thermal/overlay';
+import { detectVisualDefects, LOCAL_VISUAL_DEFECT_TYPES, LocalVisualFinding } from '@/lib/visual/detector';
+import {
+  countByDefectType,
+  overallVisualSeverity,
+  parseVisualDefectType,
+  visualDefect,
+  VisualDefectType,
+  VISUAL_DEFECTS,
+  VISUAL_DEFECT_TYPES,
+} from '@/lib/visual/taxonomy';
+
+// RGB inspection of PV modules. Findings come back in the hotspot result
+// shape the dashboard already renders, each tagged with a typed defect.
+
+// Part of the result cache key; bump the prompt version when the prompt or
+// response handling changes
+export const VISUAL_PROMPT_VERSION = '2';
+
+type VisualFinding = LocalVisualFinding & { source?: HotspotSource };
+
+const modelResponseSchema = object({
+  defects: array(object({
+    // Taxonomy ids or their aliases
+    type: refine(string(), value => parseVisualDefectType(value) !== null, 'expected a defect type from the taxonomy'),
+    bbox: object({
+      x: number({ min: 0, max: 100 }),
+      y: number({ min: 0, max: 100 }),
+      width: number({ min: 0, max: 100 }),
+      height: number({ min: 0, max: 100 }),
+    }),
+    confidence: number({ min: 0, max: 1 }),
+    severity: oneOf(['critical', 'high', 'medium', 'low'] as const),
+    description: optional(string()),
+  })),
+  analysis: string(),
+  recommendations: array(string()),
+  confidence: number({ min: 0, max: 1 }),
+});
+
+type ModelDefect = Infer<typeof modelResponseSchema>['defects'][number];
+
+// Model boxes are percentages of the frame; findings use source pixels
+function fromModelDefect(defect: ModelDefect, width: number, height: number): VisualFinding {
+  const type = parseVisualDefectType(defect.type) as VisualDefectType;
+  const left = defect.bbox.x;
+  const top = defect.bbox.y;
+  const boxWidth = Math.max(0.5, Math.min(100 - left, defect.bbox.width));
+  const boxHeight = Math.max(0.5, Math.min(100 - top, defect.bbox.height));
+  const bbox = {
+    x: Math.round((left / 100) * width),
+    y: Math.round((top / 100) * height),
+    width: Math.max(1, Math.round((boxWidth / 100) * width)),
+    height: Math.max(1, Math.round((boxHeight / 100) * height)),
+  };
+
+  return {
+    x: Math.round((left + boxWidth / 2) * 10) / 10,
+    y: Math.round((top + boxHeight / 2) * 10) / 10,
+    radius: Math.round(Math.max(bbox.width, bbox.height) / 2),
+    area: bbox.width * bbox.height,
+    bbox,
+    description: defect.description || `${VISUAL_DEFECTS[type].label} detected`,
+    defect: visualDefect(type, defect.confidence, defect.severity),
+  };
+}
+
+async function detectWithModel(ai: AIModelSelection, buffer: Buffer, format: string, width: number, height: number) {
+  const taxonomy = VISUAL_DEFECT_TYPES
+    .map(type => `- "${type}": ${VISUAL_DEFECTS[type].description}`)
+    .join('\n');
+
+  const { value: visionResult, validation } = await completeJson(ai, {
+    task: 'visual',
+    messages: [
+      {
+        role: "system",
+        content: "You are an expert PV inspector reviewing drone and handheld RGB photos of solar modules. Report only defects you can see, each with a tight bounding box."
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Inspect this RGB image of solar panels and report every visible module defect.
+
+              Use only these defect types:
+              ${taxonomy}
+
+              Return a JSON response with the following structure:
+              {
+                "defects": [
+                  {
+                    "type": one of the defect types above,
+                    "bbox": { "x": left edge, "y": top edge, "width": box width, "height": box height } as percentages of the image (0-100),
+                    "confidence": confidence score (0-1),
+                    "severity": "critical" | "high" | "medium" | "low",
+                    "description": "brief description of what is visible"
+                  }
+                ],
+                "analysis": "detailed technical analysis",
+                "recommendations": ["action item 1", "action item 2", ...],
+                "confidence": overall confidence score (0-1)
+              }
+
+              Report each defect separately, even when several share a module. Return an empty "defects" array for clean modules.`
+          },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:image/${format};base64,${buffer.toString('base64')}`,
+              detail: "high"
+            }
+          }
+        ]
+      }
+    ],
+    temperature: 0.1,
+    maxTokens: 8192,
+  }, modelResponseSchema);
+
+  return {
+    findings: visionResult.defects.map(defect => fromModelDefect(defect, width, height)),
+    analysis: visionResult.analysis || 'Visual inspection completed',
+    recommendations: visionResult.recommendations,
+    confidence: visionResult.confidence,
+    validation,
+  };
+}
+
+// Match model and local findings of the same defect type
+function crossCheckFindings(llmFindings: VisualFinding[], localFindings: VisualFinding[], width: number, height: number) {
+  const hotspots: VisualFinding[] = [];
+  const summary = { matched: 0, llmOnly: 0, localOnly: 0, agreement: 1 };
+  VISUAL_DEFECT_TYPES.forEach(type => {
+    const checked = crossCheckHotspots(
+      llmFindings.filter(f => f.defect.type === type),
+      localFindings.filter(f => f.defect.type === type),
+      width,
+      height
+    );
+    hotspots.push(...checked.hotspots);
+    summary.matched += checked.summary.matched;
+    summary.llmOnly += checked.summary.llmOnly;
+    summary.localOnly += checked.summary.localOnly;
+  });
+  const total = summary.matched + summary.llmOnly + summary.localOnly;
+  summary.agreement = total > 0 ? Math.round((summary.matched / total) * 100) / 100 : 1;
+  return { hotspots, summary };
+}
+
+// Analyze a single RGB frame for visible module defects
+export async function analyzeVisualFrame(
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  options: HotspotAnalysisOptions,
+  audit: Record<string, unknown>
+) {
+  const startTime = Date.now();
+  const { requestId, engine, fallbackFov, annotate, overlayStyle } = options;
+  const { width = 0, height = 0 } = metadata;
+
+  const pose = extractDronePose(metadata.exif, metadata.xmp, fallbackFov ?? undefined);
+  if (pose) {
+    audit.georeference = {
+      latitude: pose.latitude,
+      longitude: pose.longitude,
+      relativeAltitude: pose.relativeAltitude
+    };
+  }
+
+  const localMetadata = (count: number, panelCoverage: number) => ({
+    analysis: `Local detector found ${count} visible defect${count === 1 ? '' : 's'} on ${Math.round(panelCoverage * 100)}% module coverage. It checks for ${LOCAL_VISUAL_DEFECT_TYPES.join(', ')} only.`,
+    recommendations: [] as string[],
+    aiProvider: null,
+    aiModel: null,
+    confidence: panelCoverage > 0.2 ? 0.6 : 0.4
+  });
+  let engineUsed: 'llm' | 'local' | 'local-fallback' | 'cross-check' = engine;
+  let findings: VisualFinding[] = [];
+  let modelMetadata: Record<string, unknown> & { confidence: number };
+
+  if (engine === 'local') {
+    const local = await detectVisualDefects(buffer);
+    findings = local.findings;
+    modelMetadata = localMetadata(local.findings.length, local.panelCoverage);
+  } else {
+    try {
+      const model = await detectWithModel(options.ai, buffer, metadata.format || 'jpeg', width, height);
+      findings = model.findings;
+      modelMetadata = {
+        analysis: model.analysis,
+        recommendations: model.recommendations,
+        aiProvider: options.ai.provider,
+        aiModel: options.ai.model,
+        promptVersion: VISUAL_PROMPT_VERSION,
+        validation: model.validation,
+        confidence: model.confidence
+      };
+
+      if (engine === 'cross-check') {
+        const local = await detectVisualDefects(buffer);
+        const checked = crossCheckFindings(findings, local.findings, width, height);
+        findings = checked.hotspots;
+        modelMetadata.crossCheck = checked.summary;
+      }
+    } catch (visionError) {
+      console.error(`[${requestId}] Visual inspection model error:`, visionError);
+
+      // Same fallback as the thermal pipeline, with a narrower taxonomy
+      const local = await detectVisualDefects(buffer);
+      findings = local.findings;
+      engineUsed = 'local-fallback';
+      modelMetadata = visionError instanceof ModelResponseError
+        ? {
+            ...localMetadata(local.findings.length, local.panelCoverage),
+            message: 'Vision model response failed validation. Results are from the local detector and need review.',
+            error: 'invalid_model_response',
+            validation: needsReview(visionError)
+          }
+        : {
+            ...localMetadata(local.findings.length, local.panelCoverage),
+            message: 'Vision model unavailable. Results are from the local detector.',
+            error: 'vision_api_error'
+          };
+    }
+  }
+
+  const hotspots = findings
+    .sort((a, b) => b.defect.confidence - a.defect.confidence)
+    .map(f => ({
+      x: f.x,
+      y: f.y,
+      radius: f.radius,
+      intensity: Math.round(f.defect.confidence * 100),
+      area: f.area,
+      description: f.description,
+      bbox: f.bbox,
+      ...(f.source && { source: f.source }),
+      defect: f.defect,
+      geo: imagePositionGeo(f, width, height, pose, null)
+    }));
+  const defects = hotspots.map(h => h.defect);
+  const severity = overallVisualSeverity(defects);
+  const totalArea = hotspots.reduce((sum, h) => sum + h.area, 0);
+
+  const finalResponse = {
+    requestId,
+    severity,
+    hotspots: hotspots.slice(0, 50),
+    confidence: modelMetadata.confidence,
+    metadata: {
+      totalHotspots: hotspots.length,
+      maxTemperature: null,
+      minTemperature: null,
+      avgTemperature: null,
+      detectionEngine: engineUsed,
+      visualInspection: {
+        counts: countByDefectType(defects),
+        // Categories the engine that produced the findings can report
+        coveredTypes: engineUsed === 'local' || engineUsed === 'local-fallback'
+          ? LOCAL_VISUAL_DEFECT_TYPES
+          : VISUAL_DEFECT_TYPES
+      },
+      georeference: georeferenceMetadata(pose, null),
+      affectedArea: Math.round((totalArea / Math.max(1, width * height)) * 1000) / 10, // percent
+      imageType: 'visual' as const,
+      dimensions: { width, height },
+      ...modelMetadata,
+      processingTime: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString()
+    }
+  };
+
+  let annotatedImage: string | undefined;
+  if (annotate) {
+    try {
+      const png = await renderHotspotOverlay(buffer, finalResponse.hotspots.map(h => ({
+        ...h,
+        classification: { anomalyClass: h.defect.label, severity: h.defect.severity }
+      })), {
+        severity,
+        style: overlayStyle
+      });
+      annotatedImage = `data:image/png;base64,${png.toString('base64')}`;
+    } catch (overlayError) {
+      console.error(`[${requestId}] Overlay rendering failed:`, overlayError);
+    }
+  }
+
+  return annotatedImage ? { ...finalResponse, annotatedImage } : finalResponse;
+}
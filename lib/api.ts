@@ -1,52 +1,85 @@
 // API utility functions for Chainfly dashboard
 
-export interface VisionAnalysisResult {
-  type: string;
-  analysis: string;
-  timestamp: string;
-  defectsFound: boolean;
-  confidence: number;
-}
+import { ComponentType, InspectionComponentType } from '@/lib/components';
+import type { ResponseValidation } from '@/lib/ai/structured';
+import type { CacheStatus } from '@/lib/analysis/cache';
+import type { VisionAnalysis, VisionFinding, InverterDisplay } from '@/lib/analysis/vision';
+import type { VisualProjection } from '@/lib/analysis/paired';
+import type { TemperatureStats } from '@/lib/thermal/radiometric';
+import type { ThermalClassification as HotspotClassification } from '@/lib/thermal/classification';
+import type { HotspotLocation } from '@/lib/thermal/grid';
+import type { GeoPosition } from '@/lib/thermal/georeference';
+import type { VisualDefect } from '@/lib/visual/taxonomy';
+import type { BatchJob, BatchJobItem } from '@/lib/jobs/batch';
+import type {
+  HotspotAnalysisResult,
+  Language,
+  ProfileUpdateRequest,
+  SummarizeRequest,
+  SummaryResult,
+  SummaryType,
+  UserProfile,
+} from '@/lib/contracts';
 
-export interface HotspotResult {
-  detected: boolean;
-  hotspots: Array<{
-    x: number;
-    y: number;
-    intensity: number;
-    radius: number;
-  }>;
-  severity: 'normal' | 'warning' | 'critical';
-  temperature_estimate?: number;
-  metadata: {
-    imageType: string;
-    dimensions: { width: number; height: number };
-    processedAt: string;
-    confidence: number;
-  };
-}
+// Request bodies and their validation live in lib/contracts.ts, and result
+// types in the server modules that produce them; both are shared with the
+// routes, so the dashboard and the server change together
+export type {
+  BatchJob,
+  BatchJobItem,
+  CacheStatus,
+  GeoPosition,
+  HotspotClassification,
+  HotspotLocation,
+  InverterDisplay,
+  ResponseValidation,
+  SummaryResult,
+  TemperatureStats,
+  VisionFinding,
+  VisualDefect,
+  VisualProjection,
+};
+
+// Vision result with the cache status the server adds to it
+export type VisionAnalysisResult = VisionAnalysis & Partial<CacheStatus>;
 
-export interface SummaryResult {
-  summary: string;
-  metadata: {
-    summaryType: string;
-    projectName: string;
-    totalDefects: number;
-    overallSeverity: string;
-    actionItems: string[];
-    generatedAt: string;
-    model: string;
-  };
+export interface HotspotDetectionOptions {
+  engine?: 'llm' | 'local' | 'cross-check';
+  // Temperature span of the false-color palette (°C), for non-radiometric images
+  scaleMin?: number;
+  scaleMax?: number;
+  // IEC TS 62446-3 ΔT thresholds in kelvin
+  deltaTThresholds?: { coa2?: number; coa3?: number; critical?: number };
+  // Include an annotated PNG (data URL) in the result
+  annotate?: boolean;
+  overlayStyle?: 'circle' | 'box';
+  // Horizontal camera FOV (degrees) for files without lens metadata
+  fov?: number;
+  // Bypass the server-side result cache and re-run the analysis
+  refresh?: boolean;
+  // RGB frame captured with the thermal one by a dual-sensor camera
+  visualImage?: File;
+  // Cancels the request, or the wait for a queued mosaic
+  signal?: AbortSignal;
+  // Longest wait (ms) for a queued mosaic before giving up
+  maxWait?: number;
 }
 
-// Analyze battery or inverter image using OpenAI Vision
+// Hotspot result with the cache status the server adds to it
+export type HotspotResult = HotspotAnalysisResult & Partial<CacheStatus>;
+
+// Analyze any non-solar component image using OpenAI Vision
 export async function analyzeWithVision(
   image: File,
-  type: 'battery' | 'inverter'
+  type: InspectionComponentType,
+  options: { refresh?: boolean } = {}
 ): Promise<VisionAnalysisResult> {
   const formData = new FormData();
   formData.append('image', image);
   formData.append('type', type);
+  if (options.refresh) {
+    formData.append('refresh', 'true');
+  }
 
   const response = await fetch('/api/analyze/vision', {
     method: 'POST',
@@ -63,46 +96,209 @@ export async function analyzeWithVision(
 // Detect hotspots in solar panel images
 export async function detectHotspots(
   image: File,
-  imageType: 'thermal' | 'visual' = 'thermal'
+  imageType: 'thermal' | 'visual' = 'thermal',
+  options: HotspotDetectionOptions = {}
 ): Promise<HotspotResult> {
   const formData = new FormData();
   formData.append('image', image);
   formData.append('imageType', imageType);
+  appendHotspotOptions(formData, options);
+  if (options.refresh) {
+    formData.append('refresh', 'true');
+  }
+  if (options.visualImage) {
+    formData.append('visualImage', options.visualImage);
+  }
 
   const response = await fetch('/api/analyze/hotspot', {
     method: 'POST',
     body: formData,
+    signal: options.signal,
   });
 
   if (!response.ok) {
     throw new Error('Hotspot detection failed');
   }
 
+  // Large orthomosaics are queued as a one-frame batch job
+  if (response.status === 202) {
+    const { jobId } = await response.json();
+    return waitForBatchItem(jobId, 0, options) as Promise<HotspotResult>;
+  }
+
   return response.json();
 }
 
-// Generate AI summary of defects
+const BATCH_POLL_INTERVAL = 3000; // 3 seconds
+const BATCH_MAX_WAIT = 30 * 60 * 1000; // 30 minutes
+
+function pollDelay(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, BATCH_POLL_INTERVAL);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Poll a batch job until one item has a result. Gives up after `maxWait`, when
+// `signal` aborts, or once the job has finished without completing the item.
+async function waitForBatchItem(
+  jobId: string,
+  index: number,
+  { signal, maxWait = BATCH_MAX_WAIT }: { signal?: AbortSignal; maxWait?: number } = {}
+): Promise<HotspotResult | VisionAnalysisResult> {
+  const deadline = Date.now() + maxWait;
+  for (;;) {
+    signal?.throwIfAborted();
+    const job = await getBatchJob(jobId);
+    const item = job.items.find(i => i.index === index);
+    if (!item) throw new Error(`Batch job ${jobId} has no item ${index}`);
+    if (item.status === 'completed') return getBatchItemResult(jobId, index);
+    if (item.status === 'failed') throw new Error(item.error || 'Hotspot detection failed');
+    if (job.status === 'completed' || job.status === 'completed_with_errors') {
+      throw new Error(`Batch job ${jobId} finished without a result for item ${index}`);
+    }
+    if (Date.now() + BATCH_POLL_INTERVAL > deadline) {
+      throw new Error(`Timed out waiting for batch job ${jobId}`);
+    }
+    await pollDelay(signal);
+  }
+}
+
+function appendHotspotOptions(formData: FormData, options: HotspotDetectionOptions) {
+  if (options.engine) {
+    formData.append('engine', options.engine);
+  }
+  if (options.scaleMin !== undefined && options.scaleMax !== undefined) {
+    formData.append('scaleMin', options.scaleMin.toString());
+    formData.append('scaleMax', options.scaleMax.toString());
+  }
+  if (options.deltaTThresholds) {
+    formData.append('deltaTThresholds', JSON.stringify(options.deltaTThresholds));
+  }
+  if (options.annotate) {
+    formData.append('annotate', 'true');
+    formData.append('overlayStyle', options.overlayStyle || 'circle');
+  }
+  if (options.fov !== undefined) {
+    formData.append('fov', options.fov.toString());
+  }
+}
+
+// Submit a whole flight for server-side analysis. Frames keep being analysed
+// if the browser tab closes; poll getBatchJob for progress.
+export async function submitBatchJob(
+  images: File[],
+  options: HotspotDetectionOptions & { componentType?: ComponentType } = {}
+): Promise<{ jobId: string; status: BatchJob['status']; progress: BatchJob['progress']; rejected: string[] }> {
+  const formData = new FormData();
+  images.forEach(image => {
+    formData.append(image.name.toLowerCase().endsWith('.zip') ? 'archive' : 'images', image);
+  });
+  appendHotspotOptions(formData, options);
+  if (options.componentType) {
+    formData.append('componentType', options.componentType);
+  }
+
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error('Batch job submission failed');
+  }
+
+  return response.json();
+}
+
+// Job status; with `since`, only items that changed after that timestamp
+export async function getBatchJob(jobId: string, since?: string): Promise<BatchJob> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  const response = await fetch(`/api/jobs/${jobId}${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch batch job');
+  }
+
+  return response.json();
+}
+
+export async function getBatchItemResult(jobId: string, index: number): Promise<HotspotResult | VisionAnalysisResult> {
+  const response = await fetch(`/api/jobs/${jobId}/items/${index}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch batch result');
+  }
+
+  return response.json();
+}
+
+// Drop the organization's cached analysis results: one entry, every result
+// for an image, or all
+export async function invalidateAnalysisCache(
+  filter: { key?: string; imageHash?: string; kind?: 'hotspot' | 'vision' } = {}
+): Promise<{ removed: number }> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([name, value]) => {
+    if (value) params.append(name, value);
+  });
+
+  const response = await fetch(`/api/analyze/cache?${params.toString()}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to invalidate analysis cache');
+  }
+
+  return response.json();
+}
+
+// Render the annotated overlay PNG for a stored hotspot result
+export async function renderHotspotOverlay(
+  image: File,
+  result: HotspotResult,
+  style: 'circle' | 'box' = 'circle'
+): Promise<Blob> {
+  const formData = new FormData();
+  formData.append('image', image);
+  formData.append('result', JSON.stringify(result));
+  formData.append('style', style);
+
+  const response = await fetch('/api/analyze/hotspot/overlay', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error('Overlay rendering failed');
+  }
+
+  return response.blob();
+}
+
+// Generate AI summary of defects; without a language the server uses the
+// user's profile default
 export async function generateSummary(
-  defects: Array<{
-    type: string;
-    severity: 'critical' | 'high' | 'medium' | 'low';
-    location: string;
-    description: string;
-    timestamp: string;
-  }>,
+  defects: SummarizeRequest['defects'],
   projectName?: string,
-  summaryType: 'executive' | 'technical' | 'maintenance' = 'executive'
+  summaryType: SummaryType = 'executive',
+  language?: Language
 ): Promise<SummaryResult> {
+  const body: SummarizeRequest = { defects, projectName, summaryType, language };
   const response = await fetch('/api/analyze/summarize', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      defects,
-      projectName,
-      summaryType,
-    }),
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
@@ -112,6 +308,32 @@ export async function generateSummary(
   return response.json();
 }
 
+export async function getUserProfile(): Promise<UserProfile> {
+  const response = await fetch('/api/profile');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch profile');
+  }
+
+  return response.json();
+}
+
+export async function updateUserProfile(update: ProfileUpdateRequest): Promise<UserProfile> {
+  const response = await fetch('/api/profile', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update profile');
+  }
+
+  return response.json();
+}
+
 // Helper function to convert File to base64 for preview
 export async function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+
+// Audit trail of changes and analyses made through the API, one `[AUDIT]`
+// JSON line per action in the server log. Failed analyses are logged too,
+// with status 'failure'.
+
+export function auditLog(
+  request: NextRequest,
+  requestId: string,
+  action: string,
+  details: Record<string, unknown>,
+  status: 'success' | 'failure' = 'success'
+) {
+  console.log(`[AUDIT] ${JSON.stringify({
+    requestId,
+    timestamp: new Date().toISOString(),
+    clientIp: request.headers.get('x-forwarded-for') || 'unknown',
+    action,
+    status,
+    details
+  })}`);
+}
@@ -1,15 +1,22 @@
 import { NextAuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import { getToken } from "next-auth/jwt";
+import { NextRequest } from "next/server";
 import bcrypt from "bcryptjs";
 
+// Organization for users created without one. Organizations select their own
+// AI providers and models (see lib/ai/config.ts).
+export const DEFAULT_ORGANIZATION_ID = "default";
+
 // In production, use a proper database
 // For now, we'll use in-memory storage for demo purposes
-const users: { id: string; email: string; password: string; name: string }[] = [
+const users: { id: string; email: string; password: string; name: string; organizationId: string }[] = [
   {
     id: "1",
     email: "admin@chainfly.com",
     password: bcrypt.hashSync("admin123", 10),
     name: "Admin User",
+    organizationId: "chainfly",
   },
 ];
 
@@ -33,6 +40,7 @@ export const authOptions: NextAuthOptions = {
             id: user.id,
             email: user.email,
             name: user.name,
+            organizationId: user.organizationId,
           };
         }
 
@@ -52,12 +60,14 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id;
+        token.organizationId = user.organizationId;
       }
       return token;
     },
     async session({ session, token }) {
       if (session?.user && token?.id) {
         session.user.id = token.id as string;
+        session.user.organizationId = token.organizationId ?? DEFAULT_ORGANIZATION_ID;
       }
       return session;
     },
@@ -66,7 +76,7 @@ export const authOptions: NextAuthOptions = {
 };
 
 // Helper function to add a new user (for registration)
-export async function addUser(email: string, password: string, name: string) {
+export async function addUser(email: string, password: string, name: string, organizationId = DEFAULT_ORGANIZATION_ID) {
   const existingUser = users.find((u) => u.email === email);
   if (existingUser) {
     throw new Error("User already exists");
@@ -78,8 +88,25 @@ export async function addUser(email: string, password: string, name: string) {
     email,
     password: hashedPassword,
     name,
+    organizationId,
   };
   
   users.push(newUser);
-  return { id: newUser.id, email: newUser.email, name: newUser.name };
+  return { id: newUser.id, email: newUser.email, name: newUser.name, organizationId };
+}
+
+// Organization of the signed-in user making an API request
+export async function requestOrganization(request: NextRequest): Promise<string> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  return token?.organizationId ?? DEFAULT_ORGANIZATION_ID;
+}
+
+// Signed-in user making an API request, for data kept per user. Requests
+// without a session (the middleware normally rejects them) share one user.
+export async function requestUser(request: NextRequest): Promise<{ userId: string; organizationId: string }> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  return {
+    userId: token?.id ?? 'anonymous',
+    organizationId: token?.organizationId ?? DEFAULT_ORGANIZATION_ID,
+  };
 }
@@ -0,0 +1,248 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import crypto from 'crypto';
+import {
+  getDefect,
+  updateDefect,
+  DefectRecord,
+  DefectSeverity,
+  DefectStatus,
+  DefectUpdate,
+  DEFECT_SEVERITIES,
+  DEFECT_STATUSES,
+} from '@/lib/defects/store';
+import { createWorkOrder, WorkOrder } from '@/lib/defects/workorders';
+import type { DefectToolResult } from '@/lib/chat/tools';
+import type { ChangeSet, ProposedChange } from '@/lib/chat/changes';
+import type { ThreadOwner } from '@/lib/chat/threads';
+
+// Changes the defect assistant can make. The model only proposes them: the
+// proposals of one answer form a change set (lib/chat/changes.ts), which is
+// applied when the user it was proposed to confirms it in the chat panel and
+// discarded otherwise. Pending change sets are kept in memory only; after a
+// restart their proposals are marked expired when confirmed.
+
+interface StoredChangeSet extends ChangeSet, ThreadOwner {}
+
+export interface ChangeSetOutcome {
+  applied: ProposedChange[];
+  // Updates skipped because the defect was deleted or changed since the proposal
+  skipped: Array<{ change: ProposedChange; reason: string }>;
+  defects: DefectRecord[];
+  workOrders: WorkOrder[];
+}
+
+// Unconfirmed change sets expire
+const CHANGE_SET_TTL_MS = 30 * 60 * 1000;
+const UPDATE_FIELDS = ['status', 'severity', 'assignee'] as const;
+
+// Route handlers can be bundled separately, so pending change sets live on globalThis
+const globalForChangeSets = globalThis as unknown as { chatChangeSets?: Map<string, StoredChangeSet> };
+const pending: Map<string, StoredChangeSet> = globalForChangeSets.chatChangeSets ??= new Map();
+
+export const ACTION_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'propose_defect_updates',
+      description: 'Propose changing the status, severity or assignee of defects. Look the defects up first; '
+        + 'nothing changes until the user confirms.',
+      parameters: {
+        type: 'object',
+        properties: {
+          defectIds: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          status: { type: 'string', enum: DEFECT_STATUSES },
+          severity: { type: 'string', enum: DEFECT_SEVERITIES },
+          assignee: { type: 'string', description: 'Name of the person to assign the defects to' },
+        },
+        required: ['defectIds'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'propose_work_order',
+      description: 'Propose creating a work order for a module, row or unit. Nothing is created until the user confirms.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          location: { type: 'string', description: 'Module, row or unit, e.g. "r3c7" or "INV-2"' },
+          defectIds: { type: 'array', items: { type: 'string' }, description: 'Defects the work addresses' },
+          assignee: { type: 'string' },
+          notes: { type: 'string' },
+        },
+        required: ['title', 'location'],
+      },
+    },
+  },
+];
+
+export function isActionTool(name: string): boolean {
+  return ACTION_TOOLS.some(tool => tool.function.name === name);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asIds(value: unknown): string[] {
+  return Array.isArray(value) ? Array.from(new Set(value.filter((id): id is string => typeof id === 'string'))) : [];
+}
+
+function result(value: object, defectIds: string[] = []): DefectToolResult {
+  return { content: JSON.stringify(value), defectIds };
+}
+
+async function proposeDefectUpdates(
+  organizationId: string,
+  args: Record<string, unknown>,
+  draft: ProposedChange[]
+): Promise<DefectToolResult> {
+  const status = asString(args.status)?.toLowerCase() as DefectStatus | undefined;
+  const severity = asString(args.severity)?.toLowerCase() as DefectSeverity | undefined;
+  const assignee = asString(args.assignee);
+  if (status && !DEFECT_STATUSES.includes(status)) {
+    return result({ error: `status must be one of ${DEFECT_STATUSES.join(', ')}` });
+  }
+  if (severity && !DEFECT_SEVERITIES.includes(severity)) {
+    return result({ error: `severity must be one of ${DEFECT_SEVERITIES.join(', ')}` });
+  }
+  if (!status && !severity && !assignee) {
+    return result({ error: 'Give at least one of status, severity and assignee' });
+  }
+
+  const wanted: DefectUpdate = { status, severity, assignee };
+  const proposed: string[] = [];
+  const unchanged: string[] = [];
+  const notFound: string[] = [];
+  for (const id of asIds(args.defectIds)) {
+    const defect = await getDefect(organizationId, id);
+    if (!defect) {
+      notFound.push(id);
+      continue;
+    }
+    const fields = UPDATE_FIELDS.filter(field => wanted[field] !== undefined && wanted[field] !== defect[field]);
+    if (fields.length === 0) {
+      unchanged.push(id);
+      continue;
+    }
+    // A later proposal for the same defect replaces the earlier one
+    const index = draft.findIndex(change => change.kind === 'update_defect' && change.defectId === id);
+    if (index !== -1) draft.splice(index, 1);
+    draft.push({
+      kind: 'update_defect',
+      defectId: id,
+      label: `${defect.type} at ${defect.location}`,
+      before: Object.fromEntries(fields.map(field => [field, defect[field] ?? null])),
+      after: Object.fromEntries(fields.map(field => [field, wanted[field]])),
+    });
+    proposed.push(id);
+  }
+
+  return result({
+    proposed,
+    unchanged,
+    notFound,
+    note: 'Proposed only. Tell the user what will change and ask them to confirm in the chat panel.',
+  }, [...proposed, ...unchanged]);
+}
+
+async function proposeWorkOrder(
+  organizationId: string,
+  args: Record<string, unknown>,
+  draft: ProposedChange[]
+): Promise<DefectToolResult> {
+  const title = asString(args.title);
+  const location = asString(args.location);
+  if (!title || !location) {
+    return result({ error: 'title and location are required' });
+  }
+  const defectIds: string[] = [];
+  const notFound: string[] = [];
+  for (const id of asIds(args.defectIds)) {
+    ((await getDefect(organizationId, id)) ? defectIds : notFound).push(id);
+  }
+
+  draft.push({
+    kind: 'create_work_order',
+    workOrder: { title, location, defectIds, assignee: asString(args.assignee), notes: asString(args.notes) },
+  });
+  return result({
+    proposed: { title, location, defectIds },
+    notFound,
+    note: 'Proposed only. Tell the user what will be created and ask them to confirm in the chat panel.',
+  }, defectIds);
+}
+
+export async function runActionTool(
+  organizationId: string,
+  name: string,
+  args: Record<string, unknown>,
+  draft: ProposedChange[]
+): Promise<DefectToolResult> {
+  return name === 'propose_work_order'
+    ? proposeWorkOrder(organizationId, args, draft)
+    : proposeDefectUpdates(organizationId, args, draft);
+}
+
+function prunePending() {
+  const now = new Date().toISOString();
+  pending.forEach((changeSet, id) => {
+    if (changeSet.expiresAt < now) pending.delete(id);
+  });
+}
+
+export function saveChangeSet(owner: ThreadOwner, changes: ProposedChange[]): ChangeSet {
+  prunePending();
+  const changeSet: ChangeSet = {
+    id: crypto.randomUUID(),
+    changes,
+    expiresAt: new Date(Date.now() + CHANGE_SET_TTL_MS).toISOString(),
+  };
+  pending.set(changeSet.id, { ...changeSet, organizationId: owner.organizationId, userId: owner.userId });
+  return changeSet;
+}
+
+// Removes a pending change set; null when it is unknown, expired or was
+// proposed to another user
+export function takeChangeSet(owner: ThreadOwner, id: string): ChangeSet | null {
+  prunePending();
+  const changeSet = pending.get(id);
+  if (!changeSet || changeSet.organizationId !== owner.organizationId || changeSet.userId !== owner.userId) return null;
+  pending.delete(id);
+  return { id: changeSet.id, changes: changeSet.changes, expiresAt: changeSet.expiresAt };
+}
+
+// Defect updates go through the register's updateDefect, the same path as
+// edits from the defect log
+export async function applyChangeSet(organizationId: string, changeSet: ChangeSet): Promise<ChangeSetOutcome> {
+  const outcome: ChangeSetOutcome = { applied: [], skipped: [], defects: [], workOrders: [] };
+
+  for (const change of changeSet.changes) {
+    if (change.kind === 'create_work_order') {
+      outcome.workOrders.push(await createWorkOrder(organizationId, change.workOrder));
+      outcome.applied.push(change);
+      continue;
+    }
+
+    const current = await getDefect(organizationId, change.defectId);
+    if (!current) {
+      outcome.skipped.push({ change, reason: 'Defect no longer exists' });
+      continue;
+    }
+    const changed = UPDATE_FIELDS.filter(field => field in change.before && (current[field] ?? null) !== change.before[field]);
+    if (changed.length > 0) {
+      outcome.skipped.push({ change, reason: `${changed.join(', ')} changed since the proposal` });
+      continue;
+    }
+    const updated = await updateDefect(organizationId, change.defectId, change.after);
+    if (updated) {
+      outcome.defects.push(updated);
+      outcome.applied.push(change);
+    } else {
+      outcome.skipped.push({ change, reason: 'Defect no longer exists' });
+    }
+  }
+  return outcome;
+}
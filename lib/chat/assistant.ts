@@ -0,0 +1,133 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { completeChatTurn, AIModelSelection, AIProviderName } from '@/lib/ai/provider';
+import { resolveAIModels } from '@/lib/ai/config';
+import { languageInstruction } from '@/lib/ai/language';
+import { AIUnavailableError } from '@/lib/ai/resilience';
+import { DEFECT_TOOLS, runDefectTool } from '@/lib/chat/tools';
+import { ACTION_TOOLS, saveChangeSet } from '@/lib/chat/actions';
+import type { ChangeSet, ProposedChange } from '@/lib/chat/changes';
+import type { Language } from '@/lib/contracts';
+import type { ThreadOwner } from '@/lib/chat/threads';
+
+// Defect assistant: answers questions about the organization's defects by
+// calling the register tools, and cites the defects it used. Requested
+// changes come back as a change set for the user to confirm. Runs on the
+// first configured provider for the 'chat' task that is available.
+
+export const CHAT_PROMPT_VERSION = '4';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface DefectChatAnswer {
+  response: string;
+  // Defect ids cited in the response that the tools returned
+  citations: string[];
+  toolCalls: Array<{ name: string; arguments: string }>;
+  // Changes the assistant proposed, applied only once the user confirms
+  proposal?: ChangeSet;
+  provider: AIProviderName;
+  model: string;
+  promptVersion: string;
+}
+
+// Tool rounds before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 5;
+const MAX_HISTORY_TURNS = 10;
+const CITATION = /\[(defect-[A-Za-z0-9-]+)\]/g;
+
+function systemPrompt(site: string | null, language: Language): string {
+  const answerLanguage = languageInstruction(language);
+  return `You are the defect assistant of a solar plant inspection platform. You help operations and maintenance staff understand the defects found in thermal and visual inspections of their plants.
+
+Today is ${new Date().toISOString().slice(0, 10)}.${site ? `
+
+This conversation is about the site "${site}": pass it as the site filter unless the user asks about other sites.` : ''}
+
+Use the tools to look up defects; never invent defects, counts or analysis details. Resolve relative dates such as "last week" to ISO dates before calling a tool.
+
+Cite every defect you mention by its id in square brackets, e.g. [defect-1718000000000-abc123def]. Only cite ids the tools returned. When the tools find nothing, say so.
+
+When the user asks you to change defects (status, severity, assignee) or to create a work order, look the defects up, then use the propose_ tools. Proposals are not applied until the user confirms them in the chat panel, so describe what will change and never claim that it has been done.
+
+Answers may cover what a defect means, likely causes, recommended actions, urgency and safety. Keep them concise.${answerLanguage ? `
+
+${answerLanguage} Tool arguments stay in English.` : ''}`;
+}
+
+async function converse(
+  ai: AIModelSelection,
+  owner: ThreadOwner,
+  messages: ChatCompletionMessageParam[]
+): Promise<DefectChatAnswer> {
+  const toolCalls: DefectChatAnswer['toolCalls'] = [];
+  const consulted = new Set<string>();
+  const draft: ProposedChange[] = [];
+
+  for (let round = 0; ; round++) {
+    const reply = await completeChatTurn(ai, {
+      task: 'chat',
+      messages,
+      temperature: 0.2,
+      maxTokens: 1500,
+      // The last round gets no tools, so the model has to answer
+      ...(round < MAX_TOOL_ROUNDS && { tools: [...DEFECT_TOOLS, ...ACTION_TOOLS] }),
+    });
+
+    if (reply.toolCalls.length === 0) {
+      const cited = Array.from(reply.content.matchAll(CITATION), match => match[1]);
+      const unknown = cited.filter(id => !consulted.has(id));
+      if (unknown.length > 0) {
+        console.warn(`[CHAT] Response cites defects the tools did not return: ${unknown.join(', ')}`);
+      }
+      return {
+        response: reply.content,
+        citations: Array.from(new Set(cited.filter(id => consulted.has(id)))),
+        toolCalls,
+        ...(draft.length > 0 && { proposal: saveChangeSet(owner, draft) }),
+        provider: ai.provider,
+        model: ai.model,
+        promptVersion: CHAT_PROMPT_VERSION,
+      };
+    }
+
+    messages.push({ role: 'assistant', content: reply.content || null, tool_calls: reply.toolCalls });
+    for (const call of reply.toolCalls) {
+      const result = await runDefectTool(owner.organizationId, call.function.name, call.function.arguments, draft);
+      result.defectIds.forEach(id => consulted.add(id));
+      toolCalls.push({ name: call.function.name, arguments: call.function.arguments });
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result.content });
+    }
+  }
+}
+
+// `owner` is the user asking, the only one who can confirm the proposed
+// changes; `history` holds the earlier turns of the thread; `site` scopes
+// the conversation to one site; `language` is the language of the answer
+export async function answerDefectQuestion(
+  owner: ThreadOwner,
+  message: string,
+  { history = [], site = null, language = 'en' }: { history?: ChatTurn[]; site?: string | null; language?: Language } = {}
+): Promise<DefectChatAnswer> {
+  const candidates = await resolveAIModels('chat', owner.organizationId);
+  const conversation: ChatCompletionMessageParam[] = [
+    { role: 'system', content: systemPrompt(site, language) },
+    ...history.slice(-MAX_HISTORY_TURNS).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: message },
+  ];
+
+  let unavailable: AIUnavailableError | undefined;
+  for (const ai of candidates) {
+    try {
+      // Each provider starts from the same conversation
+      return await converse(ai, owner, [...conversation]);
+    } catch (error) {
+      if (!(error instanceof AIUnavailableError)) throw error;
+      console.warn(`[CHAT] ${ai.provider} (${ai.model}) unavailable, trying the next provider:`, error.message);
+      unavailable = error;
+    }
+  }
+  throw unavailable ?? new AIUnavailableError('No AI provider is configured for the defect assistant');
+}
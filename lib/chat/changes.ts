@@ -0,0 +1,34 @@
+import type { DefectUpdate } from '@/lib/defects/store';
+import type { WorkOrderInput } from '@/lib/defects/workorders';
+
+// Change sets the defect assistant proposes (see lib/chat/actions.ts).
+// Types only and plain functions, so the chat panel can use them too.
+
+export type ProposedChange =
+  | {
+      kind: 'update_defect';
+      defectId: string;
+      label: string; // defect type and location, for the confirmation list
+      before: Record<string, string | null>; // current values of the fields that change
+      after: DefectUpdate;
+    }
+  | { kind: 'create_work_order'; workOrder: WorkOrderInput };
+
+export interface ChangeSet {
+  id: string;
+  changes: ProposedChange[];
+  expiresAt: string;
+}
+
+// One line per change, for the confirmation list and thread exports
+export function describeChange(change: ProposedChange): string {
+  if (change.kind === 'create_work_order') {
+    const { title, location, defectIds, assignee } = change.workOrder;
+    return `Create work order "${title}" for ${location}${assignee ? `, assigned to ${assignee}` : ''}`
+      + (defectIds.length > 0 ? ` (${defectIds.length} defect${defectIds.length === 1 ? '' : 's'})` : '');
+  }
+  const fields = Object.entries(change.after)
+    .map(([field, value]) => `${field}: ${change.before[field] ?? 'none'} -> ${value}`)
+    .join(', ');
+  return `${change.label} [${change.defectId}]: ${fields}`;
+}
@@ -0,0 +1,113 @@
+import jsPDF from 'jspdf';
+import { describeChange } from '@/lib/chat/changes';
+import type { ChatThread, ThreadMessage } from '@/lib/chat/threads';
+
+// Chat thread exports for attaching a conversation to a maintenance ticket.
+// The PDF uses jsPDF's built-in Helvetica, which has no Gujarati, Devanagari
+// or Tamil glyphs, so threads in those languages are exported as Markdown only.
+
+const UNSUPPORTED_SCRIPTS: Array<[RegExp, string]> = [
+  [/[\u0A80-\u0AFF]/, 'Gujarati'],
+  [/[\u0900-\u097F]/, 'Hindi or Marathi'],
+  [/[\u0B80-\u0BFF]/, 'Tamil'],
+];
+
+const PROPOSAL_STATES: Record<NonNullable<ThreadMessage['proposalState']>, string> = {
+  pending: 'awaiting confirmation',
+  applying: 'being applied',
+  applied: 'confirmed',
+  rejected: 'rejected',
+  failed: 'failed',
+  expired: 'expired',
+};
+
+function speaker(message: ThreadMessage): string {
+  return message.role === 'user' ? 'User' : 'Assistant';
+}
+
+function proposalLines(message: ThreadMessage): string[] {
+  if (!message.proposal) return [];
+  return [
+    `Proposed changes (${PROPOSAL_STATES[message.proposalState ?? 'pending']}):`,
+    ...message.proposal.changes.map(change => `- ${describeChange(change)}`),
+    ...(message.proposalNote ? [message.proposalNote] : []),
+  ];
+}
+
+export function exportFilename(thread: ChatThread, extension: 'md' | 'pdf'): string {
+  const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40).replace(/^-|-$/g, '') || 'thread';
+  return `chat-${slug}-${thread.createdAt.slice(0, 10)}.${extension}`;
+}
+
+export function threadToMarkdown(thread: ChatThread): string {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `- Site: ${thread.site ?? 'All sites'}`,
+    `- Started: ${thread.createdAt}`,
+    `- Exported: ${new Date().toISOString()}`,
+  ];
+  thread.messages.forEach(message => {
+    lines.push('', `## ${speaker(message)} (${message.timestamp})`, '', message.content);
+    if (message.citations?.length) {
+      lines.push('', `Cited defects: ${message.citations.map(id => `\`${id}\``).join(', ')}`);
+    }
+    const proposal = proposalLines(message);
+    if (proposal.length > 0) lines.push('', ...proposal);
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// Why the thread cannot be exported as PDF, or null when it can
+export function pdfExportProblem(thread: ChatThread): string | null {
+  const text = thread.messages.map(message => message.content).join('\n');
+  const languages = UNSUPPORTED_SCRIPTS.filter(([script]) => script.test(text)).map(([, name]) => name);
+  if (languages.length === 0) return null;
+  return `PDF export does not support ${languages.join(', ')} text. Export the thread as Markdown instead.`;
+}
+
+export function threadToPdf(thread: ChatThread): Buffer {
+  const doc = new jsPDF();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const width = 180;
+  let y = 22;
+
+  const write = (text: string, fontSize: number, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFontSize(fontSize);
+    doc.setFont('helvetica', style);
+    const lineHeight = fontSize * 0.5;
+    for (const line of doc.splitTextToSize(text, width) as string[]) {
+      if (y + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(line, margin, y);
+      y += lineHeight;
+    }
+  };
+
+  write(thread.title, 16, 'bold');
+  y += 2;
+  write(`Site: ${thread.site ?? 'All sites'}`, 10);
+  write(`Started: ${new Date(thread.createdAt).toLocaleString()}`, 10);
+  write(`Exported: ${new Date().toLocaleString()}`, 10);
+
+  thread.messages.forEach(message => {
+    y += 6;
+    write(`${speaker(message)} - ${new Date(message.timestamp).toLocaleString()}`, 11, 'bold');
+    y += 1;
+    write(message.content, 10);
+    if (message.citations?.length) {
+      y += 1;
+      write(`Cited defects: ${message.citations.join(', ')}`, 9);
+    }
+    const proposal = proposalLines(message);
+    if (proposal.length > 0) {
+      y += 1;
+      write(proposal.join('\n'), 9);
+    }
+  });
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
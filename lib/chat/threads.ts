@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { ChangeSet } from '@/lib/chat/changes';
+import type { AIProviderName } from '@/lib/ai/provider';
+import type { ChatTurn } from '@/lib/chat/assistant';
+import type { Language } from '@/lib/contracts';
+
+// Defect chat threads, one file per thread under data/chat/. A thread
+// belongs to one user and, optionally, one site; the assistant reads its
+// earlier turns, so follow-up questions keep their context.
+
+export type ProposalState = 'pending' | 'applying' | 'applied' | 'rejected' | 'failed' | 'expired';
+
+export interface ThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  citations?: string[];
+  // Changes the assistant proposed and what became of them
+  proposal?: ChangeSet;
+  proposalState?: ProposalState;
+  proposalNote?: string;
+  provider?: AIProviderName;
+  model?: string;
+  language?: Language; // of assistant answers
+}
+
+export interface ThreadOwner {
+  organizationId: string;
+  userId: string;
+}
+
+export interface ChatThread extends ThreadOwner {
+  id: string;
+  site: string | null; // null for conversations about every site
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ThreadMessage[];
+}
+
+export type ChatThreadSummary = Omit<ChatThread, 'messages'> & { messageCount: number };
+
+interface ThreadState {
+  writes: Map<string, Promise<void>>;
+}
+
+const THREADS_DIR = path.join(process.cwd(), 'data', 'chat');
+const THREAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+const TITLE_LENGTH = 60;
+
+// Route handlers can be bundled separately, so the write chains live on globalThis
+const globalForThreads = globalThis as unknown as { chatThreads?: ThreadState };
+const state: ThreadState = globalForThreads.chatThreads ??= { writes: new Map() };
+
+function threadFile(id: string): string {
+  return path.join(THREADS_DIR, `${id}.json`);
+}
+
+function ownedBy(thread: ChatThread, owner: ThreadOwner): boolean {
+  return thread.organizationId === owner.organizationId && thread.userId === owner.userId;
+}
+
+async function readThread(id: string): Promise<ChatThread | null> {
+  if (!THREAD_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(threadFile(id), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[CHAT] Failed to read thread ${id}:`, error);
+    }
+    return null;
+  }
+}
+
+// Edits are chained per thread and written atomically. Returns null when the
+// thread does not exist or belongs to someone else.
+function updateThread(owner: ThreadOwner, id: string, update: (thread: ChatThread) => void): Promise<ChatThread | null> {
+  let updated: ChatThread | null = null;
+  const previous = state.writes.get(id) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const thread = await readThread(id);
+    if (!thread || !ownedBy(thread, owner)) return;
+    update(thread);
+    thread.updatedAt = new Date().toISOString();
+    await fs.writeFile(`${threadFile(id)}.tmp`, JSON.stringify(thread, null, 2));
+    await fs.rename(`${threadFile(id)}.tmp`, threadFile(id));
+    updated = thread;
+  });
+  state.writes.set(id, next.catch(error => {
+    console.error(`[CHAT] Failed to save thread ${id}:`, error);
+  }));
+  return next.then(() => updated);
+}
+
+export async function createThread(owner: ThreadOwner, site: string | null, firstMessage: string): Promise<ChatThread> {
+  const now = new Date().toISOString();
+  const title = firstMessage.trim().replace(/\s+/g, ' ');
+  const thread: ChatThread = {
+    id: crypto.randomUUID(),
+    organizationId: owner.organizationId,
+    userId: owner.userId,
+    site,
+    title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 3)}...` : title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+  await fs.mkdir(THREADS_DIR, { recursive: true });
+  await fs.writeFile(threadFile(thread.id), JSON.stringify(thread, null, 2));
+  return thread;
+}
+
+export async function getThread(owner: ThreadOwner, id: string): Promise<ChatThread | null> {
+  const thread = await readThread(id);
+  return thread && ownedBy(thread, owner) ? thread : null;
+}
+
+// The owner's threads, most recently active first; `site` narrows to one site
+export async function listThreads(owner: ThreadOwner, site?: string | null): Promise<ChatThreadSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(THREADS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const threads = await Promise.all(files
+    .filter(file => file.endsWith('.json'))
+    .map(file => readThread(file.slice(0, -'.json'.length))));
+  return threads
+    .filter((thread): thread is ChatThread => !!thread && ownedBy(thread, owner))
+    .filter(thread => site === undefined || thread.site === site)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(({ messages, ...summary }) => ({ ...summary, messageCount: messages.length }));
+}
+
+export function appendMessages(owner: ThreadOwner, id: string, messages: ThreadMessage[]): Promise<ChatThread | null> {
+  return updateThread(owner, id, thread => {
+    thread.messages.push(...messages);
+  });
+}
+
+// Record what the user decided about a message's proposed changes
+export function updateProposalState(
+  owner: ThreadOwner,
+  id: string,
+  changeSetId: string,
+  proposalState: ProposalState,
+  proposalNote?: string
+): Promise<ChatThread | null> {
+  return updateThread(owner, id, thread => {
+    const message = thread.messages.find(m => m.proposal?.id === changeSetId);
+    if (message) Object.assign(message, { proposalState, proposalNote });
+  });
+}
+
+// A pending proposal whose change set is gone (expired, or lost when the
+// server restarted) can no longer be confirmed. Decided proposals are kept.
+export function expireProposal(owner: ThreadOwner, id: string, changeSetId: string, proposalNote: string): Promise<ChatThread | null> {
+  return updateThread(owner, id, thread => {
+    const message = thread.messages.find(m => m.proposal?.id === changeSetId);
+    if (message && (message.proposalState ?? 'pending') === 'pending') {
+      Object.assign(message, { proposalState: 'expired', proposalNote });
+    }
+  });
+}
+
+export async function deleteThread(owner: ThreadOwner, id: string): Promise<boolean> {
+  const thread = await getThread(owner, id);
+  if (!thread) return false;
+  await (state.writes.get(id) ?? Promise.resolve());
+  await fs.rm(threadFile(id), { force: true });
+  state.writes.delete(id);
+  return true;
+}
+
+// Earlier turns for the model. What became of proposed changes is noted, so
+// follow-ups know whether they were applied.
+export function threadTurns(thread: ChatThread): ChatTurn[] {
+  return thread.messages.map(message => ({
+    role: message.role,
+    content: message.proposal
+      ? `${message.content}\n\n[Proposed changes: ${message.proposalState ?? 'pending'}${message.proposalNote ? `. ${message.proposalNote}` : ''}]`
+      : message.content,
+  }));
+}
+
+export function newMessageId(): string {
+  return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
@@ -0,0 +1,238 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import {
+  getDefect,
+  listDefects,
+  DefectFilter,
+  DefectRecord,
+  DefectSeverity,
+  DefectStatus,
+  DEFECT_SEVERITIES,
+  DEFECT_STATUSES,
+} from '@/lib/defects/store';
+import { isActionTool, runActionTool } from '@/lib/chat/actions';
+import type { ProposedChange } from '@/lib/chat/changes';
+
+// Server-side tools the defect assistant calls to read the defect register
+// (the tools that change it are in lib/chat/actions.ts). Every call is
+// scoped to the caller's organization; results are JSON the model cites
+// defect ids from.
+
+export interface DefectToolResult {
+  content: string; // JSON handed back to the model
+  defectIds: string[]; // defects the result mentions, which the answer may cite
+}
+
+type GroupBy = 'severity' | 'status' | 'type' | 'site';
+type Interval = 'day' | 'week' | 'month';
+
+const GROUP_BY: GroupBy[] = ['severity', 'status', 'type', 'site'];
+const INTERVALS: Interval[] = ['day', 'week', 'month'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+// Keeps a large analysis from crowding the rest of the conversation out
+const MAX_RESULT_CHARS = 12000;
+const DESCRIPTION_CHARS = 200;
+
+const FILTER_PROPERTIES = {
+  site: { type: 'string', description: 'Site name, or part of the defect location' },
+  severity: { type: 'string', enum: DEFECT_SEVERITIES },
+  status: { type: 'string', enum: DEFECT_STATUSES },
+  type: { type: 'string', description: 'Part of the defect type, e.g. "hotspot" or "inverter"' },
+  from: { type: 'string', description: 'Earliest detection time, ISO 8601' },
+  to: { type: 'string', description: 'Latest detection time, ISO 8601' },
+};
+
+export const DEFECT_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'query_defects',
+      description: 'List defects matching the filters, newest first, with their ids.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...FILTER_PROPERTIES,
+          limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, description: `Defaults to ${DEFAULT_LIMIT}` },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_defect_analysis',
+      description: 'Fetch one defect with the full analysis that detected it.',
+      parameters: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Defect id, e.g. defect-1718000000000-abc123def' } },
+        required: ['id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'defect_statistics',
+      description: 'Count defects matching the filters, grouped by a field, with an optional trend over time.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...FILTER_PROPERTIES,
+          groupBy: { type: 'string', enum: GROUP_BY, description: 'Defaults to severity' },
+          interval: { type: 'string', enum: INTERVALS, description: 'Bucket detections per period for a trend' },
+        },
+      },
+    },
+  },
+];
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Invalid filter values are reported back so the model can correct them
+function parseFilter(args: Record<string, unknown>): { filter: DefectFilter; error?: string } {
+  const filter: DefectFilter = {
+    site: asString(args.site),
+    severity: asString(args.severity)?.toLowerCase() as DefectSeverity | undefined,
+    status: asString(args.status)?.toLowerCase() as DefectStatus | undefined,
+    type: asString(args.type),
+    from: asString(args.from),
+    to: asString(args.to),
+  };
+  if (filter.severity && !DEFECT_SEVERITIES.includes(filter.severity)) {
+    return { filter, error: `severity must be one of ${DEFECT_SEVERITIES.join(', ')}` };
+  }
+  if (filter.status && !DEFECT_STATUSES.includes(filter.status)) {
+    return { filter, error: `status must be one of ${DEFECT_STATUSES.join(', ')}` };
+  }
+  if ([filter.from, filter.to].some(date => date && isNaN(Date.parse(date)))) {
+    return { filter, error: 'from and to must be ISO 8601 dates' };
+  }
+  return { filter };
+}
+
+function briefDefect(defect: DefectRecord) {
+  return {
+    id: defect.id,
+    type: defect.type,
+    severity: defect.severity,
+    status: defect.status,
+    site: defect.site ?? null,
+    location: defect.location,
+    detectedAt: defect.timestamp,
+    confidence: defect.confidence ?? null,
+    description: defect.description.length > DESCRIPTION_CHARS
+      ? `${defect.description.slice(0, DESCRIPTION_CHARS)}...`
+      : defect.description,
+  };
+}
+
+function periodStart(timestamp: string, interval: Interval): string {
+  const date = new Date(timestamp);
+  if (interval === 'month') return date.toISOString().slice(0, 7);
+  if (interval === 'week') {
+    // Weeks start on Monday (UTC)
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  return items.reduce<Record<string, number>>((counts, item) => {
+    const value = key(item);
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+}
+
+async function queryDefects(organizationId: string, args: Record<string, unknown>): Promise<object> {
+  const { filter, error } = parseFilter(args);
+  if (error) return { error };
+  const limit = typeof args.limit === 'number' ? Math.min(MAX_LIMIT, Math.max(1, Math.floor(args.limit))) : DEFAULT_LIMIT;
+  const defects = await listDefects(organizationId, filter);
+  return { total: defects.length, returned: Math.min(limit, defects.length), defects: defects.slice(0, limit).map(briefDefect) };
+}
+
+async function getDefectAnalysis(organizationId: string, args: Record<string, unknown>): Promise<object> {
+  const id = asString(args.id);
+  if (!id) return { error: 'id is required' };
+  const defect = await getDefect(organizationId, id);
+  if (!defect) return { error: `No defect with id ${id}` };
+  return { ...defect, organizationId: undefined };
+}
+
+async function defectStatistics(organizationId: string, args: Record<string, unknown>): Promise<object> {
+  const { filter, error } = parseFilter(args);
+  if (error) return { error };
+  const groupBy = GROUP_BY.includes(args.groupBy as GroupBy) ? args.groupBy as GroupBy : 'severity';
+  const interval = INTERVALS.includes(args.interval as Interval) ? args.interval as Interval : undefined;
+
+  const defects = await listDefects(organizationId, filter);
+  const counts = countBy(defects, defect => (groupBy === 'site' ? defect.site : defect[groupBy]) ?? 'unassigned');
+  if (!interval) return { total: defects.length, groupBy, counts };
+
+  const periods = countBy(defects, defect => periodStart(defect.timestamp, interval));
+  const trend = Object.keys(periods).sort().map(period => ({
+    period,
+    total: periods[period],
+    ...countBy(defects.filter(d => periodStart(d.timestamp, interval) === period), d => d.severity),
+  }));
+  const [previous, latest] = trend.slice(-2);
+  return {
+    total: defects.length,
+    groupBy,
+    counts,
+    interval,
+    trend,
+    // Change from the previous period with detections to the latest one
+    ...(latest && previous && { change: latest.total - previous.total }),
+  };
+}
+
+function resultDefectIds(result: object): string[] {
+  if ('defects' in result && Array.isArray(result.defects)) {
+    return result.defects.map((defect: { id: string }) => defect.id);
+  }
+  return 'id' in result && typeof result.id === 'string' ? [result.id] : [];
+}
+
+const EXECUTORS: Record<string, (organizationId: string, args: Record<string, unknown>) => Promise<object>> = {
+  query_defects: queryDefects,
+  get_defect_analysis: getDefectAnalysis,
+  defect_statistics: defectStatistics,
+};
+
+function parseArguments(rawArguments: string): Record<string, unknown> | null {
+  try {
+    const args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    return args && typeof args === 'object' && !Array.isArray(args) ? args : null;
+  } catch {
+    return null;
+  }
+}
+
+// Run a tool call from the model. Proposals from action tools are collected
+// in `draft`.
+export async function runDefectTool(
+  organizationId: string,
+  name: string,
+  rawArguments: string,
+  draft: ProposedChange[]
+): Promise<DefectToolResult> {
+  const args = parseArguments(rawArguments);
+  if (args && isActionTool(name)) {
+    return runActionTool(organizationId, name, args, draft);
+  }
+
+  const execute = EXECUTORS[name];
+  const result = !execute
+    ? { error: `Unknown tool ${name}` }
+    : args ? await execute(organizationId, args) : { error: 'Arguments must be a JSON object' };
+
+  let content = JSON.stringify(result);
+  if (content.length > MAX_RESULT_CHARS) {
+    content = JSON.stringify({ truncated: true, partialResult: content.slice(0, MAX_RESULT_CHARS) });
+  }
+  return { content, defectIds: resultDefectIds(result) };
+}
@@ -0,0 +1,241 @@
+// Registry of inspectable plant components. Solar modules go through the
+// hotspot pipeline; every other type is analysed by the vision model with
+// its own checklist, defect taxonomy and severity rules. Shared by the API
+// routes, batch jobs and the upload UI.
+
+export type InspectionComponentType =
+  | 'battery'
+  | 'inverter'
+  | 'combiner-box'
+  | 'connector-cable'
+  | 'string-fuse'
+  | 'transformer-switchgear'
+  | 'tracker-drive'
+  | 'mounting-structure';
+
+export type ComponentType = 'solar' | InspectionComponentType;
+
+export type ComponentSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface DefectCategory {
+  id: string;
+  label: string;
+  // Severity rules: the model's rating is raised to at least `minSeverity`,
+  // and `safety` categories are always flagged as a risk to people
+  minSeverity: ComponentSeverity;
+  safety: boolean;
+}
+
+export interface ComponentDefinition {
+  label: string;
+  // Lower-case filename fragments that identify the component in uploads
+  keywords: string[];
+  checklist: string[];
+  categories: DefectCategory[];
+}
+
+const OTHER: DefectCategory = { id: 'other', label: 'Other', minSeverity: 'low', safety: false };
+
+// Any finding flagged as a safety risk is at least this severe
+const SAFETY_MIN_SEVERITY: ComponentSeverity = 'high';
+
+const SEVERITY_RANK: Record<ComponentSeverity, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+export const COMPONENT_REGISTRY: Record<InspectionComponentType, ComponentDefinition> = {
+  battery: {
+    label: 'Battery',
+    keywords: ['battery', 'bess'],
+    checklist: [
+      'Thermal anomalies or hot spots',
+      'Physical damage or corrosion',
+      'Improper connections or loose terminals',
+      'Swelling or deformation',
+      'Electrolyte leakage',
+    ],
+    categories: [
+      { id: 'thermal-anomaly', label: 'Thermal anomaly', minSeverity: 'medium', safety: false },
+      { id: 'physical-damage', label: 'Physical damage', minSeverity: 'medium', safety: false },
+      { id: 'corrosion', label: 'Corrosion', minSeverity: 'low', safety: false },
+      { id: 'loose-connection', label: 'Loose connection', minSeverity: 'medium', safety: false },
+      { id: 'swelling', label: 'Swelling', minSeverity: 'high', safety: true },
+      { id: 'electrolyte-leak', label: 'Electrolyte leak', minSeverity: 'high', safety: true },
+      OTHER,
+    ],
+  },
+  inverter: {
+    label: 'Inverter',
+    keywords: ['inverter'],
+    checklist: [
+      'Overheating signs or thermal stress',
+      'Component damage or burn marks',
+      'Dust accumulation affecting cooling',
+      'Front-panel display text, fault codes and status LED states',
+      'Cable or connection issues',
+    ],
+    categories: [
+      { id: 'overheating', label: 'Overheating', minSeverity: 'medium', safety: false },
+      { id: 'component-damage', label: 'Component damage', minSeverity: 'medium', safety: false },
+      { id: 'burn-mark', label: 'Burn mark', minSeverity: 'high', safety: true },
+      { id: 'dust-accumulation', label: 'Dust accumulation', minSeverity: 'low', safety: false },
+      { id: 'indicator-fault', label: 'Indicator fault', minSeverity: 'medium', safety: false },
+      { id: 'cable-connection', label: 'Cable or connection issue', minSeverity: 'medium', safety: false },
+      OTHER,
+    ],
+  },
+  'combiner-box': {
+    label: 'DC combiner box',
+    keywords: ['combiner', 'cbx'],
+    checklist: [
+      'Burn marks, melting or discolouration on busbars, fuse holders and terminals',
+      'Water ingress, condensation or corrosion inside the enclosure',
+      'Damaged, missing or unsealed cable glands',
+      'Blown or missing string fuses, tripped breakers or surge protection devices',
+      'Enclosure damage, missing covers or warning labels',
+    ],
+    categories: [
+      { id: 'burn-mark', label: 'Burn mark', minSeverity: 'critical', safety: true },
+      { id: 'water-ingress', label: 'Water ingress', minSeverity: 'high', safety: true },
+      { id: 'corrosion', label: 'Corrosion', minSeverity: 'medium', safety: false },
+      { id: 'gland-seal', label: 'Cable gland or seal defect', minSeverity: 'medium', safety: false },
+      { id: 'protection-device', label: 'Fuse, breaker or SPD fault', minSeverity: 'medium', safety: false },
+      { id: 'enclosure-damage', label: 'Enclosure damage', minSeverity: 'medium', safety: false },
+      { id: 'missing-labels', label: 'Missing warning labels', minSeverity: 'low', safety: false },
+      OTHER,
+    ],
+  },
+  'connector-cable': {
+    label: 'MC4 connector / cable run',
+    keywords: ['mc4', 'connector', 'cable'],
+    checklist: [
+      'Melted, discoloured or scorched connector housings',
+      'Connectors not fully mated, mismatched brands or missing locking clips',
+      'Cracked, UV-degraded or abraded cable insulation',
+      'Cables hanging loose, lying on the ground or crossing sharp edges',
+      'Rodent damage',
+    ],
+    categories: [
+      { id: 'melted-connector', label: 'Melted connector', minSeverity: 'critical', safety: true },
+      { id: 'improper-mating', label: 'Improper mating or mismatch', minSeverity: 'high', safety: false },
+      { id: 'insulation-damage', label: 'Insulation damage', minSeverity: 'high', safety: true },
+      { id: 'cable-management', label: 'Poor cable management', minSeverity: 'low', safety: false },
+      { id: 'rodent-damage', label: 'Rodent damage', minSeverity: 'high', safety: true },
+      OTHER,
+    ],
+  },
+  'string-fuse': {
+    label: 'String fuse',
+    keywords: ['fuse'],
+    checklist: [
+      'Blown fuse indicators',
+      'Discoloured or melted fuse bodies and holders',
+      'Wrong fuse rating compared with the holder or neighbouring strings',
+      'Loose or corroded fuse holder contacts',
+    ],
+    categories: [
+      { id: 'blown-fuse', label: 'Blown fuse', minSeverity: 'medium', safety: false },
+      { id: 'overheated-holder', label: 'Overheated holder', minSeverity: 'high', safety: true },
+      { id: 'wrong-rating', label: 'Wrong fuse rating', minSeverity: 'high', safety: true },
+      { id: 'contact-corrosion', label: 'Contact corrosion', minSeverity: 'medium', safety: false },
+      OTHER,
+    ],
+  },
+  'transformer-switchgear': {
+    label: 'Transformer / switchgear',
+    keywords: ['transformer', 'switchgear', 'substation'],
+    checklist: [
+      'Oil leaks, stains or low oil level indicators',
+      'Cracked or tracked bushings and insulators',
+      'Corrosion on tank, radiators and earthing connections',
+      'Overheated terminations or discoloured busbars',
+      'Gauge readings (temperature, pressure, oil level) out of range',
+      'Damaged fencing, doors or missing danger signage',
+    ],
+    categories: [
+      { id: 'oil-leak', label: 'Oil leak', minSeverity: 'high', safety: true },
+      { id: 'bushing-damage', label: 'Bushing or insulator damage', minSeverity: 'high', safety: true },
+      { id: 'corrosion', label: 'Corrosion', minSeverity: 'medium', safety: false },
+      { id: 'overheated-termination', label: 'Overheated termination', minSeverity: 'critical', safety: true },
+      { id: 'gauge-out-of-range', label: 'Gauge out of range', minSeverity: 'medium', safety: false },
+      { id: 'access-security', label: 'Access or signage defect', minSeverity: 'medium', safety: true },
+      OTHER,
+    ],
+  },
+  'tracker-drive': {
+    label: 'Single-axis tracker drive',
+    keywords: ['tracker', 'slew', 'actuator'],
+    checklist: [
+      'Rows stowed at a different angle from their neighbours',
+      'Slew drive or actuator oil leaks and damaged seals',
+      'Worn, bent or disconnected driveline and torque tube couplings',
+      'Controller enclosure damage or fault indicators',
+      'Damaged motor cabling',
+    ],
+    categories: [
+      { id: 'misalignment', label: 'Row misalignment', minSeverity: 'medium', safety: false },
+      { id: 'drive-leak', label: 'Drive lubricant leak', minSeverity: 'medium', safety: false },
+      { id: 'driveline-damage', label: 'Driveline damage', minSeverity: 'high', safety: false },
+      { id: 'controller-fault', label: 'Controller fault', minSeverity: 'medium', safety: false },
+      { id: 'motor-cabling', label: 'Motor cabling damage', minSeverity: 'medium', safety: false },
+      OTHER,
+    ],
+  },
+  'mounting-structure': {
+    label: 'Mounting structure',
+    keywords: ['mounting', 'racking', 'structure', 'pile'],
+    checklist: [
+      'Corrosion on piles, rails and fasteners',
+      'Missing, loose or broken module clamps and bolts',
+      'Bent, deformed or cracked members',
+      'Foundation erosion, heave or tilted piles',
+      'Missing or damaged earthing bonds',
+    ],
+    categories: [
+      { id: 'corrosion', label: 'Corrosion', minSeverity: 'low', safety: false },
+      { id: 'loose-fastener', label: 'Loose or missing fastener', minSeverity: 'medium', safety: false },
+      { id: 'structural-deformation', label: 'Structural deformation', minSeverity: 'high', safety: true },
+      { id: 'foundation', label: 'Foundation defect', minSeverity: 'high', safety: false },
+      { id: 'earthing', label: 'Earthing defect', minSeverity: 'high', safety: true },
+      OTHER,
+    ],
+  },
+};
+
+export const INSPECTION_COMPONENT_TYPES = Object.keys(COMPONENT_REGISTRY) as InspectionComponentType[];
+export const COMPONENT_TYPES: ComponentType[] = ['solar', ...INSPECTION_COMPONENT_TYPES];
+
+export function isInspectionComponentType(value: unknown): value is InspectionComponentType {
+  return INSPECTION_COMPONENT_TYPES.includes(value as InspectionComponentType);
+}
+
+export function isComponentType(value: unknown): value is ComponentType {
+  return COMPONENT_TYPES.includes(value as ComponentType);
+}
+
+export function componentLabel(type: ComponentType): string {
+  return type === 'solar' ? 'Solar panel' : COMPONENT_REGISTRY[type].label;
+}
+
+// Filename convention for uploads without an explicit type: the first
+// registered keyword found in the name wins, solar modules otherwise
+export function inferComponentType(filename: string): ComponentType {
+  const name = filename.toLowerCase();
+  return INSPECTION_COMPONENT_TYPES.find(type => COMPONENT_REGISTRY[type].keywords.some(k => name.includes(k))) ?? 'solar';
+}
+
+// Apply the registry's severity rules to a model-rated finding. Unknown
+// categories are reported as 'other'.
+export function applySeverityRules(
+  type: InspectionComponentType,
+  categoryId: string,
+  severity: ComponentSeverity,
+  safety: boolean
+): { category: string; severity: ComponentSeverity; safety: boolean } {
+  const category = COMPONENT_REGISTRY[type].categories.find(c => c.id === categoryId) ?? OTHER;
+  const flagged = safety || category.safety;
+  const floors = [severity, category.minSeverity, ...(flagged ? [SAFETY_MIN_SEVERITY] : [])];
+  return {
+    category: category.id,
+    severity: floors.reduce((worst, s) => SEVERITY_RANK[s] > SEVERITY_RANK[worst] ? s : worst),
+    safety: flagged,
+  };
+}
@@ -0,0 +1,490 @@
+import {
+  array,
+  boolean,
+  file,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+  Infer,
+} from '@/lib/ai/schema';
+import type { AIProviderName } from '@/lib/ai/provider';
+import type { ResponseValidation } from '@/lib/ai/structured';
+import type { VisualProjection } from '@/lib/analysis/paired';
+import type { ThermalClassification } from '@/lib/thermal/classification';
+import type { GeoPosition } from '@/lib/thermal/georeference';
+import type { HotspotLocation } from '@/lib/thermal/grid';
+import type { TemperatureStats } from '@/lib/thermal/radiometric';
+import type { Registration } from '@/lib/thermal/registration';
+import type { VisualDefect } from '@/lib/visual/taxonomy';
+
+// Request contracts of the JSON API routes, shared by the dashboard
+// (lib/api.ts and the components that call the routes) and the routes
+// themselves. Routes check every body against its schema (lib/validation.ts)
+// and answer 400 with the list of field problems; the client sends the
+// inferred types, so both sides change together.
+
+export const DEFECT_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+export const DEFECT_STATUSES = ['new', 'in-progress', 'resolved'] as const;
+
+export type DefectSeverity = typeof DEFECT_SEVERITIES[number];
+export type DefectStatus = typeof DEFECT_STATUSES[number];
+
+export const DEFECT_ID_PATTERN = /^defect-[A-Za-z0-9-]{1,64}$/;
+
+const isoDate = refine(string(), value => !isNaN(Date.parse(value)), 'must be an ISO date');
+
+// Defect register (/api/defects)
+
+export const defectQuerySchema = object({
+  site: optional(string()),
+  severity: optional(oneOf(DEFECT_SEVERITIES)),
+  status: optional(oneOf(DEFECT_STATUSES)),
+  type: optional(string()),
+  from: optional(isoDate),
+  to: optional(isoDate),
+});
+
+export const defectUpdateSchema = object({
+  type: optional(string()),
+  severity: optional(oneOf(DEFECT_SEVERITIES)),
+  status: optional(oneOf(DEFECT_STATUSES)),
+  assignee: optional(string()),
+  site: optional(string()),
+  location: optional(string()),
+  description: optional(string()),
+});
+
+export const defectInputSchema = object({
+  id: optional(refine(string(), value => DEFECT_ID_PATTERN.test(value), 'must look like defect-<letters, digits and dashes>')),
+  type: string(),
+  severity: oneOf(DEFECT_SEVERITIES),
+  status: oneOf(DEFECT_STATUSES),
+  assignee: optional(string()),
+  site: optional(string()),
+  location: string(),
+  gpsLat: optional(number({ min: -90, max: 90 })),
+  gpsLng: optional(number({ min: -180, max: 180 })),
+  description: string(),
+  timestamp: isoDate,
+  analysis: optional(record()),
+  confidence: optional(number({ min: 0 })),
+});
+
+export type DefectQuery = Infer<typeof defectQuerySchema>;
+export type DefectUpdateRequest = Infer<typeof defectUpdateSchema>;
+export type DefectInputRequest = Infer<typeof defectInputSchema>;
+
+// Languages of summaries and assistant answers. Requests without one use
+// the user's profile default (/api/profile).
+
+export const LANGUAGES = ['en', 'gu', 'hi', 'mr', 'ta'] as const;
+export type Language = typeof LANGUAGES[number];
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  gu: 'ગુજરાતી (Gujarati)',
+  hi: 'हिन्दी (Hindi)',
+  mr: 'मराठी (Marathi)',
+  ta: 'தமிழ் (Tamil)',
+};
+
+// Defect summaries (/api/analyze/summarize)
+
+export const SUMMARY_TYPES = ['executive', 'technical', 'maintenance'] as const;
+export type SummaryType = typeof SUMMARY_TYPES[number];
+
+// ai: a model writes the summary (falling back to the templates when it
+// fails); template: only the organization's templates, without a model
+export const SUMMARY_GENERATORS = ['ai', 'template'] as const;
+export type SummaryGenerator = typeof SUMMARY_GENERATORS[number];
+
+export const summarizeRequestSchema = object({
+  defects: array(object({
+    // Cited by the summary statements
+    id: string({ minLength: 1 }),
+    site: optional(string()),
+    type: string(),
+    severity: oneOf(DEFECT_SEVERITIES),
+    location: string(),
+    description: string(),
+    timestamp: string(),
+  })),
+  projectName: optional(string()),
+  summaryType: optional(oneOf(SUMMARY_TYPES)),
+  language: optional(oneOf(LANGUAGES)),
+  generator: optional(oneOf(SUMMARY_GENERATORS)),
+});
+
+export type SummarizeRequest = Infer<typeof summarizeRequestSchema>;
+export type SummaryDefect = SummarizeRequest['defects'][number];
+
+// One claim of a summary and the defects it is based on
+export interface SummaryStatement {
+  text: string;
+  defectIds: string[];
+}
+
+// A claim removed because it could not be traced to the input defects
+export interface StrippedStatement {
+  text: string;
+  reason: string;
+}
+
+// Defects of one site, block and type, summarized together when the input
+// is too large for one prompt
+export interface SummaryGroup {
+  key: string; // "site / block / type"
+  site: string | null;
+  block: string; // module row or first part of the location
+  type: string;
+  defects: number;
+  // partial: some chunks of a large group failed
+  status: 'covered' | 'partial' | 'failed';
+}
+
+export interface SummaryResult {
+  // The kept statements as one text
+  summary: string;
+  statements: SummaryStatement[];
+  metadata: {
+    summaryType: SummaryType;
+    language: Language; // of the statements
+    projectName?: string;
+    totalDefects: number;
+    overallSeverity: DefectSeverity;
+    actionItems: string[];
+    generatedAt: string;
+    generator: SummaryGenerator;
+    // Model summaries only
+    provider?: AIProviderName;
+    model?: string;
+    promptVersion?: string;
+    // Template summaries only: whose templates were used, why no model
+    // wrote the summary when one was asked for, and the language asked for
+    // when the template is written in another
+    template?: { source: 'default' | 'organization'; fallbackReason?: string; requestedLanguage?: Language };
+    validation: ResponseValidation;
+    stripped: StrippedStatement[];
+    // single: one prompt; map-reduce: groups summarized, then synthesized
+    strategy: 'single' | 'map-reduce';
+    levels: number; // model call levels
+    groups: SummaryGroup[];
+  };
+}
+
+// Summary templates (/api/summary-templates). Each rule whose `when`
+// conditions hold becomes a statement: `{name}` placeholders are replaced by
+// the values below and the statement cites the `cite` defect set, e.g.
+// { when: 'critical > 0', text: '{critical} critical defect(s) at {criticalLocations}.', cite: 'critical' }.
+
+export const TEMPLATE_NUMBERS = [
+  'total', 'critical', 'high', 'medium', 'low',
+  'urgent', // critical and high
+  'routine', // medium and low
+  'types', 'sites', 'topTypeCount', 'topBlockCount', 'topSiteCount',
+] as const;
+export const TEMPLATE_TEXTS = [
+  'projectName', 'overallSeverity', 'firstDate', 'lastDate', 'topType', 'topBlock', 'topSite',
+  'typeList', 'criticalLocations', 'highLocations', 'urgentLocations',
+] as const;
+export const TEMPLATE_CITATIONS = ['all', 'critical', 'high', 'urgent', 'routine', 'top-type', 'top-block', 'top-site'] as const;
+
+export type TemplateNumber = typeof TEMPLATE_NUMBERS[number];
+export type TemplateText = typeof TEMPLATE_TEXTS[number];
+export type TemplateCitation = typeof TEMPLATE_CITATIONS[number];
+
+export const TEMPLATE_PLACEHOLDER = /\{(\w+)\}/g;
+// One clause of a `when`; clauses are joined by &&
+export const TEMPLATE_CONDITION = /^(\w+)\s*(>=|<=|==|!=|>|<)\s*(\d+)$/;
+
+const MAX_TEMPLATE_RULES = 20;
+
+function knownPlaceholders(text: string): boolean {
+  const names: readonly string[] = [...TEMPLATE_NUMBERS, ...TEMPLATE_TEXTS];
+  return Array.from(text.matchAll(TEMPLATE_PLACEHOLDER)).every(match => names.includes(match[1]));
+}
+
+function validCondition(when: string): boolean {
+  const names: readonly string[] = TEMPLATE_NUMBERS;
+  return when.split('&&').every(clause => {
+    const match = clause.trim().match(TEMPLATE_CONDITION);
+    return !!match && names.includes(match[1]);
+  });
+}
+
+export const summaryTemplateSchema = object({
+  // Language the rules are written in
+  language: optional(oneOf(LANGUAGES)),
+  rules: refine(array(object({
+    text: refine(string({ minLength: 1 }), knownPlaceholders, `placeholders must be one of ${[...TEMPLATE_NUMBERS, ...TEMPLATE_TEXTS].join(', ')}`),
+    when: optional(refine(string({ minLength: 1 }), validCondition, `must look like "critical > 0" with one of ${TEMPLATE_NUMBERS.join(', ')}, clauses joined by &&`)),
+    cite: optional(oneOf(TEMPLATE_CITATIONS)),
+  }), { maxItems: MAX_TEMPLATE_RULES }), rules => rules.length > 0, 'must have at least one rule'),
+});
+
+export const summaryTemplateRequestSchema = object({
+  summaryType: oneOf(SUMMARY_TYPES),
+  template: summaryTemplateSchema,
+});
+
+export type SummaryTemplate = Infer<typeof summaryTemplateSchema>;
+export type SummaryTemplateRule = SummaryTemplate['rules'][number];
+export type SummaryTemplateRequest = Infer<typeof summaryTemplateRequestSchema>;
+
+// Report exports (/api/reports/pdf and /api/reports/csv)
+
+export const REPORT_TYPES = ['comprehensive', 'defects', 'maintenance', 'executive'] as const;
+export const REPORT_DATE_RANGES = ['today', 'last-7-days', 'last-30-days', 'last-90-days', 'custom'] as const;
+
+export type ReportType = typeof REPORT_TYPES[number];
+export type ReportDateRange = typeof REPORT_DATE_RANGES[number];
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  comprehensive: 'Comprehensive Analysis',
+  defects: 'Defects Summary',
+  maintenance: 'Maintenance Report',
+  executive: 'Executive Summary',
+};
+
+export const REPORT_DATE_RANGE_LABELS: Record<ReportDateRange, string> = {
+  'today': 'Today',
+  'last-7-days': 'Last 7 Days',
+  'last-30-days': 'Last 30 Days',
+  'last-90-days': 'Last 90 Days',
+  'custom': 'Custom Range',
+};
+
+export const reportRequestSchema = object({
+  dateRange: oneOf(REPORT_DATE_RANGES),
+  reportType: oneOf(REPORT_TYPES),
+  // Logged dashboard defects to export; coordinates come from georeferenced hotspots
+  defects: optional(array(object({
+    type: string(),
+    severity: oneOf(DEFECT_SEVERITIES),
+    location: string(),
+    timestamp: isoDate,
+    gpsLat: optional(number()),
+    gpsLng: optional(number()),
+  }))),
+});
+
+export type ReportRequest = Infer<typeof reportRequestSchema>;
+
+// Hotspot analysis (/api/analyze/hotspot). The multipart fields the route
+// reads itself; analysis settings (engine, thresholds, overlay) are parsed by
+// parseHotspotSettings. Stitched GeoTIFF orthomosaics may be larger than
+// single frames.
+
+export const HOTSPOT_IMAGE_FORMATS = ['jpeg', 'jpg', 'png', 'tiff', 'tif', 'bmp'] as const;
+export const HOTSPOT_MOSAIC_FORMATS = ['tiff', 'tif'] as const;
+export const HOTSPOT_MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const HOTSPOT_MAX_MOSAIC_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+
+export const hotspotUploadSchema = object({
+  image: file({
+    formats: HOTSPOT_IMAGE_FORMATS,
+    maxSize: extension => (HOTSPOT_MOSAIC_FORMATS as readonly string[]).includes(extension)
+      ? HOTSPOT_MAX_MOSAIC_FILE_SIZE
+      : HOTSPOT_MAX_FILE_SIZE,
+  }),
+  // RGB frame captured alongside the thermal one by a dual-sensor camera
+  visualImage: optional(file({ formats: HOTSPOT_IMAGE_FORMATS, maxSize: HOTSPOT_MAX_FILE_SIZE })),
+  // Re-run the analysis even when a cached result exists
+  refresh: optional(oneOf(['true', 'false'] as const)),
+});
+
+export type HotspotUpload = Infer<typeof hotspotUploadSchema>;
+
+// What analyzeHotspotImage and analyzeThermalVisualPair return; the route
+// adds the cache status
+export interface HotspotAnalysisResult {
+  // Absent when the image was not recognised as thermal
+  requestId?: string;
+  hotspots: Array<{
+    x: number;
+    y: number;
+    intensity: number;
+    radius: number;
+    temperature?: TemperatureStats | null;
+    classification?: ThermalClassification;
+    bbox?: { x: number; y: number; width: number; height: number };
+    location?: HotspotLocation | null;
+    geo?: GeoPosition | null;
+    // Mosaic tiles the hotspot was detected in, when it straddles a seam
+    tiles?: number[];
+    visual?: VisualProjection;
+    defect?: VisualDefect;
+  }>;
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'none';
+  confidence: number; // 0-1
+  annotatedImage?: string;
+  // Paired uploads: the same markers drawn on the RGB frame
+  annotatedVisualImage?: string;
+  metadata: {
+    totalHotspots: number;
+    // °C; measured for radiometric files, estimated otherwise
+    maxTemperature: number | null;
+    minTemperature?: number | null;
+    avgTemperature?: number | null;
+    temperatureSource?: 'radiometric' | 'estimated';
+    detectionEngine?: 'llm' | 'local' | 'cross-check' | 'local-fallback';
+    affectedArea: number;
+    imageType?: 'thermal' | 'visual';
+    dimensions?: { width: number; height: number };
+    processingTime?: string;
+    timestamp?: string;
+    // Why the result is empty or came from the fallback detector
+    message?: string;
+    analysis?: string;
+    recommendations?: string[];
+    // Null when the local detector produced the result
+    aiProvider?: AIProviderName | null;
+    aiModel?: string | null;
+    promptVersion?: string | null;
+    validation?: ResponseValidation;
+    tiling?: {
+      tileSize: number;
+      overlap: number;
+      tiles: number;
+      nonThermalTiles: number;
+      failedTiles: number[];
+      seamMerges: number;
+    };
+    visualInspection?: {
+      counts: Record<VisualDefect['type'], number>;
+      // Defect types the engine that ran can report
+      coveredTypes: VisualDefect['type'][];
+    };
+    pairing?: {
+      visualDimensions: { width: number; height: number };
+      swapped: boolean;
+      fieldOfView: { thermal: number | null; visual: number | null };
+      registration: Registration;
+      crossReference: {
+        surfaceObstruction: number;
+        cellFailure: number;
+        unchecked: number;
+        defects: Record<VisualDefect['type'], number>;
+        summary: string;
+      };
+    };
+  };
+}
+
+// Annotated overlays (/api/analyze/hotspot/overlay). The `result` field is a
+// stored hotspot result; only the parts drawn on the image are checked and
+// kept, so every coordinate reaching the SVG is a finite number.
+
+export const OVERLAY_STYLES = ['circle', 'box'] as const;
+export const OVERLAY_SEVERITIES = ['critical', 'high', 'medium', 'low', 'none', 'unknown'] as const;
+export const OVERLAY_MAX_HOTSPOTS = 1000;
+
+export const overlayHotspotSchema = object({
+  x: number({ min: 0, max: 100 }), // percent
+  y: number({ min: 0, max: 100 }), // percent
+  radius: number({ min: 0 }), // pixels
+  intensity: number({ min: 0, max: 100 }),
+  bbox: optional(object({
+    x: number({ min: 0 }),
+    y: number({ min: 0 }),
+    width: number({ min: 0 }),
+    height: number({ min: 0 }),
+  })),
+  temperature: optional(object({ min: number(), max: number(), mean: number() })),
+  classification: optional(object({
+    anomalyClass: optional(string({ maxLength: 32 })),
+    severity: optional(oneOf(OVERLAY_SEVERITIES)),
+  })),
+  location: optional(object({ label: string({ maxLength: 128 }) })),
+});
+
+export const overlayResultSchema = object({
+  hotspots: array(overlayHotspotSchema, { maxItems: OVERLAY_MAX_HOTSPOTS }),
+  // Unknown severities are drawn as 'unknown'
+  severity: optional(string()),
+  metadata: optional(object({
+    minTemperature: optional(number()),
+    maxTemperature: optional(number()),
+    temperatureSource: optional(string()),
+  })),
+});
+
+export type OverlayHotspotInput = Infer<typeof overlayHotspotSchema>;
+export type OverlayResultInput = Infer<typeof overlayResultSchema>;
+
+// Defect assistant (/api/chat/defects and /api/chat/defects/actions)
+
+export const CHAT_MESSAGE_MAX_LENGTH = 4000;
+
+export const chatRequestSchema = object({
+  message: string({ minLength: 1, maxLength: CHAT_MESSAGE_MAX_LENGTH }),
+  threadId: optional(string()),
+  site: optional(string()),
+  language: optional(oneOf(LANGUAGES)),
+});
+
+export const chatDecisionSchema = object({
+  changeSetId: string({ minLength: 1 }),
+  decision: oneOf(['confirm', 'reject'] as const),
+  threadId: optional(string()),
+});
+
+export type ChatRequest = Infer<typeof chatRequestSchema>;
+export type ChatDecisionRequest = Infer<typeof chatDecisionSchema>;
+
+// User profile (/api/profile)
+
+export interface UserProfile {
+  language: Language; // default for summaries and the defect assistant
+}
+
+export const profileUpdateSchema = object({
+  language: optional(oneOf(LANGUAGES)),
+});
+
+export type ProfileUpdateRequest = Infer<typeof profileUpdateSchema>;
+
+// Inverter fault-code library (/api/fault-codes)
+
+// Names that reach Object.prototype when used as keys of a plain object
+export const RESERVED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+export function isReservedKey(value: string): boolean {
+  return RESERVED_KEYS.includes(value.trim().toLowerCase());
+}
+
+// Manufacturer, model and code are keys of the stored library
+const libraryKey = refine(string({ minLength: 1 }), value => !isReservedKey(value), `must not be ${RESERVED_KEYS.join(', ')}`);
+
+export const faultCodeRequestSchema = object({
+  manufacturer: libraryKey,
+  // '*' for codes shared by every model of the manufacturer
+  model: libraryKey,
+  code: libraryKey,
+  entry: object({
+    message: string(),
+    meaning: string({ minLength: 1 }),
+    remedy: string({ minLength: 1 }),
+    severity: oneOf(DEFECT_SEVERITIES),
+    safety: optional(boolean()),
+  }),
+});
+
+export type FaultCodeRequest = Infer<typeof faultCodeRequestSchema>;
+
+// Accounts (/api/auth/signup)
+
+export const PASSWORD_MIN_LENGTH = 6;
+
+export const signupRequestSchema = object({
+  name: string({ minLength: 1 }),
+  // Not trimmed: the client signs in with exactly what it registered
+  email: string({ minLength: 1, trim: false }),
+  password: string({ minLength: PASSWORD_MIN_LENGTH, trim: false }),
+});
+
+export type SignupRequest = Infer<typeof signupRequestSchema>;
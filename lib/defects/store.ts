@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DefectSeverity, DefectStatus } from '@/lib/contracts';
+
+// Defect register behind the dashboard's defect log and the defect
+// assistant's tools. Records live in data/defects.json, scoped by
+// organization. Image data URLs are dropped on the way in: the dashboard
+// keeps its previews in memory and the register only needs the findings.
+
+// Severities, statuses and request validation are shared with the dashboard
+export { DEFECT_SEVERITIES, DEFECT_STATUSES } from '@/lib/contracts';
+export type { DefectSeverity, DefectStatus };
+
+export interface DefectRecord {
+  id: string;
+  organizationId: string;
+  type: string;
+  severity: DefectSeverity;
+  status: DefectStatus;
+  assignee?: string; // person responsible for the repair
+  site?: string;
+  location: string;
+  gpsLat?: number;
+  gpsLng?: number;
+  description: string;
+  timestamp: string; // when the defect was detected
+  analysis?: Record<string, unknown>; // hotspot or vision result that found it
+  confidence?: number;
+  updatedAt: string;
+}
+
+export type DefectInput = Omit<DefectRecord, 'id' | 'organizationId' | 'updatedAt'> & { id?: string };
+export type DefectUpdate = Partial<Pick<DefectRecord, 'type' | 'severity' | 'status' | 'assignee' | 'site' | 'location' | 'description'>>;
+
+export interface DefectFilter {
+  site?: string; // matches the site, or the location when no site is set
+  severity?: DefectSeverity;
+  status?: DefectStatus;
+  type?: string; // case-insensitive substring of the defect type
+  from?: string; // ISO dates bounding the detection time
+  to?: string;
+}
+
+interface RegisterState {
+  write: Promise<void>;
+}
+
+const REGISTER_FILE = path.join(process.cwd(), 'data', 'defects.json');
+const EDITABLE_FIELDS: Array<keyof DefectUpdate> = ['type', 'severity', 'status', 'assignee', 'site', 'location', 'description'];
+
+// Route handlers can be bundled separately, so the write chain lives on globalThis
+const globalForRegister = globalThis as unknown as { defectRegister?: RegisterState };
+const state: RegisterState = globalForRegister.defectRegister ??= { write: Promise.resolve() };
+
+async function loadRegister(): Promise<DefectRecord[]> {
+  try {
+    return JSON.parse(await fs.readFile(REGISTER_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[DEFECTS] Failed to read defect register:', error);
+    }
+    return [];
+  }
+}
+
+// Register edits are chained and written atomically
+function updateRegister<T>(update: (defects: DefectRecord[]) => { result: T; changed: boolean }): Promise<T> {
+  let outcome: T;
+  const result = state.write.then(async () => {
+    const defects = await loadRegister();
+    const { result: value, changed } = update(defects);
+    outcome = value;
+    if (!changed) return;
+    await fs.mkdir(path.dirname(REGISTER_FILE), { recursive: true });
+    await fs.writeFile(`${REGISTER_FILE}.tmp`, `${JSON.stringify(defects, null, 2)}\n`);
+    await fs.rename(`${REGISTER_FILE}.tmp`, REGISTER_FILE);
+  });
+  state.write = result.catch(error => {
+    console.error('[DEFECTS] Failed to update defect register:', error);
+  });
+  return result.then(() => outcome);
+}
+
+function withoutImages(value: unknown): unknown {
+  if (typeof value === 'string') return value.startsWith('data:') ? undefined : value;
+  if (Array.isArray(value)) return value.map(withoutImages);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .map(([key, entry]) => [key, withoutImages(entry)])
+      .filter(([, entry]) => entry !== undefined));
+  }
+  return value;
+}
+
+function includesText(value: string | undefined, wanted: string): boolean {
+  return !!value && value.toLowerCase().includes(wanted.trim().toLowerCase());
+}
+
+export function matchesDefectFilter(defect: DefectRecord, filter: DefectFilter): boolean {
+  if (filter.site && !includesText(defect.site ?? defect.location, filter.site)) return false;
+  if (filter.severity && defect.severity !== filter.severity) return false;
+  if (filter.status && defect.status !== filter.status) return false;
+  if (filter.type && !includesText(defect.type, filter.type)) return false;
+  if (filter.from && Date.parse(defect.timestamp) < Date.parse(filter.from)) return false;
+  if (filter.to && Date.parse(defect.timestamp) > Date.parse(filter.to)) return false;
+  return true;
+}
+
+// Newest first
+export async function listDefects(organizationId: string, filter: DefectFilter = {}): Promise<DefectRecord[]> {
+  return (await loadRegister())
+    .filter(defect => defect.organizationId === organizationId && matchesDefectFilter(defect, filter))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export async function getDefect(organizationId: string, id: string): Promise<DefectRecord | null> {
+  return (await loadRegister()).find(defect => defect.organizationId === organizationId && defect.id === id) ?? null;
+}
+
+export function newDefectId(): string {
+  return `defect-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Returns null when the organization already has a defect with that id;
+// ids of other organizations' defects do not matter, nor are they revealed
+export function createDefect(organizationId: string, input: DefectInput): Promise<DefectRecord | null> {
+  const id = input.id ?? newDefectId();
+  return updateRegister(defects => {
+    if (defects.some(defect => defect.organizationId === organizationId && defect.id === id)) {
+      return { result: null, changed: false };
+    }
+    const record: DefectRecord = {
+      id,
+      organizationId,
+      type: input.type,
+      severity: input.severity,
+      status: input.status,
+      assignee: input.assignee || undefined,
+      site: input.site || undefined,
+      location: input.location,
+      gpsLat: input.gpsLat,
+      gpsLng: input.gpsLng,
+      description: input.description,
+      timestamp: input.timestamp,
+      analysis: input.analysis && withoutImages(input.analysis) as Record<string, unknown>,
+      confidence: input.confidence,
+      updatedAt: new Date().toISOString(),
+    };
+    defects.push(record);
+    return { result: record, changed: true };
+  });
+}
+
+export function updateDefect(organizationId: string, id: string, updates: DefectUpdate): Promise<DefectRecord | null> {
+  return updateRegister(defects => {
+    const defect = defects.find(d => d.organizationId === organizationId && d.id === id);
+    if (!defect) return { result: null, changed: false };
+    EDITABLE_FIELDS.forEach(field => {
+      if (updates[field] !== undefined) Object.assign(defect, { [field]: updates[field] });
+    });
+    defect.updatedAt = new Date().toISOString();
+    return { result: defect, changed: true };
+  });
+}
+
+export function deleteDefect(organizationId: string, id: string): Promise<boolean> {
+  return updateRegister(defects => {
+    const index = defects.findIndex(d => d.organizationId === organizationId && d.id === id);
+    if (index === -1) return { result: false, changed: false };
+    defects.splice(index, 1);
+    return { result: true, changed: true };
+  });
+}
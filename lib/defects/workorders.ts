@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Work orders raised against defects or plant locations, kept in
+// data/work-orders.json and scoped by organization like the defect register.
+
+export interface WorkOrder {
+  id: string;
+  organizationId: string;
+  title: string;
+  location: string; // module, row or unit the work is for, e.g. "r3c7"
+  defectIds: string[];
+  assignee?: string;
+  notes?: string;
+  status: 'open' | 'closed';
+  createdAt: string;
+}
+
+export type WorkOrderInput = Pick<WorkOrder, 'title' | 'location' | 'defectIds' | 'assignee' | 'notes'>;
+
+interface WorkOrderState {
+  write: Promise<void>;
+}
+
+const WORK_ORDER_FILE = path.join(process.cwd(), 'data', 'work-orders.json');
+
+// Route handlers can be bundled separately, so the write chain lives on globalThis
+const globalForWorkOrders = globalThis as unknown as { workOrders?: WorkOrderState };
+const state: WorkOrderState = globalForWorkOrders.workOrders ??= { write: Promise.resolve() };
+
+async function loadWorkOrders(): Promise<WorkOrder[]> {
+  try {
+    return JSON.parse(await fs.readFile(WORK_ORDER_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[WORK ORDERS] Failed to read work orders:', error);
+    }
+    return [];
+  }
+}
+
+// Newest first
+export async function listWorkOrders(organizationId: string): Promise<WorkOrder[]> {
+  return (await loadWorkOrders())
+    .filter(order => order.organizationId === organizationId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Writes are chained and atomic
+export function createWorkOrder(organizationId: string, input: WorkOrderInput): Promise<WorkOrder> {
+  const order: WorkOrder = {
+    id: `wo-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    organizationId,
+    title: input.title,
+    location: input.location,
+    defectIds: input.defectIds,
+    assignee: input.assignee || undefined,
+    notes: input.notes || undefined,
+    status: 'open',
+    createdAt: new Date().toISOString(),
+  };
+  const result = state.write.then(async () => {
+    const orders = await loadWorkOrders();
+    orders.push(order);
+    await fs.mkdir(path.dirname(WORK_ORDER_FILE), { recursive: true });
+    await fs.writeFile(`${WORK_ORDER_FILE}.tmp`, `${JSON.stringify(orders, null, 2)}\n`);
+    await fs.rename(`${WORK_ORDER_FILE}.tmp`, WORK_ORDER_FILE);
+  });
+  state.write = result.catch(error => {
+    console.error('[WORK ORDERS] Failed to save work order:', error);
+  });
+  return result.then(() => order);
+}
@@ -0,0 +1,400 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  analyzeHotspotImage,
+  hotspotCacheParams,
+  hotspotTask,
+  isCacheableHotspotResult,
+  HotspotAnalysisSettings,
+  InvalidImageError,
+} from '@/lib/analysis/hotspot';
+import {
+  analyzeComponentImage,
+  decodeDisplayedFaultCodes,
+  isCacheableVisionResult,
+  visionCacheParams,
+  VisionAnalysis,
+} from '@/lib/analysis/vision';
+import { inferComponentType, ComponentType } from '@/lib/components';
+import { DEFAULT_ORGANIZATION_ID } from '@/lib/auth';
+import { withResultCache } from '@/lib/analysis/cache';
+import { resolveAIModel } from '@/lib/ai/config';
+import type { HotspotAnalysisResult } from '@/lib/contracts';
+
+// Server-side batch analysis for whole drone flights. Uploaded frames and job
+// state are persisted under data/jobs/<jobId>/ so a restart picks up where it
+// left off; frames are analysed with bounded concurrency. Jobs, their progress
+// and results are only visible to the organization that submitted them.
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'completed_with_errors';
+export type BatchItemStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface BatchItemSummary {
+  severity?: string;
+  hotspotCount?: number;
+  findingCount?: number; // component frames analysed by the vision model
+  maxTemperature?: number | null;
+  defectsFound?: boolean;
+  cached?: boolean;
+  nearDuplicateOf?: string; // filename of the earlier, near-identical frame
+  needsReview?: boolean; // the model's answer failed validation
+}
+
+export interface BatchJobItem {
+  index: number;
+  filename: string;
+  file: string; // stored frame, relative to the job directory
+  componentType: ComponentType;
+  imageType: string;
+  status: BatchItemStatus;
+  attempts: number;
+  summary?: BatchItemSummary;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  updatedAt: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  processing: number;
+  pending: number;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  // Submitter's organization, for its AI provider settings
+  organizationId?: string;
+  settings: HotspotAnalysisSettings;
+  progress: BatchProgress;
+  items: BatchJobItem[];
+}
+
+export type BatchJobSummary = Omit<BatchJob, 'items' | 'settings'>;
+
+// A frame in memory, or one already on disk (`path`, e.g. a staged multipart
+// part), which is moved into the job
+export type BatchUpload = { name: string; data: Buffer } | { name: string; path: string };
+
+interface BatchTask {
+  jobId: string;
+  index: number;
+}
+
+interface RunnerState {
+  jobs: Map<string, BatchJob>; // jobs with outstanding work
+  queue: BatchTask[];
+  active: number;
+  resumed: boolean;
+  writes: Map<string, Promise<void>>;
+}
+
+const JOBS_DIR = path.join(process.cwd(), 'data', 'jobs');
+// Multipart submissions are streamed here while they are read; staged files
+// must be on the same volume as the jobs so they can be moved, not copied
+export const UPLOADS_DIR = path.join(JOBS_DIR, 'uploads');
+const MAX_ATTEMPTS = 2;
+const DEFAULT_CONCURRENCY = 2;
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Route handlers can be bundled separately, so the runner lives on globalThis
+// to keep a single queue per server process
+const globalForJobs = globalThis as unknown as { batchRunner?: RunnerState };
+const state: RunnerState = globalForJobs.batchRunner ??= {
+  jobs: new Map(),
+  queue: [],
+  active: 0,
+  resumed: false,
+  writes: new Map(),
+};
+
+function concurrency(): number {
+  const value = parseInt(process.env.BATCH_CONCURRENCY || '', 10);
+  return value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+function jobDir(jobId: string): string {
+  return path.join(JOBS_DIR, jobId);
+}
+
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId);
+}
+
+function computeProgress(items: BatchJobItem[]): BatchProgress {
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+  return {
+    total: items.length,
+    completed: count('completed'),
+    failed: count('failed'),
+    processing: count('processing'),
+    pending: count('pending'),
+  };
+}
+
+function touch(job: BatchJob) {
+  const now = new Date().toISOString();
+  job.progress = computeProgress(job.items);
+  job.updatedAt = now;
+
+  if (job.progress.pending === 0 && job.progress.processing === 0) {
+    job.status = job.progress.failed > 0 ? 'completed_with_errors' : 'completed';
+    job.completedAt ??= now;
+  } else if (job.progress.completed + job.progress.failed + job.progress.processing > 0) {
+    job.status = 'running';
+  }
+}
+
+// Writes are chained per job so concurrent item updates never interleave
+function saveJob(job: BatchJob): Promise<void> {
+  const previous = state.writes.get(job.id) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const target = path.join(jobDir(job.id), 'job.json');
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(job, null, 2));
+    await fs.rename(`${target}.tmp`, target);
+  }).catch(error => {
+    console.error(`[JOBS] Failed to persist job ${job.id}:`, error);
+  });
+  state.writes.set(job.id, next);
+  return next;
+}
+
+async function readJobFile(jobId: string): Promise<BatchJob | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(jobDir(jobId), 'job.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function summarize(result: HotspotAnalysisResult | VisionAnalysis): BatchItemSummary {
+  if (!('hotspots' in result)) {
+    return {
+      severity: result.severity,
+      findingCount: result.findings.length,
+      defectsFound: result.defectsFound,
+      needsReview: result.validation.status === 'needs_review',
+    };
+  }
+  return {
+    severity: result.severity,
+    hotspotCount: result.hotspots.length,
+    maxTemperature: result.metadata.maxTemperature,
+    needsReview: result.metadata.validation?.status === 'needs_review',
+  };
+}
+
+async function processItem(task: BatchTask) {
+  const job = state.jobs.get(task.jobId);
+  const item = job?.items[task.index];
+  if (!job || !item || item.status !== 'pending') return;
+
+  item.status = 'processing';
+  item.attempts++;
+  item.startedAt = new Date().toISOString();
+  item.updatedAt = item.startedAt;
+  touch(job);
+  await saveJob(job);
+
+  try {
+    const buffer = await fs.readFile(path.join(jobDir(job.id), item.file));
+    const settings = { ...job.settings, imageType: item.imageType };
+    const componentType = item.componentType;
+    const organizationId = job.organizationId ?? DEFAULT_ORGANIZATION_ID;
+    const ai = await resolveAIModel(componentType === 'solar' ? hotspotTask(settings) : 'vision', organizationId);
+    const { result, cache } = componentType === 'solar'
+      ? await withResultCache(organizationId, 'hotspot', buffer, hotspotCacheParams(settings, ai),
+          () => analyzeHotspotImage(buffer, { ...settings, requestId: `${job.id}:${item.index}`, ai }),
+          { filename: item.filename, cacheable: isCacheableHotspotResult })
+      : await withResultCache(organizationId, 'vision', buffer, visionCacheParams(componentType, ai),
+          () => analyzeComponentImage(buffer, componentType, ai),
+          { filename: item.filename, cacheable: isCacheableVisionResult })
+          .then(async ({ result, cache }) => ({ result: await decodeDisplayedFaultCodes(result, organizationId), cache }));
+
+    await fs.writeFile(path.join(jobDir(job.id), 'results', `${item.index}.json`), JSON.stringify({ ...result, ...cache }));
+    item.status = 'completed';
+    item.summary = {
+      ...summarize(result),
+      cached: cache.cached,
+      nearDuplicateOf: cache.nearDuplicate?.filename,
+    };
+    item.error = undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[JOBS] ${job.id} item ${item.index} (${item.filename}) failed:`, error);
+
+    if (error instanceof InvalidImageError || item.attempts >= MAX_ATTEMPTS) {
+      item.status = 'failed';
+      item.error = message;
+    } else {
+      // Transient failures (model timeouts, rate limits) go to the back of the queue
+      item.status = 'pending';
+      state.queue.push(task);
+    }
+  }
+
+  item.completedAt = item.status === 'pending' ? undefined : new Date().toISOString();
+  item.updatedAt = new Date().toISOString();
+  touch(job);
+  // Checked before saving: another worker may finish the job while we wait
+  const finished = job.status === 'completed' || job.status === 'completed_with_errors';
+  await saveJob(job);
+
+  if (finished) {
+    state.jobs.delete(job.id);
+    state.writes.delete(job.id);
+    console.log(`[JOBS] Job ${job.id} finished: ${JSON.stringify(job.progress)}`);
+  }
+}
+
+function pump() {
+  while (state.active < concurrency() && state.queue.length > 0) {
+    const task = state.queue.shift() as BatchTask;
+    state.active++;
+    processItem(task)
+      .catch(error => console.error(`[JOBS] Unexpected runner error for ${task.jobId}:`, error))
+      .finally(() => {
+        state.active--;
+        pump();
+      });
+  }
+}
+
+function enqueue(job: BatchJob) {
+  state.jobs.set(job.id, job);
+  job.items
+    .filter(item => item.status === 'pending')
+    .forEach(item => state.queue.push({ jobId: job.id, index: item.index }));
+  pump();
+}
+
+// Frames are written to disk as `uploads` yields them, so a submission is
+// never held in memory as a whole. When the uploads throw part-way (e.g. an
+// archive turns out to be too large), the frames written so far are removed
+// and the error is rethrown.
+export async function createBatchJob(
+  uploads: Iterable<BatchUpload> | AsyncIterable<BatchUpload>,
+  settings: HotspotAnalysisSettings,
+  componentType?: ComponentType,
+  organizationId?: string
+): Promise<BatchJob> {
+  await resumeBatchJobs();
+
+  const id = crypto.randomUUID();
+  const dir = jobDir(id);
+  await fs.mkdir(path.join(dir, 'images'), { recursive: true });
+  await fs.mkdir(path.join(dir, 'results'), { recursive: true });
+
+  const now = new Date().toISOString();
+  const items: BatchJobItem[] = [];
+  try {
+    for await (const upload of uploads) {
+      const index = items.length;
+      const baseName = path.basename(upload.name);
+      const file = path.join('images', `${String(index).padStart(5, '0')}-${baseName.replace(/[^a-zA-Z0-9._-]/g, '_')}`);
+      if ('path' in upload) {
+        await fs.rename(upload.path, path.join(dir, file));
+      } else {
+        await fs.writeFile(path.join(dir, file), upload.data);
+      }
+      items.push({
+        index,
+        filename: baseName,
+        file,
+        componentType: componentType ?? inferComponentType(baseName),
+        imageType: settings.imageType,
+        status: 'pending',
+        attempts: 0,
+        updatedAt: now,
+      });
+    }
+  } catch (error) {
+    await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const job: BatchJob = {
+    id,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    organizationId,
+    settings,
+    progress: computeProgress(items),
+    items,
+  };
+  await saveJob(job);
+  enqueue(job);
+
+  return job;
+}
+
+// Re-queue unfinished work after a restart. Frames that were mid-analysis
+// when the process stopped are retried from scratch.
+export async function resumeBatchJobs(): Promise<void> {
+  if (state.resumed) return;
+  state.resumed = true;
+
+  let jobIds: string[] = [];
+  try {
+    jobIds = (await fs.readdir(JOBS_DIR)).filter(isValidJobId);
+  } catch {
+    return; // No jobs submitted yet
+  }
+
+  for (const jobId of jobIds) {
+    if (state.jobs.has(jobId)) continue;
+    const job = await readJobFile(jobId);
+    if (!job || job.status === 'completed' || job.status === 'completed_with_errors') continue;
+
+    job.items.forEach(item => {
+      if (item.status === 'processing') item.status = 'pending';
+    });
+    touch(job);
+    await saveJob(job);
+    console.log(`[JOBS] Resumed job ${job.id}: ${job.progress.pending} frame(s) pending`);
+    enqueue(job);
+  }
+}
+
+// Jobs submitted before organizations were recorded belong to the default one
+function ownedBy(job: BatchJob, organizationId: string): boolean {
+  return (job.organizationId ?? DEFAULT_ORGANIZATION_ID) === organizationId;
+}
+
+export async function getBatchJob(organizationId: string, jobId: string): Promise<BatchJob | null> {
+  if (!isValidJobId(jobId)) return null;
+  const job = state.jobs.get(jobId) ?? await readJobFile(jobId);
+  return job && ownedBy(job, organizationId) ? job : null;
+}
+
+export async function listBatchJobs(organizationId: string): Promise<BatchJobSummary[]> {
+  let jobIds: string[] = [];
+  try {
+    jobIds = (await fs.readdir(JOBS_DIR)).filter(isValidJobId);
+  } catch {
+    return [];
+  }
+
+  const jobs = await Promise.all(jobIds.map(jobId => getBatchJob(organizationId, jobId)));
+  return jobs
+    .filter((job): job is BatchJob => job !== null)
+    .map(({ id, status, createdAt, updatedAt, completedAt, progress }) => ({ id, status, createdAt, updatedAt, completedAt, progress }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getBatchItemResult(organizationId: string, jobId: string, index: number): Promise<unknown | null> {
+  if (!Number.isInteger(index) || index < 0 || !(await getBatchJob(organizationId, jobId))) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(jobDir(jobId), 'results', `${index}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
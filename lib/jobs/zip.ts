@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import zlib from 'zlib';
+
+// Minimal ZIP reader for flight archives: stored and deflated entries from the
+// central directory. ZIP64 archives (over 4GB or 65535 entries) are rejected.
+// Archives are read from disk: only the central directory and one entry at a
+// time are held in memory. Entries are chosen by name and declared size
+// before anything is inflated, and no entry inflates beyond its declared
+// size, so a small archive cannot expand into gigabytes.
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipEntryInfo {
+  name: string;
+  size: number; // uncompressed, as declared in the central directory
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+// The end record is 22 bytes plus an optional comment of up to 64KB
+const MAX_END_RECORD = 22 + 0xffff;
+
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+}
+
+export async function isZipArchive(path: string): Promise<boolean> {
+  const file = await fs.open(path, 'r');
+  try {
+    const header = await readAt(file, 0, 4);
+    return header.length === 4 && header.readUInt32LE(0) === LOCAL_FILE_HEADER;
+  } finally {
+    await file.close();
+  }
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+// Yields file entries accepted by `filter`, skipping directories, and inflates
+// each one only when it is reached, so callers can write an entry out before
+// the next is decompressed. Throws when the accepted entries declare more
+// than `maxTotalSize` bytes in all.
+export async function* readZipEntries(
+  path: string,
+  filter: (entry: ZipEntryInfo) => boolean = () => true,
+  maxTotalSize = Infinity
+): AsyncGenerator<ZipEntry> {
+  const file = await fs.open(path, 'r');
+  try {
+    const { size: fileSize } = await file.stat();
+    const tailStart = Math.max(0, fileSize - MAX_END_RECORD);
+    const tail = await readAt(file, tailStart, fileSize - tailStart);
+    const end = findEndOfCentralDirectory(tail);
+    if (end < 0) throw new Error('Invalid ZIP archive: end of central directory not found');
+
+    const entryCount = tail.readUInt16LE(end + 10);
+    const directorySize = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+    if (directoryOffset + directorySize > fileSize) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+    const directory = await readAt(file, directoryOffset, directorySize);
+
+    let offset = 0;
+    let totalSize = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Invalid ZIP archive: corrupt central directory');
+      }
+
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/') || !filter({ name, size })) continue;
+      totalSize += size;
+      if (totalSize > maxTotalSize) {
+        throw new Error(`ZIP archive expands beyond the maximum of ${maxTotalSize} bytes`);
+      }
+
+      const header = await readAt(file, localOffset, 30);
+      if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Invalid ZIP archive: missing local header for ${name}`);
+      }
+      const dataStart = localOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+      const raw = await readAt(file, dataStart, compressedSize);
+      if (raw.length !== compressedSize) {
+        throw new Error(`Invalid ZIP archive: ${name} is truncated`);
+      }
+
+      let data: Buffer;
+      if (method === METHOD_STORED) {
+        data = raw;
+      } else if (method === METHOD_DEFLATED) {
+        try {
+          data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+        } catch {
+          throw new Error(`Invalid ZIP archive: ${name} does not inflate to its declared size`);
+        }
+      } else {
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+      if (data.length !== size) {
+        throw new Error(`Invalid ZIP archive: ${name} does not match its declared size`);
+      }
+      yield { name, data };
+    }
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ProfileUpdateRequest, UserProfile } from '@/lib/contracts';
+
+// User settings kept across sessions, in data/profiles.json by organization
+// and user id. Users without a stored profile get the defaults.
+
+export interface ProfileOwner {
+  organizationId: string;
+  userId: string;
+}
+
+type ProfileFile = Record<string, Record<string, UserProfile & { updatedAt: string }>>;
+
+interface ProfileState {
+  write: Promise<void>;
+}
+
+export const DEFAULT_PROFILE: UserProfile = { language: 'en' };
+
+const PROFILES_FILE = path.join(process.cwd(), 'data', 'profiles.json');
+
+// Route handlers can be bundled separately, so the write chain lives on globalThis
+const globalForProfiles = globalThis as unknown as { userProfiles?: ProfileState };
+const state: ProfileState = globalForProfiles.userProfiles ??= { write: Promise.resolve() };
+
+async function loadProfiles(): Promise<ProfileFile> {
+  try {
+    return JSON.parse(await fs.readFile(PROFILES_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[PROFILES] Failed to read user profiles:', error);
+    }
+    return {};
+  }
+}
+
+export async function getProfile(owner: ProfileOwner): Promise<UserProfile> {
+  const stored = (await loadProfiles())[owner.organizationId]?.[owner.userId];
+  return { language: stored?.language ?? DEFAULT_PROFILE.language };
+}
+
+// Edits are chained and written atomically
+export function updateProfile(owner: ProfileOwner, update: ProfileUpdateRequest): Promise<UserProfile> {
+  let profile: UserProfile = DEFAULT_PROFILE;
+  const result = state.write.then(async () => {
+    const profiles = await loadProfiles();
+    const organization = profiles[owner.organizationId] ??= {};
+    const current = organization[owner.userId] ?? { ...DEFAULT_PROFILE };
+    organization[owner.userId] = {
+      language: update.language ?? current.language,
+      updatedAt: new Date().toISOString(),
+    };
+    profile = { language: organization[owner.userId].language };
+    await fs.mkdir(path.dirname(PROFILES_FILE), { recursive: true });
+    await fs.writeFile(`${PROFILES_FILE}.tmp`, `${JSON.stringify(profiles, null, 2)}\n`);
+    await fs.rename(`${PROFILES_FILE}.tmp`, PROFILES_FILE);
+  });
+  state.write = result.catch(error => {
+    console.error('[PROFILES] Failed to update user profiles:', error);
+  });
+  return result.then(() => profile);
+}
@@ -0,0 +1,56 @@
+import type { SummaryDefect, SummaryStatement, StrippedStatement } from '@/lib/contracts';
+
+// Keeps only summary statements that can be traced to the defects they cite.
+// A statement is stripped when it cites no input defect, or when it names a
+// figure or identifier (panel and row numbers, temperatures, dates, codes
+// such as "r3c7" or "INV-2") that none of its cited defects contain. Plain
+// numbers up to the number of input defects are allowed, as they may be counts.
+// Devanagari, Gujarati and Tamil digits in translated summaries count as
+// the figures they write.
+
+// Words with a digit in them: "23", "85.2", "r3c7", "INV-2", "2024-04-15"
+const FIGURE = /[A-Za-z]*\d[\w.-]*/g;
+const INLINE_CITATION = /\s*\[(defect-[A-Za-z0-9-]+)\]/g;
+// Each block runs from U+xx66 (zero) to U+xx6F (nine)
+const NATIVE_DIGIT = /[\u0966-\u096F\u0AE6-\u0AEF\u0BE6-\u0BEF]/g;
+
+function figures(text: string): string[] {
+  const ascii = text.replace(NATIVE_DIGIT, digit => String((digit.charCodeAt(0) - 6) & 0xf));
+  return Array.from(ascii.matchAll(FIGURE), match => match[0].replace(/[.-]+$/, '').toLowerCase());
+}
+
+function sourceFigures(defect: SummaryDefect): string[] {
+  return [...figures([defect.type, defect.location, defect.site ?? '', defect.description].join(' ')), defect.timestamp.slice(0, 10)];
+}
+
+export function groundStatements(
+  statements: SummaryStatement[],
+  defects: SummaryDefect[]
+): { statements: SummaryStatement[]; stripped: StrippedStatement[] } {
+  const byId = new Map(defects.map(defect => [defect.id, defect]));
+  const kept: SummaryStatement[] = [];
+  const stripped: StrippedStatement[] = [];
+
+  statements.forEach(statement => {
+    // Models sometimes cite inline as well; those ids count as citations
+    const inline = Array.from(statement.text.matchAll(INLINE_CITATION), match => match[1]);
+    const text = statement.text.replace(INLINE_CITATION, '').trim();
+    const defectIds = Array.from(new Set([...statement.defectIds, ...inline])).filter(id => byId.has(id));
+    if (!text) return;
+    if (defectIds.length === 0) {
+      stripped.push({ text, reason: 'cites no defect from the input' });
+      return;
+    }
+
+    const supported = new Set(defectIds.flatMap(id => sourceFigures(byId.get(id) as SummaryDefect)));
+    const unsupported = figures(text).filter(figure =>
+      !supported.has(figure) && !(/^\d+$/.test(figure) && Number(figure) <= defects.length));
+    if (unsupported.length > 0) {
+      stripped.push({ text, reason: `mentions ${unsupported.map(f => `"${f}"`).join(', ')}, which the cited defects do not contain` });
+      return;
+    }
+    kept.push({ text, defectIds });
+  });
+
+  return { statements: kept, stripped };
+}
@@ -0,0 +1,73 @@
+import type { DefectSeverity, SummaryDefect } from '@/lib/contracts';
+
+// Defect groups for summaries of large inspections: defects of one site,
+// block and type are summarized together. The block is the module row for
+// module labels ("module r3c7, cell 5×2" is row 3), otherwise the first
+// part of the location ("Site A - Panel 1" is "Site A").
+
+export interface DefectGroup {
+  key: string;
+  site: string | null;
+  block: string;
+  type: string;
+  defects: SummaryDefect[];
+}
+
+const MODULE_ROW = /\bmodule r(\d+)c\d+/i;
+const SEVERITY_RANK: Record<DefectSeverity, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+// Rough count for budgeting; about four characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function defectBlock(location: string): string {
+  const row = location.match(MODULE_ROW);
+  if (row) return `row ${row[1]}`;
+  return location.split(/[,;]| - /)[0].trim() || 'unknown location';
+}
+
+// Most severe groups first, then the largest
+export function groupDefects(defects: SummaryDefect[]): DefectGroup[] {
+  const groups = new Map<string, DefectGroup>();
+  defects.forEach(defect => {
+    const site = defect.site || null;
+    const block = defectBlock(defect.location);
+    const key = [site ?? 'all sites', block, defect.type].join(' / ');
+    const group = groups.get(key) ?? { key, site, block, type: defect.type, defects: [] };
+    group.defects.push(defect);
+    groups.set(key, group);
+  });
+
+  const worst = (group: DefectGroup) => Math.max(...group.defects.map(d => SEVERITY_RANK[d.severity]));
+  return Array.from(groups.values())
+    .sort((a, b) => worst(b) - worst(a) || b.defects.length - a.defects.length);
+}
+
+export function severityCounts(defects: SummaryDefect[]): string {
+  return (Object.keys(SEVERITY_RANK) as DefectSeverity[])
+    .map(severity => [severity, defects.filter(d => d.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`)
+    .join(', ');
+}
+
+// Consecutive chunks whose rendered size stays within the token budget; an
+// item larger than the budget gets a chunk of its own
+export function chunkByTokens<T>(items: T[], render: (item: T) => string, budget: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let size = 0;
+  items.forEach(item => {
+    const tokens = estimateTokens(render(item)) + 1;
+    if (current.length > 0 && size + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(item);
+    size += tokens;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
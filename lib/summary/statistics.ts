@@ -0,0 +1,117 @@
+import { defectBlock } from '@/lib/summary/groups';
+import type {
+  DefectSeverity,
+  SummaryDefect,
+  TemplateCitation,
+  TemplateNumber,
+  TemplateText,
+} from '@/lib/contracts';
+
+// Figures computed from the defects without a model: the overall severity and
+// action items of every summary, and the variables and citation sets of
+// template summaries (lib/summary/templates.ts).
+
+export interface DefectStatistics {
+  numbers: Record<TemplateNumber, number>;
+  texts: Record<TemplateText, string>;
+  citations: Record<TemplateCitation, SummaryDefect[]>;
+}
+
+// Locations named in a template text before "and N more"
+const MAX_LOCATIONS = 5;
+const MAX_LISTED_TYPES = 3;
+
+export function overallSeverity(defects: SummaryDefect[]): DefectSeverity {
+  const severityScores = { critical: 4, high: 3, medium: 2, low: 1 };
+  const avgSeverity = defects.reduce((sum, d) => sum + severityScores[d.severity], 0) / (defects.length || 1);
+  if (avgSeverity >= 3.5) return 'critical';
+  if (avgSeverity >= 2.5) return 'high';
+  if (avgSeverity >= 1.5) return 'medium';
+  return 'low';
+}
+
+export function actionItems(defects: SummaryDefect[]): string[] {
+  const items = [];
+  const criticalCount = defects.filter(d => d.severity === 'critical').length;
+  const highCount = defects.filter(d => d.severity === 'high').length;
+  if (criticalCount > 0) {
+    items.push(`Immediate action required for ${criticalCount} critical defect(s)`);
+  }
+  if (highCount > 0) {
+    items.push(`Schedule urgent maintenance for ${highCount} high-severity issue(s)`);
+  }
+  if (defects.length > 5) {
+    items.push('Comprehensive site inspection recommended');
+  }
+  return items;
+}
+
+// Values by how many defects have them, most common first
+function ranked(defects: SummaryDefect[], value: (defect: SummaryDefect) => string): Array<[string, SummaryDefect[]]> {
+  const byValue = new Map<string, SummaryDefect[]>();
+  defects.forEach(defect => {
+    const key = value(defect);
+    const members = byValue.get(key) ?? [];
+    members.push(defect);
+    byValue.set(key, members);
+  });
+  return Array.from(byValue.entries()).sort((a, b) => b[1].length - a[1].length);
+}
+
+function locations(defects: SummaryDefect[]): string {
+  const unique = Array.from(new Set(defects.map(d => d.location)));
+  if (unique.length === 0) return 'no locations';
+  const more = unique.length > MAX_LOCATIONS ? ` and ${unique.length - MAX_LOCATIONS} more` : '';
+  return `${unique.slice(0, MAX_LOCATIONS).join(', ')}${more}`;
+}
+
+export function defectStatistics(defects: SummaryDefect[], projectName?: string): DefectStatistics {
+  const bySeverity = (...severities: DefectSeverity[]) => defects.filter(d => severities.includes(d.severity));
+  const types = ranked(defects, d => d.type);
+  const sites = ranked(defects.filter(d => d.site), d => d.site ?? '');
+  const topBlock = ranked(defects, d => `${defectBlock(d.location)}${d.site ? ` (${d.site})` : ''}`)[0];
+  const dates = defects.map(d => d.timestamp.slice(0, 10)).sort();
+
+  const citations: Record<TemplateCitation, SummaryDefect[]> = {
+    'all': defects,
+    'critical': bySeverity('critical'),
+    'high': bySeverity('high'),
+    'urgent': bySeverity('critical', 'high'),
+    'routine': bySeverity('medium', 'low'),
+    'top-type': types[0]?.[1] ?? [],
+    'top-block': topBlock?.[1] ?? [],
+    'top-site': sites[0]?.[1] ?? [],
+  };
+
+  return {
+    numbers: {
+      total: defects.length,
+      critical: citations.critical.length,
+      high: citations.high.length,
+      medium: bySeverity('medium').length,
+      low: bySeverity('low').length,
+      urgent: citations.urgent.length,
+      routine: citations.routine.length,
+      types: types.length,
+      sites: sites.length,
+      topTypeCount: citations['top-type'].length,
+      topBlockCount: citations['top-block'].length,
+      topSiteCount: citations['top-site'].length,
+    },
+    texts: {
+      projectName: projectName || 'the project site',
+      overallSeverity: overallSeverity(defects),
+      firstDate: dates[0] ?? '',
+      lastDate: dates[dates.length - 1] ?? '',
+      topType: types[0]?.[0] ?? 'none',
+      topBlock: topBlock?.[0] ?? 'none',
+      topSite: sites[0]?.[0] ?? 'none',
+      typeList: types.slice(0, MAX_LISTED_TYPES).map(([type, members]) => `${type} (${members.length})`).join(', ') +
+        (types.length > MAX_LISTED_TYPES ? ` and ${types.length - MAX_LISTED_TYPES} more` : ''),
+      criticalLocations: locations(citations.critical),
+      highLocations: locations(citations.high),
+      urgentLocations: locations(citations.urgent),
+    },
+    citations,
+  };
+}
@@ -0,0 +1,371 @@
+import { AIModelSelection } from '@/lib/ai/provider';
+import { languageInstruction } from '@/lib/ai/language';
+import { AIUnavailableError } from '@/lib/ai/resilience';
+import { array, object, string } from '@/lib/ai/schema';
+import { completeJson, needsReview, ModelResponseError, ResponseValidation } from '@/lib/ai/structured';
+import { groundStatements } from '@/lib/summary/grounding';
+import { chunkByTokens, estimateTokens, groupDefects, severityCounts, DefectGroup } from '@/lib/summary/groups';
+import { actionItems, overallSeverity } from '@/lib/summary/statistics';
+import type {
+  Language,
+  StrippedStatement,
+  SummarizeRequest,
+  SummaryDefect,
+  SummaryGroup,
+  SummaryResult,
+  SummaryStatement,
+  SummaryType,
+} from '@/lib/contracts';
+
+// Defect summaries made of statements that each cite the defects they are
+// based on. Statements that cannot be traced to the input are stripped
+// (lib/summary/grounding.ts) and reported with the result.
+//
+// When the defect list does not fit one prompt (e.g. after a 3000-frame
+// flight), the summary is built in levels: each site/block/type group is
+// summarized on its own (lib/summary/groups.ts), group summaries are
+// combined in batches until they fit, and the requested summary is
+// synthesized from them. Every call stays within SUMMARY_INPUT_TOKENS: a
+// group summary too long for a prompt of its own is shortened, and groups
+// that still do not fit the final prompt after MAX_COMBINE_LEVELS are left
+// out of it and reported as partial.
+// Only the final level is written in the requested language.
+
+// Recorded with each summary; bump when the prompts change
+export const SUMMARY_PROMPT_VERSION = '4';
+
+const MAX_STATEMENTS = 30;
+const DEFAULT_INPUT_TOKENS = 6000;
+// Instructions and response format, on top of the listed defects or groups
+const PROMPT_OVERHEAD_TOKENS = 500;
+// Response budget per level
+const OUTPUT_TOKENS = { group: 1500, combine: 2000, final: 4000 };
+// Ids listed per statement when group summaries are passed up a level
+const MAX_PASSED_IDS = 12;
+const MAX_COMBINE_LEVELS = 4;
+
+const SYSTEM_PROMPT = 'You are an expert AI analyst specializing in solar infrastructure defect analysis and reporting. You only report facts found in the defect data you are given.';
+
+const responseSchema = object({
+  statements: array(object({
+    text: string({ minLength: 1 }),
+    defectIds: array(string()),
+  }), { maxItems: MAX_STATEMENTS }),
+});
+
+const INSTRUCTIONS: Record<SummaryType, string> = {
+  executive: `Create a concise executive summary (2-3 statements). Focus on business impact, urgency and recommended actions, in clear, non-technical language suitable for executives. Put the most critical issues first.`,
+  technical: `Create a technical summary: an overview of the technical issues, their likely root causes and the recommended technical interventions.`,
+  maintenance: `Create a maintenance-focused summary. Prioritize by urgency and group the work by maintenance type (immediate, scheduled, preventive).`,
+};
+
+const RESPONSE_RULES = `Respond with a JSON object: {"statements": [{"text": "...", "defectIds": ["defect-..."]}]}.
+- Every statement cites, in defectIds, the ids of the defects it is based on.
+- Only state what the listed defects say. Do not invent panel, row or module numbers, temperatures, dates, costs or durations; a statement that mentions a figure not found in its cited defects is removed.
+- Do not put the ids in the statement text.`;
+
+// Summary of part of the input, passed up to the next level
+interface Digest {
+  label: string;
+  groups: string[]; // keys of the groups it covers
+  defects: SummaryDefect[];
+  statements: SummaryStatement[];
+}
+
+function inputBudget(): number {
+  const budget = parseInt(process.env.SUMMARY_INPUT_TOKENS || '', 10);
+  return budget >= 2 * PROMPT_OVERHEAD_TOKENS ? budget : DEFAULT_INPUT_TOKENS;
+}
+
+function defectLine(d: SummaryDefect): string {
+  const site = d.site ? ` (site ${d.site})` : '';
+  return `- [${d.id}] ${d.type} (${d.severity} severity) at ${d.location}${site}, detected ${d.timestamp.slice(0, 10)}: ${d.description}`;
+}
+
+function digestText(digest: Digest): string {
+  const statements = digest.statements.map(s => {
+    const more = s.defectIds.length > MAX_PASSED_IDS ? ` +${s.defectIds.length - MAX_PASSED_IDS} more` : '';
+    return `- ${s.text} (defects: ${s.defectIds.slice(0, MAX_PASSED_IDS).join(', ')}${more})`;
+  });
+  return `Group ${digest.label} (${digest.defects.length} defects: ${severityCounts(digest.defects)}):\n${statements.join('\n')}`;
+}
+
+// Shorten a digest until it fits `budget` on its own: drop its last (least
+// important) statements, then cut the text of the one left
+function fitDigest(digest: Digest, budget: number): Digest {
+  let statements = digest.statements;
+  while (statements.length > 1 && estimateTokens(digestText({ ...digest, statements })) > budget) {
+    statements = statements.slice(0, -1);
+  }
+  const excess = estimateTokens(digestText({ ...digest, statements })) - budget;
+  if (excess > 0) {
+    const [lead] = statements;
+    statements = [{ ...lead, text: `${lead.text.slice(0, Math.max(0, lead.text.length - excess * 4 - 4))}…` }];
+  }
+  return statements === digest.statements ? digest : { ...digest, statements };
+}
+
+// The requested summary type, in the requested language
+function instructions(summaryType: SummaryType, language: Language): string {
+  return [INSTRUCTIONS[summaryType], languageInstruction(language)].filter(Boolean).join(' ');
+}
+
+function prompt(defects: SummaryDefect[], projectName: string | undefined, summaryType: SummaryType, language: Language): string {
+  return `${instructions(summaryType, language)}
+
+Defects found at ${projectName || 'the project site'}:
+${defects.map(defectLine).join('\n')}
+
+${RESPONSE_RULES}`;
+}
+
+function groupPrompt(group: DefectGroup, defects: SummaryDefect[], part: string): string {
+  return `Summarize this group of defects in at most 5 statements: what is wrong, where, and how severe. Name the defects that need immediate action. Another step combines your statements with those of other groups.
+
+Group ${group.key}${part}:
+${defects.map(defectLine).join('\n')}
+
+${RESPONSE_RULES}`;
+}
+
+function combinePrompt(digests: Digest[]): string {
+  return `Combine these group summaries into at most 8 statements that keep the most severe and most widespread issues, and where they are. Another step builds the final summary from your statements.
+
+${digests.map(digestText).join('\n\n')}
+
+${RESPONSE_RULES} Cite ids from the group summaries.`;
+}
+
+function finalPrompt(digests: Digest[], projectName: string | undefined, summaryType: SummaryType, language: Language): string {
+  return `${instructions(summaryType, language)}
+
+The inspection of ${projectName || 'the project site'} was too large to list every defect, so the defects were summarized by site, block and type:
+
+${digests.map(digestText).join('\n\n')}
+
+${RESPONSE_RULES} Cite ids from the group summaries.`;
+}
+
+async function requestStatements(ai: AIModelSelection, content: string, maxTokens: number) {
+  const result = await completeJson(ai, {
+    task: 'summary',
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content },
+    ],
+    temperature: 0.2,
+    maxTokens,
+  }, responseSchema);
+  return { statements: result.value.statements, validation: result.validation };
+}
+
+// Failed calls are recorded and the summary goes on without them; an
+// unavailable provider ends the whole summary
+function recoverable(error: unknown): ModelResponseError | Error {
+  if (error instanceof AIUnavailableError || !(error instanceof Error)) throw error;
+  return error;
+}
+
+function mergeValidations(validations: ResponseValidation[]): ResponseValidation {
+  const review = validations.filter(v => v.status === 'needs_review');
+  return {
+    status: review.length > 0 ? 'needs_review' : 'ok',
+    repairs: validations.reduce((sum, v) => sum + v.repairs, 0),
+    errors: review.flatMap(v => v.errors).slice(0, 10),
+  };
+}
+
+function groupReport(group: DefectGroup, status: SummaryGroup['status']): SummaryGroup {
+  const { key, site, block, type, defects } = group;
+  return { key, site, block, type, defects: defects.length, status };
+}
+
+interface Synthesis {
+  summary: string;
+  statements: SummaryStatement[];
+  stripped: StrippedStatement[];
+  validation: ResponseValidation;
+  language: Language;
+  strategy: SummaryResult['metadata']['strategy'];
+  levels: number;
+  groups: SummaryGroup[];
+}
+
+const FAILED_SUMMARY = 'The model response failed validation. Review the defects in the log.';
+
+async function summarizeAtOnce(ai: AIModelSelection, request: SummarizeRequest, summaryType: SummaryType, language: Language): Promise<Synthesis> {
+  const { defects, projectName } = request;
+  const result = await requestStatements(ai, prompt(defects, projectName, summaryType, language), 8192).catch(error => {
+    if (error instanceof ModelResponseError) return error;
+    throw error;
+  });
+
+  const failed = result instanceof ModelResponseError;
+  if (failed) {
+    console.error('Summary model response failed validation:', result.errors);
+  }
+  const grounded = failed ? { statements: [], stripped: [] } : groundStatements(result.statements, defects);
+  return {
+    summary: failed ? FAILED_SUMMARY : grounded.statements.map(s => s.text).join(' '),
+    ...grounded,
+    validation: failed ? needsReview(result) : result.validation,
+    language: failed ? 'en' : language,
+    strategy: 'single',
+    levels: 1,
+    groups: groupDefects(defects).map(group => groupReport(group, 'covered')),
+  };
+}
+
+async function summarizeByGroup(ai: AIModelSelection, request: SummarizeRequest, summaryType: SummaryType, language: Language): Promise<Synthesis> {
+  const { defects, projectName } = request;
+  const budget = inputBudget() - PROMPT_OVERHEAD_TOKENS;
+  const validations: ResponseValidation[] = [];
+  const stripped: StrippedStatement[] = [];
+  const groups: SummaryGroup[] = [];
+  let digests: Digest[] = [];
+
+  const record = (error: Error, context: string) => {
+    console.error(`[SUMMARY] ${context} failed:`, error.message);
+    validations.push(error instanceof ModelResponseError
+      ? needsReview(error)
+      : { status: 'needs_review', repairs: 0, errors: [`${context}: ${error.message}`] });
+  };
+  const ground = (statements: SummaryStatement[], sources: SummaryDefect[]) => {
+    const grounded = groundStatements(statements, sources);
+    stripped.push(...grounded.stripped);
+    return grounded.statements;
+  };
+
+  // Level 1: each group, split into parts that fit the budget
+  for (const group of groupDefects(defects)) {
+    const parts = chunkByTokens(group.defects, defectLine, budget);
+    const statements: SummaryStatement[] = [];
+    let failedParts = 0;
+    for (const [index, part] of parts.entries()) {
+      const label = parts.length > 1 ? ` (part ${index + 1} of ${parts.length})` : '';
+      try {
+        const result = await requestStatements(ai, groupPrompt(group, part, label), OUTPUT_TOKENS.group);
+        validations.push(result.validation);
+        statements.push(...ground(result.statements, part));
+      } catch (error) {
+        record(recoverable(error), `Group ${group.key}${label}`);
+        failedParts++;
+      }
+    }
+    groups.push(groupReport(group, failedParts === 0 ? 'covered' : failedParts < parts.length ? 'partial' : 'failed'));
+    if (statements.length > 0) {
+      digests.push(fitDigest({ label: group.key, groups: [group.key], defects: group.defects, statements }, budget));
+    }
+  }
+  if (digests.length === 0) {
+    throw new Error(`None of the ${groups.length} defect groups could be summarized`);
+  }
+
+  // Combine batches of group summaries until they fit one prompt
+  let levels = 1;
+  while (estimateTokens(digests.map(digestText).join('\n\n')) > budget && levels <= MAX_COMBINE_LEVELS) {
+    const batches = chunkByTokens(digests, digestText, budget);
+    const combined: Digest[] = [];
+    for (const batch of batches) {
+      const sources = batch.flatMap(d => d.defects);
+      const keys = batch.flatMap(d => d.groups);
+      const label = batch.length > 1 ? `${batch[0].label} and ${batch.length - 1} more` : batch[0].label;
+      try {
+        const result = await requestStatements(ai, combinePrompt(batch), OUTPUT_TOKENS.combine);
+        validations.push(result.validation);
+        combined.push(fitDigest({ label, groups: keys, defects: sources, statements: ground(result.statements, sources) }, budget));
+      } catch (error) {
+        // Keep the lead statement of each group so the level still shrinks
+        record(recoverable(error), `Combining ${label}`);
+        combined.push(fitDigest({ label, groups: keys, defects: sources, statements: batch.flatMap(d => d.statements.slice(0, 1)) }, budget));
+      }
+    }
+    digests = combined.filter(d => d.statements.length > 0);
+    levels++;
+  }
+
+  // Out of combine levels: the final prompt takes the leading (most severe)
+  // digests that fit, and the groups of the rest are only partly covered
+  let size = 0;
+  const kept = digests.filter((digest, index) => {
+    size += estimateTokens(digestText(digest)) + 1;
+    return index === 0 || size <= budget;
+  });
+  if (kept.length < digests.length) {
+    const left = new Set(digests.slice(kept.length).flatMap(d => d.groups));
+    groups.forEach(group => {
+      if (left.has(group.key) && group.status === 'covered') group.status = 'partial';
+    });
+    console.warn(`[SUMMARY] ${digests.length - kept.length} digest(s) left out of the final prompt after ${MAX_COMBINE_LEVELS} combine levels`);
+    digests = kept;
+  }
+
+  // Final level: the requested summary
+  const result = await requestStatements(ai, finalPrompt(digests, projectName, summaryType, language), OUTPUT_TOKENS.final)
+    .catch(error => recoverable(error));
+  let summary: string;
+  let statements: SummaryStatement[];
+  if (result instanceof Error) {
+    // The group summaries are grounded already; show them instead
+    record(result, 'Final summary');
+    statements = digests.flatMap(d => d.statements);
+    summary = `${FAILED_SUMMARY} Group summaries are shown instead.`;
+  } else {
+    validations.push(result.validation);
+    statements = ground(result.statements, defects);
+    summary = statements.map(s => s.text).join(' ');
+  }
+
+  return {
+    summary,
+    statements,
+    stripped,
+    validation: mergeValidations(validations),
+    // The group summaries shown after a failed final level are in English
+    language: result instanceof Error ? 'en' : language,
+    strategy: 'map-reduce',
+    levels: levels + 1,
+    groups,
+  };
+}
+
+export async function summarizeDefects(ai: AIModelSelection, request: SummarizeRequest): Promise<SummaryResult> {
+  const { defects, projectName, summaryType = 'executive', language = 'en' } = request;
+
+  const fits = estimateTokens(defects.map(defectLine).join('\n')) <= inputBudget() - PROMPT_OVERHEAD_TOKENS;
+  const synthesis = fits
+    ? await summarizeAtOnce(ai, request, summaryType, language)
+    : await summarizeByGroup(ai, request, summaryType, language);
+  if (synthesis.stripped.length > 0) {
+    console.warn(`[SUMMARY] Stripped ${synthesis.stripped.length} unsupported statement(s):`,
+      synthesis.stripped.map(s => s.reason));
+  }
+  if (synthesis.strategy === 'map-reduce') {
+    const uncovered = synthesis.groups.filter(g => g.status !== 'covered');
+    console.log(`[SUMMARY] ${defects.length} defects in ${synthesis.groups.length} groups, ${synthesis.levels} levels` +
+      (uncovered.length > 0 ? `, ${uncovered.length} group(s) not fully covered` : ''));
+  }
+
+  return {
+    summary: synthesis.summary,
+    statements: synthesis.statements,
+    metadata: {
+      summaryType,
+      language: synthesis.language,
+      projectName,
+      totalDefects: defects.length,
+      overallSeverity: overallSeverity(defects),
+      actionItems: actionItems(defects),
+      generatedAt: new Date().toISOString(),
+      generator: 'ai',
+      provider: ai.provider,
+      model: ai.model,
+      promptVersion: SUMMARY_PROMPT_VERSION,
+      validation: synthesis.validation,
+      stripped: synthesis.stripped,
+      strategy: synthesis.strategy,
+      levels: synthesis.levels,
+      groups: synthesis.groups,
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { groupDefects } from '@/lib/summary/groups';
+import { actionItems, defectStatistics, overallSeverity, DefectStatistics } from '@/lib/summary/statistics';
+import {
+  SUMMARY_TYPES,
+  TEMPLATE_CONDITION,
+  TEMPLATE_PLACEHOLDER,
+  type SummarizeRequest,
+  type SummaryResult,
+  type SummaryStatement,
+  type SummaryTemplate,
+  type SummaryTemplateRule,
+  type SummaryType,
+  type TemplateNumber,
+  type TemplateText,
+} from '@/lib/contracts';
+
+// Summaries written from defect statistics by rules, without a model: used
+// when the AI provider is down or the summary fails, and on request. The
+// built-in templates below can be replaced per organization and summary
+// type; replacements live in data/summary-templates.json and are read on
+// every summary, so edits apply at once.
+
+export type TemplateSource = 'default' | 'organization';
+
+type TemplateFile = Record<string, Partial<Record<SummaryType, SummaryTemplate & { updatedAt: string }>>>;
+
+interface TemplateState {
+  write: Promise<void>;
+}
+
+const TEMPLATES_FILE = path.join(process.cwd(), 'data', 'summary-templates.json');
+// Defects cited per statement; a template statement may cover thousands
+const MAX_CITED_DEFECTS = 10;
+
+export const DEFAULT_SUMMARY_TEMPLATES: Record<SummaryType, SummaryTemplate> = {
+  executive: {
+    language: 'en',
+    rules: [
+      { text: 'Inspection of {projectName}: {total} defect(s) found between {firstDate} and {lastDate}; overall severity is {overallSeverity}.', cite: 'all' },
+      { when: 'critical > 0', text: '{critical} critical defect(s) need immediate action, at {criticalLocations}.', cite: 'critical' },
+      { when: 'high > 0', text: '{high} high-severity defect(s) should be scheduled for urgent maintenance.', cite: 'high' },
+      { when: 'urgent == 0', text: 'No critical or high-severity defects were found; the remaining issues can follow the routine maintenance plan.', cite: 'all' },
+      { when: 'total > 1', text: 'The most common issue is {topType} ({topTypeCount} defect(s)); {topBlock} is the most affected block ({topBlockCount} defect(s)).', cite: 'top-type' },
+    ],
+  },
+  technical: {
+    language: 'en',
+    rules: [
+      { text: '{total} defect(s) of {types} type(s): {typeList}.', cite: 'all' },
+      { text: 'By severity: {critical} critical, {high} high, {medium} medium and {low} low.', cite: 'all' },
+      { when: 'critical > 0', text: 'Critical defects at {criticalLocations} should be inspected before the affected modules return to normal operation.', cite: 'critical' },
+      { when: 'topBlockCount > 1', text: 'The block with the most defects is {topBlock} ({topBlockCount}); check it for a shared cause such as soiling, shading or a wiring fault.', cite: 'top-block' },
+      { when: 'sites > 1', text: 'The defects span {sites} sites; {topSite} has the most ({topSiteCount}).', cite: 'top-site' },
+    ],
+  },
+  maintenance: {
+    language: 'en',
+    rules: [
+      { when: 'critical > 0', text: 'Immediate: repair {critical} critical defect(s) at {criticalLocations}.', cite: 'critical' },
+      { when: 'high > 0', text: 'Scheduled: plan urgent maintenance for {high} high-severity defect(s) at {highLocations}.', cite: 'high' },
+      { when: 'routine > 0', text: 'Preventive: address {routine} medium and low-severity defect(s) in the next routine maintenance round.', cite: 'routine' },
+      { when: 'total > 5', text: 'A comprehensive site inspection is recommended, starting with {topBlock}.', cite: 'top-block' },
+    ],
+  },
+};
+
+// Route handlers can be bundled separately, so the write chain lives on globalThis
+const globalForTemplates = globalThis as unknown as { summaryTemplates?: TemplateState };
+const state: TemplateState = globalForTemplates.summaryTemplates ??= { write: Promise.resolve() };
+
+async function loadTemplateFile(): Promise<TemplateFile> {
+  try {
+    return JSON.parse(await fs.readFile(TEMPLATES_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[TEMPLATES] Failed to read summary templates:', error);
+    }
+    return {};
+  }
+}
+
+// The organization's template for each summary type, or the built-in one
+export async function loadSummaryTemplates(
+  organizationId: string
+): Promise<Record<SummaryType, { template: SummaryTemplate; source: TemplateSource }>> {
+  const saved = (await loadTemplateFile())[organizationId] ?? {};
+  return Object.fromEntries(SUMMARY_TYPES.map(type => {
+    const template = saved[type];
+    return [type, template
+      ? { template: { language: template.language, rules: template.rules }, source: 'organization' }
+      : { template: DEFAULT_SUMMARY_TEMPLATES[type], source: 'default' }];
+  })) as Record<SummaryType, { template: SummaryTemplate; source: TemplateSource }>;
+}
+
+// Template edits are chained and written atomically. `template` null goes
+// back to the built-in template; returns whether anything changed.
+export function saveSummaryTemplate(organizationId: string, summaryType: SummaryType, template: SummaryTemplate | null): Promise<boolean> {
+  let changed = false;
+  const result = state.write.then(async () => {
+    const file = await loadTemplateFile();
+    const organization = file[organizationId] ??= {};
+    if (template) {
+      organization[summaryType] = { ...template, updatedAt: new Date().toISOString() };
+    } else if (organization[summaryType]) {
+      delete organization[summaryType];
+    } else {
+      return;
+    }
+    changed = true;
+    await fs.mkdir(path.dirname(TEMPLATES_FILE), { recursive: true });
+    await fs.writeFile(`${TEMPLATES_FILE}.tmp`, `${JSON.stringify(file, null, 2)}\n`);
+    await fs.rename(`${TEMPLATES_FILE}.tmp`, TEMPLATES_FILE);
+  });
+  state.write = result.catch(error => {
+    console.error('[TEMPLATES] Failed to update summary templates:', error);
+  });
+  return result.then(() => changed);
+}
+
+function conditionHolds(when: string | undefined, numbers: Record<TemplateNumber, number>): boolean {
+  if (!when) return true;
+  return when.split('&&').every(clause => {
+    const match = clause.trim().match(TEMPLATE_CONDITION);
+    if (!match) return false;
+    const value = numbers[match[1] as TemplateNumber];
+    const limit = Number(match[3]);
+    switch (match[2]) {
+      case '>': return value > limit;
+      case '>=': return value >= limit;
+      case '<': return value < limit;
+      case '<=': return value <= limit;
+      case '==': return value === limit;
+      default: return value !== limit;
+    }
+  });
+}
+
+function renderRule(rule: SummaryTemplateRule, statistics: DefectStatistics): SummaryStatement {
+  const values: Record<string, string | number> = { ...statistics.numbers, ...statistics.texts };
+  return {
+    // Unknown placeholders stay as written; saved templates cannot have any
+    text: rule.text.replace(TEMPLATE_PLACEHOLDER, (placeholder, name: TemplateNumber | TemplateText) =>
+      name in values ? String(values[name]) : placeholder),
+    defectIds: rule.cite ? statistics.citations[rule.cite].slice(0, MAX_CITED_DEFECTS).map(d => d.id) : [],
+  };
+}
+
+// `request.language` is the language wanted; templates are written in one
+// language each, so a mismatch is reported rather than translated.
+export async function summarizeWithTemplates(
+  organizationId: string,
+  request: SummarizeRequest,
+  fallbackReason?: string
+): Promise<SummaryResult> {
+  const { defects, projectName, summaryType = 'executive' } = request;
+  const { template, source } = (await loadSummaryTemplates(organizationId))[summaryType];
+  const language = template.language ?? 'en';
+  const requestedLanguage = request.language && request.language !== language ? request.language : undefined;
+  const statistics = defectStatistics(defects, projectName);
+  const statements = template.rules
+    .filter(rule => conditionHolds(rule.when, statistics.numbers))
+    .map(rule => renderRule(rule, statistics));
+
+  return {
+    summary: statements.map(s => s.text).join(' '),
+    statements,
+    metadata: {
+      summaryType,
+      language,
+      projectName,
+      totalDefects: defects.length,
+      overallSeverity: overallSeverity(defects),
+      actionItems: actionItems(defects),
+      generatedAt: new Date().toISOString(),
+      generator: 'template',
+      template: { source, fallbackReason, requestedLanguage },
+      validation: { status: 'ok', repairs: 0, errors: [] },
+      stripped: [],
+      strategy: 'single',
+      levels: 0,
+      groups: groupDefects(defects).map(({ key, site, block, type, defects: members }) =>
+        ({ key, site, block, type, defects: members.length, status: 'covered' as const })),
+    },
+  };
+}
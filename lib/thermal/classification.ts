@@ -0,0 +1,257 @@
+// IEC TS 62446-3 thermographic anomaly classification.
+// Each hotspot is compared against the surrounding module area (ΔT to the
+// reference cells), assigned a class of abnormality (CoA) and a fault pattern,
+// and the response severity is derived from those classes.
+
+export type AnomalyClass = 'CoA1' | 'CoA2' | 'CoA3';
+export type FaultPattern = 'single-cell' | 'multi-cell' | 'substring' | 'whole-module' | 'patchwork';
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'none';
+export type DeltaTSource = 'radiometric' | 'palette-scale';
+
+export interface DeltaTThresholds {
+  coa2: number; // K, thermal abnormality
+  coa3: number; // K, abnormality requiring action
+  critical: number; // K, safety relevant
+}
+
+export const DEFAULT_DELTA_T_THRESHOLDS: DeltaTThresholds = {
+  coa2: 10,
+  coa3: 20,
+  critical: 40,
+};
+
+export interface ScalarField {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+export interface ClassifiableHotspot {
+  x: number;
+  y: number;
+  radius: number;
+  bbox?: { x: number; y: number; width: number; height: number };
+}
+
+export interface DeltaTMeasurement {
+  deltaT: number;
+  hotspotTemperature: number;
+  referenceTemperature: number;
+}
+
+export interface ThermalClassification {
+  deltaT: number | null;
+  referenceTemperature: number | null;
+  anomalyClass: AnomalyClass | null;
+  faultPattern: FaultPattern;
+  severity: Severity | null;
+}
+
+export interface ClassificationOptions {
+  thresholds?: DeltaTThresholds;
+  // Size of one cell in display pixels; estimated from the frame when unknown
+  cellSize?: { width: number; height: number };
+}
+
+// A typical drone frame shows roughly four 60-cell modules
+const ESTIMATED_CELLS_PER_FRAME = 240;
+const CELLS_PER_MODULE = { columns: 6, rows: 10 };
+const SEVERITY_RANK: Record<Severity, number> = { none: 0, low: 1, medium: 2, high: 3, critical: 4 };
+const CLASS_RANK: Record<AnomalyClass, number> = { CoA1: 1, CoA2: 2, CoA3: 3 };
+
+// Patterns that indicate an electrical fault regardless of the measured ΔT
+const PATTERN_MINIMUM_CLASS: Partial<Record<FaultPattern, AnomalyClass>> = {
+  'substring': 'CoA2',
+  'whole-module': 'CoA2',
+  'patchwork': 'CoA2',
+};
+
+export function hotspotBox(hotspot: ClassifiableHotspot, displayWidth: number, displayHeight: number) {
+  if (hotspot.bbox) return hotspot.bbox;
+  const cx = (hotspot.x / 100) * displayWidth;
+  const cy = (hotspot.y / 100) * displayHeight;
+  return {
+    x: Math.round(cx - hotspot.radius),
+    y: Math.round(cy - hotspot.radius),
+    width: Math.round(hotspot.radius * 2),
+    height: Math.round(hotspot.radius * 2),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// ΔT between the hottest part of a hotspot and the median of the ring of
+// module surface around it. `scale` converts field values to kelvin.
+export function measureDeltaT(
+  field: ScalarField,
+  hotspot: ClassifiableHotspot,
+  displayWidth: number,
+  displayHeight: number,
+  scale = 1,
+  offset = 0
+): DeltaTMeasurement | null {
+  const sx = field.width / Math.max(1, displayWidth);
+  const sy = field.height / Math.max(1, displayHeight);
+  const cx = (hotspot.x / 100) * field.width;
+  const cy = (hotspot.y / 100) * field.height;
+  const r = Math.max(1, hotspot.radius * Math.max(sx, sy));
+  const inner = r * 1.5;
+  const outer = Math.max(r * 3, inner + 3);
+
+  const x0 = Math.max(0, Math.floor(cx - outer));
+  const x1 = Math.min(field.width - 1, Math.ceil(cx + outer));
+  const y0 = Math.max(0, Math.floor(cy - outer));
+  const y1 = Math.min(field.height - 1, Math.ceil(cy + outer));
+
+  let peak = -Infinity;
+  const ring: number[] = [];
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const v = field.values[y * field.width + x];
+      if (!Number.isFinite(v)) continue;
+      const d = Math.hypot(x - cx, y - cy);
+      if (d <= r) {
+        if (v > peak) peak = v;
+      } else if (d >= inner && d <= outer) {
+        ring.push(v);
+      }
+    }
+  }
+
+  if (!Number.isFinite(peak) || ring.length === 0) return null;
+
+  const reference = median(ring);
+  return {
+    deltaT: Math.round((peak - reference) * scale * 10) / 10,
+    hotspotTemperature: Math.round((peak * scale + offset) * 10) / 10,
+    referenceTemperature: Math.round((reference * scale + offset) * 10) / 10,
+  };
+}
+
+function classFromDeltaT(deltaT: number, thresholds: DeltaTThresholds): AnomalyClass {
+  if (deltaT >= thresholds.coa3) return 'CoA3';
+  if (deltaT >= thresholds.coa2) return 'CoA2';
+  return 'CoA1';
+}
+
+function severityFromClass(anomalyClass: AnomalyClass, deltaT: number, pattern: FaultPattern, thresholds: DeltaTThresholds): Severity {
+  switch (anomalyClass) {
+    case 'CoA3':
+      return deltaT >= thresholds.critical || pattern === 'whole-module' || pattern === 'substring' ? 'critical' : 'high';
+    case 'CoA2':
+      return pattern === 'single-cell' ? 'medium' : 'high';
+    default:
+      return 'low';
+  }
+}
+
+function estimateCellSize(displayWidth: number, displayHeight: number) {
+  const side = Math.sqrt((displayWidth * displayHeight) / ESTIMATED_CELLS_PER_FRAME);
+  return { width: side, height: side };
+}
+
+function patternFromShape(box: { width: number; height: number }, cell: { width: number; height: number }): FaultPattern {
+  const cellsWide = box.width / cell.width;
+  const cellsHigh = box.height / cell.height;
+  const cells = cellsWide * cellsHigh;
+  const longSide = Math.max(cellsWide, cellsHigh);
+  const shortSide = Math.max(0.01, Math.min(cellsWide, cellsHigh));
+
+  if (cells >= CELLS_PER_MODULE.columns * CELLS_PER_MODULE.rows * 0.6) return 'whole-module';
+  // A bypass diode protects a strip of cells running the length of the module
+  if (longSide >= CELLS_PER_MODULE.rows * 0.6 && longSide / shortSide >= 2.5) return 'substring';
+  if (cells > 1.8) return 'multi-cell';
+  return 'single-cell';
+}
+
+// Classify each hotspot. `measurements[i]` is the ΔT for `hotspots[i]`, or null
+// when no temperature scale is available for this image.
+export function classifyHotspots(
+  hotspots: ClassifiableHotspot[],
+  measurements: Array<DeltaTMeasurement | null>,
+  displayWidth: number,
+  displayHeight: number,
+  options: ClassificationOptions = {}
+): ThermalClassification[] {
+  const thresholds = options.thresholds ?? DEFAULT_DELTA_T_THRESHOLDS;
+  const cell = options.cellSize ?? estimateCellSize(displayWidth, displayHeight);
+  const boxes = hotspots.map(h => hotspotBox(h, displayWidth, displayHeight));
+  const shapes = boxes.map(box => patternFromShape(box, cell));
+
+  // A warm cell with several other isolated warm cells scattered within one
+  // module area forms a patchwork pattern (typically PID)
+  const moduleReach = Math.hypot(cell.width * CELLS_PER_MODULE.columns, cell.height * CELLS_PER_MODULE.rows) / 2;
+  const centers = hotspots.map(h => ({ x: (h.x / 100) * displayWidth, y: (h.y / 100) * displayHeight }));
+  const patterns = shapes.map((pattern, i): FaultPattern => {
+    if (pattern !== 'single-cell') return pattern;
+    const neighbours = centers.filter((c, j) =>
+      j !== i && shapes[j] === 'single-cell' && Math.hypot(c.x - centers[i].x, c.y - centers[i].y) <= moduleReach
+    ).length;
+    return neighbours >= 4 ? 'patchwork' : pattern;
+  });
+
+  return hotspots.map((_, i) => {
+    const measurement = measurements[i];
+    const faultPattern = patterns[i];
+
+    if (!measurement) {
+      const minimum = PATTERN_MINIMUM_CLASS[faultPattern];
+      return {
+        deltaT: null,
+        referenceTemperature: null,
+        anomalyClass: minimum ?? null,
+        faultPattern,
+        severity: minimum ? 'medium' : null,
+      };
+    }
+
+    let anomalyClass = classFromDeltaT(measurement.deltaT, thresholds);
+    const minimum = PATTERN_MINIMUM_CLASS[faultPattern];
+    if (minimum && CLASS_RANK[minimum] > CLASS_RANK[anomalyClass]) {
+      anomalyClass = minimum;
+    }
+
+    return {
+      deltaT: measurement.deltaT,
+      referenceTemperature: measurement.referenceTemperature,
+      anomalyClass,
+      faultPattern,
+      severity: severityFromClass(anomalyClass, measurement.deltaT, faultPattern, thresholds),
+    };
+  });
+}
+
+// Overall image severity is the worst classified hotspot
+export function severityFromClassifications(classifications: ThermalClassification[]): Severity | null {
+  const classified = classifications.filter(c => c.severity !== null);
+  if (classified.length === 0) return null;
+  return classified.reduce<Severity>((worst, c) =>
+    SEVERITY_RANK[c.severity as Severity] > SEVERITY_RANK[worst] ? c.severity as Severity : worst, 'none');
+}
+
+export function countByClass(classifications: ThermalClassification[]): Record<AnomalyClass, number> {
+  const counts: Record<AnomalyClass, number> = { CoA1: 0, CoA2: 0, CoA3: 0 };
+  classifications.forEach(c => {
+    if (c.anomalyClass) counts[c.anomalyClass]++;
+  });
+  return counts;
+}
+
+// Accepts a partial JSON override, e.g. {"coa2": 8, "coa3": 15}
+export function parseDeltaTThresholds(value: string | null | undefined): DeltaTThresholds | null {
+  if (!value) return DEFAULT_DELTA_T_THRESHOLDS;
+  try {
+    const parsed = JSON.parse(value);
+    const thresholds = { ...DEFAULT_DELTA_T_THRESHOLDS, ...parsed };
+    const valid = [thresholds.coa2, thresholds.coa3, thresholds.critical].every(v => typeof v === 'number' && v > 0)
+      && thresholds.coa2 < thresholds.coa3 && thresholds.coa3 <= thresholds.critical;
+    return valid ? { coa2: thresholds.coa2, coa3: thresholds.coa3, critical: thresholds.critical } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,424 @@
+import { RadiometricImage } from './radiometric';
+
+// Deterministic CPU hotspot detector. Works on the decoded pixel buffer (or on
+// radiometric temperatures when available) so thermal analysis keeps working
+// when the vision model is unreachable.
+
+export type PaletteName = 'iron' | 'rainbow' | 'grayscale';
+export type DetectionEngine = 'llm' | 'local' | 'cross-check';
+export type HotspotSource = 'llm' | 'local' | 'both';
+
+export interface IntensityField {
+  width: number;
+  height: number;
+  values: Float32Array; // 0 (coldest) .. 1 (hottest), row-major
+  source: PaletteName | 'radiometric';
+  paletteFit: number; // 0..1, how well the pixels matched the palette
+}
+
+export interface DetectedHotspot {
+  x: number; // percent from left
+  y: number; // percent from top
+  radius: number; // source pixels
+  intensity: number; // 0-100, contrast against the local background
+  area: number; // source pixels
+  description: string;
+  bbox: { x: number; y: number; width: number; height: number }; // source pixels
+  peakIntensity: number; // 0..1 on the intensity field
+  backgroundIntensity: number; // 0..1 on the intensity field
+}
+
+export interface LocalDetectionResult {
+  hotspots: DetectedHotspot[];
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'none';
+  confidence: number;
+  palette: IntensityField['source'];
+}
+
+export interface DetectorOptions {
+  windowFraction?: number; // background window size relative to the shorter side
+  minContrast?: number; // minimum rise above local background (0..1)
+  stdFactor?: number; // rise required in local standard deviations
+  maxHotspots?: number;
+}
+
+const DEFAULT_OPTIONS: Required<DetectorOptions> = {
+  windowFraction: 0.25,
+  minContrast: 0.08,
+  stdFactor: 1.5,
+  maxHotspots: 50,
+};
+
+const MAX_WORKING_DIMENSION = 640;
+export const DETECTION_ENGINES: DetectionEngine[] = ['llm', 'local', 'cross-check'];
+
+// Gradient stops for the common false-color palettes, coldest first
+const PALETTE_STOPS: Record<PaletteName, number[][]> = {
+  iron: [
+    [0, 0, 0], [30, 0, 90], [90, 0, 150], [160, 10, 140], [210, 50, 70],
+    [240, 110, 0], [255, 170, 0], [255, 225, 60], [255, 255, 220],
+  ],
+  rainbow: [
+    [0, 0, 130], [0, 0, 255], [0, 160, 255], [0, 255, 255], [0, 255, 100],
+    [160, 255, 0], [255, 255, 0], [255, 140, 0], [255, 0, 0], [255, 255, 255],
+  ],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+};
+
+const paletteLuts = new Map<PaletteName, Uint8Array>();
+
+function buildPaletteLut(name: PaletteName): Uint8Array {
+  const cached = paletteLuts.get(name);
+  if (cached) return cached;
+
+  const stops = PALETTE_STOPS[name];
+  const lut = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(stops.length - 1, lower + 1);
+    const t = position - lower;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = Math.round(stops[lower][c] + (stops[upper][c] - stops[lower][c]) * t);
+    }
+  }
+
+  paletteLuts.set(name, lut);
+  return lut;
+}
+
+// Nearest palette index for a color, and its squared distance
+function nearestPaletteIndex(lut: Uint8Array, r: number, g: number, b: number): [number, number] {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < 256; i++) {
+    const dr = lut[i * 3] - r;
+    const dg = lut[i * 3 + 1] - g;
+    const db = lut[i * 3 + 2] - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+  return [best, bestDistance];
+}
+
+function readRgb(pixels: Buffer, index: number, channels: number): [number, number, number] {
+  if (channels < 3) {
+    const v = pixels[index];
+    return [v, v, v];
+  }
+  return [pixels[index], pixels[index + 1], pixels[index + 2]];
+}
+
+// Pick the palette whose gradient best explains a sample of the image
+function detectPalette(pixels: Buffer, width: number, height: number, channels: number): { palette: PaletteName; fit: number } {
+  if (channels < 3) return { palette: 'grayscale', fit: 1 };
+
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / 2000)));
+  const totals: Record<PaletteName, number> = { iron: 0, rainbow: 0, grayscale: 0 };
+  let samples = 0;
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const [r, g, b] = readRgb(pixels, (y * width + x) * channels, channels);
+      for (const name of Object.keys(PALETTE_STOPS) as PaletteName[]) {
+        totals[name] += Math.sqrt(nearestPaletteIndex(buildPaletteLut(name), r, g, b)[1]);
+      }
+      samples++;
+    }
+  }
+
+  let palette: PaletteName = 'grayscale';
+  for (const name of Object.keys(totals) as PaletteName[]) {
+    if (totals[name] < totals[palette]) palette = name;
+  }
+
+  const averageDistance = totals[palette] / Math.max(1, samples);
+  return { palette, fit: Math.max(0, Math.min(1, 1 - averageDistance / 64)) };
+}
+
+// Map a false-color pixel buffer to a normalized intensity field, block
+// averaging large images down to a working resolution
+export function intensityFieldFromPixels(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  channels: number
+): IntensityField {
+  const { palette, fit } = detectPalette(pixels, width, height, channels);
+  const lut = buildPaletteLut(palette);
+  const cache = new Int16Array(32 * 32 * 32).fill(-1);
+
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / MAX_WORKING_DIMENSION));
+  const fieldWidth = Math.ceil(width / factor);
+  const fieldHeight = Math.ceil(height / factor);
+  const values = new Float32Array(fieldWidth * fieldHeight);
+
+  for (let fy = 0; fy < fieldHeight; fy++) {
+    for (let fx = 0; fx < fieldWidth; fx++) {
+      let sum = 0;
+      let count = 0;
+      const yEnd = Math.min(height, (fy + 1) * factor);
+      const xEnd = Math.min(width, (fx + 1) * factor);
+      for (let y = fy * factor; y < yEnd; y++) {
+        for (let x = fx * factor; x < xEnd; x++) {
+          const [r, g, b] = readRgb(pixels, (y * width + x) * channels, channels);
+          const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+          if (cache[key] < 0) {
+            cache[key] = nearestPaletteIndex(lut, r, g, b)[0];
+          }
+          sum += cache[key];
+          count++;
+        }
+      }
+      values[fy * fieldWidth + fx] = sum / (count * 255);
+    }
+  }
+
+  return { width: fieldWidth, height: fieldHeight, values, source: palette, paletteFit: fit };
+}
+
+// Normalize measured temperatures into an intensity field
+export function intensityFieldFromTemperatures(image: RadiometricImage): IntensityField {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const t of image.temperatures) {
+    if (!Number.isFinite(t)) continue;
+    if (t < min) min = t;
+    if (t > max) max = t;
+  }
+
+  const span = max > min ? max - min : 1;
+  const values = new Float32Array(image.temperatures.length);
+  for (let i = 0; i < values.length; i++) {
+    const t = image.temperatures[i];
+    values[i] = Number.isFinite(t) ? (t - min) / span : 0;
+  }
+
+  return { width: image.width, height: image.height, values, source: 'radiometric', paletteFit: 1 };
+}
+
+// Summed-area tables for O(1) local mean / variance lookups
+function buildIntegrals(field: IntensityField): { sum: Float64Array; sumSq: Float64Array } {
+  const { width, height, values } = field;
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < width; x++) {
+      const v = values[y * width + x];
+      rowSum += v;
+      rowSumSq += v * v;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSumSq;
+    }
+  }
+
+  return { sum, sumSq };
+}
+
+function severityFromIntensity(maxIntensity: number, count: number): LocalDetectionResult['severity'] {
+  if (count === 0) return 'none';
+  if (maxIntensity >= 60) return 'critical';
+  if (maxIntensity >= 40) return 'high';
+  if (maxIntensity >= 20) return 'medium';
+  return 'low';
+}
+
+// Adaptive thresholding against the local module background followed by
+// 8-connected component extraction
+export function detectHotspots(
+  field: IntensityField,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: DetectorOptions = {}
+): LocalDetectionResult {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height, values } = field;
+  const pixelCount = width * height;
+  const { sum, sumSq } = buildIntegrals(field);
+  const stride = width + 1;
+
+  let globalMean = 0;
+  for (let i = 0; i < pixelCount; i++) globalMean += values[i];
+  globalMean /= Math.max(1, pixelCount);
+
+  const radius = Math.max(3, Math.round(Math.min(width, height) * opts.windowFraction / 2));
+  const background = new Float32Array(pixelCount);
+  const mask = new Uint8Array(pixelCount);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const n = (y1 - y0) * (x1 - x0);
+      const s = sum[y1 * stride + x1] - sum[y0 * stride + x1] - sum[y1 * stride + x0] + sum[y0 * stride + x0];
+      const sq = sumSq[y1 * stride + x1] - sumSq[y0 * stride + x1] - sumSq[y1 * stride + x0] + sumSq[y0 * stride + x0];
+      const mean = s / n;
+      const std = Math.sqrt(Math.max(0, sq / n - mean * mean));
+      const i = y * width + x;
+      background[i] = mean;
+
+      const v = values[i];
+      if (v > globalMean && v - mean > Math.max(opts.minContrast, opts.stdFactor * std)) {
+        mask[i] = 1;
+      }
+    }
+  }
+
+  const labels = new Int32Array(pixelCount);
+  const stack = new Int32Array(pixelCount);
+  const minArea = Math.max(3, Math.round(pixelCount * 0.00002));
+  const maxArea = pixelCount * 0.5;
+  const scaleX = sourceWidth / width;
+  const scaleY = sourceHeight / height;
+  const hotspots: DetectedHotspot[] = [];
+  let nextLabel = 0;
+
+  for (let start = 0; start < pixelCount; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    nextLabel++;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = nextLabel;
+
+    let area = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumValue = 0;
+    let sumBackground = 0;
+    let peak = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+
+      area++;
+      sumX += x;
+      sumY += y;
+      sumValue += values[i];
+      sumBackground += background[i];
+      if (values[i] > peak) peak = values[i];
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          const j = ny * width + nx;
+          if (mask[j] && !labels[j]) {
+            labels[j] = nextLabel;
+            stack[top++] = j;
+          }
+        }
+      }
+    }
+
+    if (area < minArea || area > maxArea) continue;
+
+    const meanValue = sumValue / area;
+    const backgroundValue = sumBackground / area;
+    const contrast = (meanValue - backgroundValue) / Math.max(0.05, 1 - backgroundValue);
+    const intensity = Math.round(Math.max(0, Math.min(1, contrast)) * 100);
+    const sourceArea = Math.round(area * scaleX * scaleY);
+
+    hotspots.push({
+      x: Math.round(((sumX / area + 0.5) / width) * 100),
+      y: Math.round(((sumY / area + 0.5) / height) * 100),
+      radius: Math.max(1, Math.round(Math.sqrt(sourceArea / Math.PI))),
+      intensity,
+      area: sourceArea,
+      description: `Local thermal anomaly ${Math.round((meanValue - backgroundValue) * 100)}% above surrounding module background`,
+      bbox: {
+        x: Math.round(minX * scaleX),
+        y: Math.round(minY * scaleY),
+        width: Math.max(1, Math.round((maxX - minX + 1) * scaleX)),
+        height: Math.max(1, Math.round((maxY - minY + 1) * scaleY)),
+      },
+      peakIntensity: peak,
+      backgroundIntensity: backgroundValue,
+    });
+  }
+
+  hotspots.sort((a, b) => b.intensity - a.intensity);
+  const selected = hotspots.slice(0, opts.maxHotspots);
+  const maxIntensity = selected.length > 0 ? selected[0].intensity : 0;
+
+  return {
+    hotspots: selected,
+    severity: severityFromIntensity(maxIntensity, selected.length),
+    confidence: Math.round((0.5 + 0.4 * field.paletteFit) * 100) / 100,
+    palette: field.source,
+  };
+}
+
+export function parseDetectionEngine(value: unknown): DetectionEngine | null {
+  return DETECTION_ENGINES.includes(value as DetectionEngine) ? value as DetectionEngine : null;
+}
+
+// Match model-reported hotspots against locally detected ones. Matched pairs
+// are tagged 'both'; unmatched local detections are appended so nothing the
+// detector saw is hidden.
+export function crossCheckHotspots<T extends { x: number; y: number; radius: number }>(
+  llmHotspots: T[],
+  localHotspots: T[],
+  sourceWidth: number,
+  sourceHeight: number
+): {
+  hotspots: Array<T & { source: HotspotSource }>;
+  summary: { matched: number; llmOnly: number; localOnly: number; agreement: number };
+} {
+  const tolerance = Math.hypot(sourceWidth, sourceHeight) * 0.03;
+  const usedLocal = new Set<number>();
+  const hotspots: Array<T & { source: HotspotSource }> = [];
+
+  for (const hotspot of llmHotspots) {
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+
+    localHotspots.forEach((candidate, index) => {
+      if (usedLocal.has(index)) return;
+      const dx = ((hotspot.x - candidate.x) / 100) * sourceWidth;
+      const dy = ((hotspot.y - candidate.y) / 100) * sourceHeight;
+      const distance = Math.hypot(dx, dy);
+      if (distance <= Math.max(tolerance, hotspot.radius, candidate.radius) && distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0) usedLocal.add(bestIndex);
+    hotspots.push({ ...hotspot, source: bestIndex >= 0 ? 'both' : 'llm' });
+  }
+
+  localHotspots.forEach((hotspot, index) => {
+    if (!usedLocal.has(index)) hotspots.push({ ...hotspot, source: 'local' });
+  });
+
+  const matched = usedLocal.size;
+  const total = llmHotspots.length + localHotspots.length - matched;
+  return {
+    hotspots,
+    summary: {
+      matched,
+      llmOnly: llmHotspots.length - matched,
+      localOnly: localHotspots.length - matched,
+      agreement: total > 0 ? Math.round((matched / total) * 100) / 100 : 1,
+    },
+  };
+}
@@ -0,0 +1,448 @@
+// Drone pose extraction from EXIF/XMP and projection of image positions onto
+// the ground plane. Assumes flat terrain at the take-off elevation, which is
+// what the drone's relative altitude is measured against. Stitched GeoTIFF
+// orthomosaics carry their own pixel-to-map transform instead.
+
+export interface DronePose {
+  latitude: number;
+  longitude: number;
+  relativeAltitude: number; // metres above ground (take-off point)
+  absoluteAltitude?: number; // metres above sea level
+  gimbalPitch: number; // degrees, -90 = nadir
+  gimbalYaw: number; // degrees clockwise from true north
+  horizontalFov: number; // degrees
+}
+
+// North-up GeoTIFF transform (tie point plus pixel scale)
+export interface GeoTransform {
+  originX: number; // map X of the top-left pixel corner
+  originY: number;
+  pixelWidth: number; // map units per pixel
+  pixelHeight: number;
+  // 'geographic' maps are in degrees; 'utm' in metres for the given zone
+  crs: { type: 'geographic' } | { type: 'utm'; zone: number; south: boolean };
+}
+
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  // Ground distance covered by one pixel at this position, in metres
+  groundSampleDistance: number;
+}
+
+const EARTH_RADIUS = 6378137;
+const DEG = Math.PI / 180;
+const FULL_FRAME_WIDTH_MM = 36;
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8, 12: 8 };
+
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const GEO_KEY_MODEL_TYPE = 1024;
+const GEO_KEY_GEOGRAPHIC_TYPE = 2048;
+const GEO_KEY_PROJECTED_CS_TYPE = 3072;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+
+// WGS84 ellipsoid, for UTM conversion
+const WGS84_FLATTENING = 1 / 298.257223563;
+const UTM_SCALE = 0.9996;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // absolute offset of the value within the TIFF block
+}
+
+// Minimal TIFF reader: enough to pull GPS and focal length tags from EXIF
+// blocks and the georeferencing tags from GeoTIFF files
+class TiffReader {
+  private readonly tiff: Buffer;
+  private readonly le: boolean;
+
+  constructor(data: Buffer) {
+    const start = data.toString('latin1', 0, 4) === 'Exif' ? 6 : 0;
+    this.tiff = data.subarray(start);
+    this.le = this.tiff.toString('latin1', 0, 2) === 'II';
+  }
+
+  static isTiff(data: Buffer): boolean {
+    const header = data.toString('latin1', 0, 4);
+    return header === 'II*\0' || header === 'MM\0*';
+  }
+
+  u16(offset: number) {
+    return this.le ? this.tiff.readUInt16LE(offset) : this.tiff.readUInt16BE(offset);
+  }
+
+  u32(offset: number) {
+    return this.le ? this.tiff.readUInt32LE(offset) : this.tiff.readUInt32BE(offset);
+  }
+
+  firstIfd(): number {
+    return this.u32(4);
+  }
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    if (offset + 2 > this.tiff.length) return entries;
+
+    const count = this.u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.tiff.length) break;
+      const type = this.u16(entry + 2);
+      const valueCount = this.u32(entry + 4);
+      const size = (TIFF_TYPE_SIZES[type] || 1) * valueCount;
+      entries.set(this.u16(entry), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entry + 8 : this.u32(entry + 8),
+      });
+    }
+    return entries;
+  }
+
+  numbers(entry: IfdEntry | undefined): number[] {
+    if (!entry) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      switch (entry.type) {
+        case 3:
+          values.push(this.u16(entry.valueOffset + i * 2));
+          break;
+        case 4:
+          values.push(this.u32(entry.valueOffset + i * 4));
+          break;
+        case 5:
+        case 10: {
+          const offset = entry.valueOffset + i * 8;
+          const numerator = this.u32(offset);
+          const denominator = this.u32(offset + 4);
+          const signedNumerator = entry.type === 10 ? numerator | 0 : numerator;
+          const signedDenominator = entry.type === 10 ? denominator | 0 : denominator;
+          values.push(signedDenominator ? signedNumerator / signedDenominator : 0);
+          break;
+        }
+        case 12: {
+          const offset = entry.valueOffset + i * 8;
+          values.push(this.le ? this.tiff.readDoubleLE(offset) : this.tiff.readDoubleBE(offset));
+          break;
+        }
+        default:
+          values.push(this.tiff[entry.valueOffset + i]);
+      }
+    }
+    return values;
+  }
+
+  text(entry: IfdEntry | undefined): string {
+    if (!entry) return '';
+    return this.tiff.toString('latin1', entry.valueOffset, entry.valueOffset + entry.count).replace(/\0/g, '').trim();
+  }
+}
+
+function dmsToDecimal(dms: number[], ref: string): number | null {
+  if (dms.length < 3) return null;
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+}
+
+// Drone vendor namespaces that record positions as signed decimal degrees
+const DRONE_XMP_NAMESPACES = ['drone-dji', 'Camera'];
+
+function readXmpValue(xmp: string, name: string, namespaces?: string[]): string | null {
+  const prefix = namespaces ? `(?:${namespaces.join('|')}):` : '(?:[\\w-]+:)?';
+  const match = xmp.match(new RegExp(`(?<![\\w-])${prefix}${name}(?:="([^"]*)"|>([^<]*)<)`));
+  return match ? (match[1] ?? match[2]).trim() : null;
+}
+
+// XMP values appear either as attributes (drone-dji:RelativeAltitude="+35.2")
+// or as elements, depending on the writer. `namespaces` restricts the match
+// to those prefixes, e.g. so "Latitude" does not hit exif:GPSLatitude.
+function readXmpNumber(xmp: string, names: string[], namespaces?: string[]): number | null {
+  for (const name of names) {
+    const text = readXmpValue(xmp, name, namespaces);
+    if (text !== null) {
+      const value = parseFloat(text);
+      if (Number.isFinite(value)) return value;
+    }
+  }
+  return null;
+}
+
+// XMP copies of the EXIF GPS tags (exif:GPSLatitude="52,30.5N") are
+// "DDD,MM,SSk" or "DDD,MM.mmk", with k the hemisphere
+function readXmpExifCoordinate(xmp: string, name: string): number | null {
+  const text = readXmpValue(xmp, name, ['exif']);
+  const parts = text?.match(/^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!parts) return null;
+  return dmsToDecimal([Number(parts[1]), Number(parts[2]), Number(parts[3] ?? 0)], parts[4].toUpperCase());
+}
+
+function fovFromFocalLength35mm(focalLength35mm: number): number {
+  return 2 * Math.atan(FULL_FRAME_WIDTH_MM / (2 * focalLength35mm)) / DEG;
+}
+
+// Read the drone pose from image metadata. `fallbackFov` (degrees) is used
+// when the file doesn't carry enough lens information to derive it.
+export function extractDronePose(
+  exif: Buffer | undefined,
+  xmp: Buffer | undefined,
+  fallbackFov?: number
+): DronePose | null {
+  const xmpText = xmp ? xmp.toString('utf-8') : '';
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  let gpsAltitude: number | null = null;
+  let focalLength35mm: number | null = null;
+
+  if (exif && exif.length > 8) {
+    try {
+      const reader = new TiffReader(exif);
+      const ifd0 = reader.readIfd(reader.firstIfd());
+
+      const gpsPointer = reader.numbers(ifd0.get(0x8825))[0];
+      if (gpsPointer) {
+        const gps = reader.readIfd(gpsPointer);
+        latitude = dmsToDecimal(reader.numbers(gps.get(0x02)), reader.text(gps.get(0x01)));
+        longitude = dmsToDecimal(reader.numbers(gps.get(0x04)), reader.text(gps.get(0x03)));
+        const altitude = reader.numbers(gps.get(0x06))[0];
+        if (altitude !== undefined) {
+          gpsAltitude = reader.numbers(gps.get(0x05))[0] === 1 ? -altitude : altitude;
+        }
+      }
+
+      const exifPointer = reader.numbers(ifd0.get(0x8769))[0];
+      if (exifPointer) {
+        const exifIfd = reader.readIfd(exifPointer);
+        focalLength35mm = reader.numbers(exifIfd.get(0xa405))[0] || null;
+      }
+    } catch (error) {
+      console.error('EXIF parsing failed:', error);
+    }
+  }
+
+  // Some thermal payloads only record position in XMP
+  latitude ??= readXmpNumber(xmpText, ['GpsLatitude', 'Latitude'], DRONE_XMP_NAMESPACES)
+    ?? readXmpExifCoordinate(xmpText, 'GPSLatitude');
+  longitude ??= readXmpNumber(xmpText, ['GpsLongitude', 'GpsLongtitude', 'Longitude'], DRONE_XMP_NAMESPACES)
+    ?? readXmpExifCoordinate(xmpText, 'GPSLongitude');
+
+  const relativeAltitude = readXmpNumber(xmpText, ['RelativeAltitude']);
+  const gimbalPitch = readXmpNumber(xmpText, ['GimbalPitchDegree', 'GimbalPitch', 'CameraPitch']);
+  const gimbalYaw = readXmpNumber(xmpText, ['GimbalYawDegree', 'GimbalYaw', 'CameraYaw', 'FlightYawDegree']);
+  const xmpFov = readXmpNumber(xmpText, ['FieldOfView', 'HorizontalFieldOfView']);
+  const horizontalFov = xmpFov ?? (focalLength35mm ? fovFromFocalLength35mm(focalLength35mm) : fallbackFov);
+
+  if (latitude === null || longitude === null || relativeAltitude === null || !horizontalFov) {
+    return null;
+  }
+
+  return {
+    latitude,
+    longitude,
+    relativeAltitude,
+    absoluteAltitude: readXmpNumber(xmpText, ['AbsoluteAltitude']) ?? gpsAltitude ?? undefined,
+    gimbalPitch: gimbalPitch ?? -90,
+    gimbalYaw: gimbalYaw ?? 0,
+    horizontalFov,
+  };
+}
+
+// Horizontal FOV (degrees) of the lens that took the image, from XMP or the
+// 35mm-equivalent focal length; null when the file records neither
+export function readHorizontalFov(exif: Buffer | undefined, xmp: Buffer | undefined): number | null {
+  const xmpFov = readXmpNumber(xmp ? xmp.toString('utf-8') : '', ['FieldOfView', 'HorizontalFieldOfView']);
+  if (xmpFov) return xmpFov;
+  if (!exif || exif.length <= 8) return null;
+
+  try {
+    const reader = new TiffReader(exif);
+    const exifPointer = reader.numbers(reader.readIfd(reader.firstIfd()).get(0x8769))[0];
+    const focalLength35mm = exifPointer ? reader.numbers(reader.readIfd(exifPointer).get(0xa405))[0] : 0;
+    return focalLength35mm ? fovFromFocalLength35mm(focalLength35mm) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Cast a ray through the image position (percent coordinates) and intersect
+// it with the ground plane. Returns null for positions at or above the horizon.
+export function projectToGround(
+  pose: DronePose,
+  position: { x: number; y: number },
+  imageWidth: number,
+  imageHeight: number
+): GeoPosition | null {
+  if (pose.relativeAltitude <= 0) return null;
+
+  const halfHorizontal = Math.tan((pose.horizontalFov / 2) * DEG);
+  const halfVertical = halfHorizontal * (imageHeight / imageWidth);
+  const rightOffset = (position.x / 50 - 1) * halfHorizontal;
+  const downOffset = (position.y / 50 - 1) * halfVertical;
+
+  // Camera axes in east/north/up; depression is the angle below the horizon
+  const depression = -pose.gimbalPitch * DEG;
+  const yaw = pose.gimbalYaw * DEG;
+  const forward = [Math.cos(depression) * Math.sin(yaw), Math.cos(depression) * Math.cos(yaw), -Math.sin(depression)];
+  const right = [Math.cos(yaw), -Math.sin(yaw), 0];
+  const up = [Math.sin(depression) * Math.sin(yaw), Math.sin(depression) * Math.cos(yaw), Math.cos(depression)];
+
+  const ray = [0, 1, 2].map(i => forward[i] + right[i] * rightOffset - up[i] * downOffset);
+  if (ray[2] >= -1e-6) return null;
+
+  const distance = pose.relativeAltitude / -ray[2];
+  const east = ray[0] * distance;
+  const north = ray[1] * distance;
+
+  const latitude = pose.latitude + (north / EARTH_RADIUS) / DEG;
+  const longitude = pose.longitude + (east / (EARTH_RADIUS * Math.cos(pose.latitude * DEG))) / DEG;
+  const rayLength = Math.hypot(ray[0], ray[1], ray[2]);
+  const slantRange = distance * rayLength;
+
+  return {
+    latitude: Math.round(latitude * 1e7) / 1e7,
+    longitude: Math.round(longitude * 1e7) / 1e7,
+    groundSampleDistance: Math.round(((2 * slantRange * halfHorizontal) / imageWidth) * 1000) / 1000,
+  };
+}
+
+// Read the georeferencing of a north-up GeoTIFF. Supports geographic
+// (lat/lng) and WGS84 UTM maps, which covers common photogrammetry exports.
+export function readGeoTransform(buffer: Buffer): GeoTransform | null {
+  if (buffer.length < 8 || !TiffReader.isTiff(buffer)) return null;
+
+  try {
+    const reader = new TiffReader(buffer);
+    const ifd = reader.readIfd(reader.firstIfd());
+    const scale = reader.numbers(ifd.get(TAG_MODEL_PIXEL_SCALE));
+    const tiepoint = reader.numbers(ifd.get(TAG_MODEL_TIEPOINT));
+    const keyDirectory = reader.numbers(ifd.get(TAG_GEO_KEY_DIRECTORY));
+    if (scale.length < 2 || tiepoint.length < 6 || keyDirectory.length < 4) return null;
+
+    // Header of four shorts, then [keyId, location, count, value] entries;
+    // only inline short values are needed here
+    const keys = new Map<number, number>();
+    for (let i = 0; i < keyDirectory[3]; i++) {
+      const entry = 4 + i * 4;
+      if (keyDirectory[entry + 1] === 0) keys.set(keyDirectory[entry], keyDirectory[entry + 3]);
+    }
+
+    let crs: GeoTransform['crs'] | null = null;
+    const projected = keys.get(GEO_KEY_PROJECTED_CS_TYPE);
+    if (keys.get(GEO_KEY_MODEL_TYPE) === MODEL_TYPE_GEOGRAPHIC || (keys.has(GEO_KEY_GEOGRAPHIC_TYPE) && !projected)) {
+      crs = { type: 'geographic' };
+    } else if (projected && projected >= 32601 && projected <= 32760 && projected % 100 <= 60) {
+      // EPSG:326zz (north) and 327zz (south)
+      crs = { type: 'utm', zone: projected % 100, south: projected >= 32701 };
+    }
+    if (!crs) return null;
+
+    const [tieI, tieJ, , tieX, tieY] = tiepoint;
+    return {
+      originX: tieX - tieI * scale[0],
+      originY: tieY + tieJ * scale[1],
+      pixelWidth: scale[0],
+      pixelHeight: scale[1],
+      crs,
+    };
+  } catch (error) {
+    console.error('GeoTIFF parsing failed:', error);
+    return null;
+  }
+}
+
+// Inverse transverse Mercator (USGS series) for WGS84 UTM coordinates
+function utmToLatLng(easting: number, northing: number, zone: number, south: boolean) {
+  const e2 = WGS84_FLATTENING * (2 - WGS84_FLATTENING);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const x = easting - 500000;
+  const y = south ? northing - 10000000 : northing;
+
+  const mu = y / UTM_SCALE / (EARTH_RADIUS * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
+  const phi = mu
+    + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+    + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+    + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+    + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = EARTH_RADIUS / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = Math.tan(phi) ** 2;
+  const c = ep2 * cosPhi * cosPhi;
+  const r = EARTH_RADIUS * (1 - e2) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5);
+  const d = x / (n * UTM_SCALE);
+
+  const latitude = phi - (n * Math.tan(phi) / r) * (
+    d * d / 2
+    - (5 + 3 * t + 10 * c - 4 * c * c - 9 * ep2) * d ** 4 / 24
+    + (61 + 90 * t + 298 * c + 45 * t * t - 252 * ep2 - 3 * c * c) * d ** 6 / 720
+  );
+  const longitude = (
+    d
+    - (1 + 2 * t + c) * d ** 3 / 6
+    + (5 - 2 * c + 28 * t - 3 * c * c + 8 * ep2 + 24 * t * t) * d ** 5 / 120
+  ) / cosPhi;
+
+  return { latitude: latitude / DEG, longitude: (zone - 1) * 6 - 177 + longitude / DEG };
+}
+
+// Map an image position (pixels) through a GeoTIFF transform
+export function pixelToGeo(transform: GeoTransform, px: number, py: number): GeoPosition {
+  const mapX = transform.originX + px * transform.pixelWidth;
+  const mapY = transform.originY - py * transform.pixelHeight;
+
+  const { latitude, longitude } = transform.crs.type === 'utm'
+    ? utmToLatLng(mapX, mapY, transform.crs.zone, transform.crs.south)
+    : { latitude: mapY, longitude: mapX };
+  const metresPerPixel = transform.crs.type === 'utm'
+    ? transform.pixelWidth
+    : transform.pixelWidth * DEG * EARTH_RADIUS * Math.cos(latitude * DEG);
+
+  return {
+    latitude: Math.round(latitude * 1e7) / 1e7,
+    longitude: Math.round(longitude * 1e7) / 1e7,
+    groundSampleDistance: Math.round(metresPerPixel * 1000) / 1000,
+  };
+}
+
+// Ground position of an image position, from the drone pose for single
+// frames or the GeoTIFF transform for orthomosaics
+export function imagePositionGeo(
+  position: { x: number; y: number }, // percent
+  width: number,
+  height: number,
+  pose: DronePose | null,
+  geoTransform: GeoTransform | null
+): GeoPosition | null {
+  if (pose) return projectToGround(pose, position, width, height);
+  if (geoTransform) return pixelToGeo(geoTransform, (position.x / 100) * width, (position.y / 100) * height);
+  return null;
+}
+
+// Georeferencing summary for result metadata
+export function georeferenceMetadata(pose: DronePose | null, geoTransform: GeoTransform | null) {
+  if (pose) {
+    return {
+      model: 'flat-ground',
+      latitude: pose.latitude,
+      longitude: pose.longitude,
+      relativeAltitude: pose.relativeAltitude,
+      absoluteAltitude: pose.absoluteAltitude ?? null,
+      gimbalPitch: pose.gimbalPitch,
+      gimbalYaw: pose.gimbalYaw,
+      horizontalFov: Math.round(pose.horizontalFov * 10) / 10
+    };
+  }
+  if (geoTransform) {
+    return {
+      model: 'geotiff',
+      crs: geoTransform.crs,
+      pixelSize: { width: geoTransform.pixelWidth, height: geoTransform.pixelHeight }
+    };
+  }
+  return null;
+}
@@ -0,0 +1,292 @@
+// Module and cell grid segmentation for nadir PV array frames (thermal or RGB).
+// Module frames and the gaps between modules produce strong, regularly spaced
+// edges; projecting gradient magnitude onto each axis exposes them as peaks.
+// Assumes the array rows are roughly aligned with the image axes, which holds
+// for standard flight plans flown along the rows.
+
+export interface GridModule {
+  id: string; // e.g. "r3c7"
+  row: number; // 1-based, top to bottom
+  column: number; // 1-based, left to right
+  bbox: { x: number; y: number; width: number; height: number }; // display pixels
+  cells: { columns: number; rows: number };
+}
+
+export interface ModuleGrid {
+  modules: GridModule[];
+  rows: number;
+  columns: number;
+  cellSize: { width: number; height: number }; // display pixels
+  confidence: number;
+}
+
+export interface HotspotLocation {
+  moduleId: string;
+  row: number;
+  column: number;
+  cell: { column: number; row: number }; // 1-based within the module
+  label: string; // "module r3c7, cell 5×2"
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const MAX_WORKING_DIMENSION = 800;
+// Standard 60-cell modules are 6 cells across the short side, 10 along the long side
+const DEFAULT_CELLS = { short: 6, long: 10 };
+// A grid needs repeated module spans on both axes with similar lengths;
+// anything less is a frame without a visible array (sky, roof, close-up)
+const MIN_SPANS = 2;
+const MIN_REGULARITY = 0.6;
+
+function luminanceField(pixels: Buffer, width: number, height: number, channels: number) {
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / MAX_WORKING_DIMENSION));
+  const fw = Math.ceil(width / factor);
+  const fh = Math.ceil(height / factor);
+  const values = new Float32Array(fw * fh);
+
+  for (let fy = 0; fy < fh; fy++) {
+    for (let fx = 0; fx < fw; fx++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = fy * factor; y < Math.min(height, (fy + 1) * factor); y++) {
+        for (let x = fx * factor; x < Math.min(width, (fx + 1) * factor); x++) {
+          const i = (y * width + x) * channels;
+          sum += channels < 3 ? pixels[i] : 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+          count++;
+        }
+      }
+      values[fy * fw + fx] = sum / count;
+    }
+  }
+
+  return { width: fw, height: fh, values, factor };
+}
+
+function smooth(profile: Float64Array, radius: number): Float64Array {
+  const out = new Float64Array(profile.length);
+  for (let i = 0; i < profile.length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(profile.length - 1, i + radius); j++) {
+      sum += profile[j];
+      count++;
+    }
+    out[i] = sum / count;
+  }
+  return out;
+}
+
+// Gradient energy across each column (axis 'x') or row (axis 'y')
+function edgeProfile(field: { width: number; height: number; values: Float32Array }, axis: 'x' | 'y'): Float64Array {
+  const { width, height, values } = field;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float64Array(length);
+
+  for (let y = 0; y < height - (axis === 'y' ? 1 : 0); y++) {
+    for (let x = 0; x < width - (axis === 'x' ? 1 : 0); x++) {
+      const i = y * width + x;
+      const next = axis === 'x' ? i + 1 : i + width;
+      profile[axis === 'x' ? x : y] += Math.abs(values[next] - values[i]);
+    }
+  }
+
+  return smooth(profile, 1);
+}
+
+function strongPeaks(profile: Float64Array, minSeparation: number): number[] {
+  let mean = 0;
+  for (const v of profile) mean += v;
+  mean /= profile.length;
+  let variance = 0;
+  for (const v of profile) variance += (v - mean) * (v - mean);
+  const threshold = mean + 1.5 * Math.sqrt(variance / profile.length);
+
+  const candidates: number[] = [];
+  for (let i = 1; i < profile.length - 1; i++) {
+    if (profile[i] >= threshold && profile[i] >= profile[i - 1] && profile[i] >= profile[i + 1]) {
+      candidates.push(i);
+    }
+  }
+
+  // Keep the strongest peak within each separation window
+  candidates.sort((a, b) => profile[b] - profile[a]);
+  const peaks: number[] = [];
+  for (const c of candidates) {
+    if (peaks.every(p => Math.abs(p - c) >= minSeparation)) peaks.push(c);
+  }
+  return peaks.sort((a, b) => a - b);
+}
+
+// Turn boundary peaks into module spans, dropping the narrow gaps between
+// neighbouring modules and clipped partial modules at the frame edge
+function moduleIntervals(peaks: number[], length: number): Interval[] {
+  const edges = [0, ...peaks, length - 1];
+  const spans: Interval[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    spans.push({ start: edges[i], end: edges[i + 1] });
+  }
+
+  const lengths = spans.map(s => s.end - s.start).sort((a, b) => a - b);
+  const typical = lengths[Math.floor(lengths.length * 0.75)] || length;
+
+  return spans.filter((span, i) => {
+    const spanLength = span.end - span.start;
+    const atFrameEdge = i === 0 || i === spans.length - 1;
+    return spanLength >= typical * (atFrameEdge ? 0.9 : 0.5);
+  });
+}
+
+// Estimate the number of cells across a module from the periodicity of the
+// edge profile inside it (cell gaps and busbars repeat at the cell pitch)
+function cellCount(profile: Float64Array, span: Interval, fallback: number): number {
+  const segment = Array.from(profile.slice(span.start + 1, span.end));
+  const length = segment.length;
+  if (length < 12) return fallback;
+
+  const mean = segment.reduce((a, b) => a + b, 0) / length;
+  const centered = segment.map(v => v - mean);
+  const minLag = Math.max(2, Math.floor(length / 30));
+  const maxLag = Math.floor(length / 2);
+  const scores: number[] = [];
+
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let score = 0;
+    for (let i = 0; i + lag < length; i++) score += centered[i] * centered[i + lag];
+    scores.push(score / Math.max(1, length - lag));
+  }
+
+  // Multiples of the cell pitch correlate almost as well as the pitch itself,
+  // so take the first strong local maximum rather than the global one
+  const bestScore = Math.max(...scores);
+  let bestLag = 0;
+  for (let i = 1; i < scores.length - 1 && bestScore > 0; i++) {
+    if (scores[i] >= scores[i - 1] && scores[i] >= scores[i + 1] && scores[i] >= bestScore * 0.8) {
+      // Parabolic interpolation for a sub-pixel pitch
+      const curvature = scores[i - 1] - 2 * scores[i] + scores[i + 1];
+      const shift = curvature !== 0 ? 0.5 * (scores[i - 1] - scores[i + 1]) / curvature : 0;
+      bestLag = minLag + i + shift;
+      break;
+    }
+  }
+
+  const count = bestLag > 0 ? Math.round(length / bestLag) : 0;
+  return count >= 2 && count <= 30 ? count : fallback;
+}
+
+function mode(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function regularity(intervals: Interval[]): number {
+  if (intervals.length < 2) return 0.5;
+  const lengths = intervals.map(i => i.end - i.start);
+  const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  const std = Math.sqrt(lengths.reduce((a, b) => a + (b - mean) * (b - mean), 0) / lengths.length);
+  return Math.max(0, 1 - std / mean);
+}
+
+export function segmentModuleGrid(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  channels: number
+): ModuleGrid | null {
+  const field = luminanceField(pixels, width, height, channels);
+  const columnProfile = edgeProfile(field, 'x');
+  const rowProfile = edgeProfile(field, 'y');
+
+  const columnSpans = moduleIntervals(strongPeaks(columnProfile, Math.max(2, field.width / 150)), field.width);
+  const rowSpans = moduleIntervals(strongPeaks(rowProfile, Math.max(2, field.height / 150)), field.height);
+  if (columnSpans.length < MIN_SPANS || rowSpans.length < MIN_SPANS) return null;
+  const columnRegularity = regularity(columnSpans);
+  const rowRegularity = regularity(rowSpans);
+  if (columnRegularity < MIN_REGULARITY || rowRegularity < MIN_REGULARITY) return null;
+
+  // Cell counts are shared across a row/column of modules; take the most
+  // common estimate so a single noisy module doesn't skew the grid
+  const medianWidth = columnSpans.map(s => s.end - s.start).sort((a, b) => a - b)[Math.floor(columnSpans.length / 2)];
+  const medianHeight = rowSpans.map(s => s.end - s.start).sort((a, b) => a - b)[Math.floor(rowSpans.length / 2)];
+  const landscape = medianWidth >= medianHeight;
+  const cellColumns = mode(columnSpans.map(s => cellCount(columnProfile, s, landscape ? DEFAULT_CELLS.long : DEFAULT_CELLS.short)));
+  const cellRows = mode(rowSpans.map(s => cellCount(rowProfile, s, landscape ? DEFAULT_CELLS.short : DEFAULT_CELLS.long)));
+
+  const scaleX = width / field.width;
+  const scaleY = height / field.height;
+  const modules: GridModule[] = [];
+
+  rowSpans.forEach((rowSpan, r) => {
+    columnSpans.forEach((columnSpan, c) => {
+      modules.push({
+        id: `r${r + 1}c${c + 1}`,
+        row: r + 1,
+        column: c + 1,
+        bbox: {
+          x: Math.round(columnSpan.start * scaleX),
+          y: Math.round(rowSpan.start * scaleY),
+          width: Math.round((columnSpan.end - columnSpan.start) * scaleX),
+          height: Math.round((rowSpan.end - rowSpan.start) * scaleY),
+        },
+        cells: { columns: cellColumns, rows: cellRows },
+      });
+    });
+  });
+
+  const confidence = Math.round(((columnRegularity + rowRegularity) / 2) * 100) / 100;
+
+  return {
+    modules,
+    rows: rowSpans.length,
+    columns: columnSpans.length,
+    cellSize: {
+      width: Math.round((medianWidth * scaleX) / cellColumns),
+      height: Math.round((medianHeight * scaleY) / cellRows),
+    },
+    confidence,
+  };
+}
+
+// Map a hotspot centre (percent coordinates) to its module and cell. Centres
+// falling in the gap between modules snap to the nearest module within half a
+// cell; anything further out is reported as unlocated.
+export function locateHotspot(
+  grid: ModuleGrid,
+  hotspot: { x: number; y: number },
+  displayWidth: number,
+  displayHeight: number
+): HotspotLocation | null {
+  const px = (hotspot.x / 100) * displayWidth;
+  const py = (hotspot.y / 100) * displayHeight;
+  const tolerance = Math.max(grid.cellSize.width, grid.cellSize.height) / 2;
+
+  let best: GridModule | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of grid.modules) {
+    const { x, y, width, height } = candidate.bbox;
+    const dx = Math.max(x - px, 0, px - (x + width));
+    const dy = Math.max(y - py, 0, py - (y + height));
+    const distance = Math.hypot(dx, dy);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+
+  if (!best || bestDistance > tolerance) return null;
+
+  const { bbox, cells } = best;
+  const cellColumn = Math.min(cells.columns, Math.max(1, Math.floor(((px - bbox.x) / bbox.width) * cells.columns) + 1));
+  const cellRow = Math.min(cells.rows, Math.max(1, Math.floor(((py - bbox.y) / bbox.height) * cells.rows) + 1));
+
+  return {
+    moduleId: best.id,
+    row: best.row,
+    column: best.column,
+    cell: { column: cellColumn, row: cellRow },
+    label: `module ${best.id}, cell ${cellColumn}×${cellRow}`,
+  };
+}
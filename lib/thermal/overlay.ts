@@ -0,0 +1,153 @@
+import sharp from 'sharp';
+
+// Renders hotspot findings onto the inspected image as a PNG: numbered
+// markers, a temperature (or intensity) legend and the severity badge, so the
+// result can be pasted into reports without losing the markers.
+
+export type OverlayStyle = 'circle' | 'box';
+export type OverlaySeverity = 'critical' | 'high' | 'medium' | 'low' | 'none' | 'unknown';
+
+export interface OverlayHotspot {
+  x: number; // percent
+  y: number; // percent
+  radius: number; // pixels
+  intensity: number;
+  bbox?: { x: number; y: number; width: number; height: number };
+  temperature?: { min: number; max: number; mean: number } | null;
+  classification?: { anomalyClass?: string | null; severity?: string | null } | null;
+  location?: { label: string } | null;
+}
+
+export interface OverlayOptions {
+  severity: OverlaySeverity;
+  style?: OverlayStyle;
+  // Measured temperature range for the legend; intensity is shown otherwise
+  temperatureRange?: { min: number; max: number } | null;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+  none: '#16a34a',
+  unknown: '#6b7280',
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function markerColor(hotspot: OverlayHotspot): string {
+  const severity = hotspot.classification?.severity;
+  if (severity && Object.hasOwn(SEVERITY_COLORS, severity)) return SEVERITY_COLORS[severity];
+  if (hotspot.intensity >= 60) return SEVERITY_COLORS.critical;
+  if (hotspot.intensity >= 40) return SEVERITY_COLORS.high;
+  if (hotspot.intensity >= 20) return SEVERITY_COLORS.medium;
+  return SEVERITY_COLORS.low;
+}
+
+function renderMarkers(hotspots: OverlayHotspot[], width: number, height: number, unit: number, style: OverlayStyle): string {
+  return hotspots.map((hotspot, index) => {
+    const color = markerColor(hotspot);
+    const cx = (hotspot.x / 100) * width;
+    const cy = (hotspot.y / 100) * height;
+    const r = Math.max(hotspot.radius, unit * 4);
+    const stroke = unit * 1.2;
+
+    const shape = style === 'box'
+      ? (() => {
+          const box = hotspot.bbox ?? { x: cx - r, y: cy - r, width: r * 2, height: r * 2 };
+          return `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`;
+        })()
+      : `<circle cx="${cx}" cy="${cy}" r="${r}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`;
+
+    // Number tag sits above-right of the marker, clamped inside the frame
+    const tagRadius = unit * 5;
+    const tagX = Math.min(width - tagRadius, Math.max(tagRadius, cx + r * 0.7));
+    const tagY = Math.min(height - tagRadius, Math.max(tagRadius, cy - r * 0.7));
+
+    return `${shape}
+      <circle cx="${tagX}" cy="${tagY}" r="${tagRadius}" fill="${color}" stroke="#ffffff" stroke-width="${unit * 0.6}"/>
+      <text x="${tagX}" y="${tagY + unit * 2}" font-size="${unit * 6}" font-family="sans-serif" font-weight="bold" fill="#ffffff" text-anchor="middle">${index + 1}</text>`;
+  }).join('\n');
+}
+
+function renderLegend(hotspots: OverlayHotspot[], options: OverlayOptions, height: number, unit: number): string {
+  const lineHeight = unit * 7;
+  const lines = hotspots.slice(0, 10).map((hotspot, index) => {
+    const parts = [`#${index + 1}`];
+    if (hotspot.location) parts.push(hotspot.location.label);
+    if (hotspot.temperature) parts.push(`${hotspot.temperature.max.toFixed(1)}°C`);
+    else parts.push(`${hotspot.intensity}%`);
+    if (hotspot.classification?.anomalyClass) parts.push(hotspot.classification.anomalyClass);
+    return parts.join('  ');
+  });
+  if (hotspots.length > 10) lines.push(`+${hotspots.length - 10} more`);
+
+  const scaleLabel = options.temperatureRange
+    ? `${options.temperatureRange.min.toFixed(1)}°C – ${options.temperatureRange.max.toFixed(1)}°C`
+    : 'Intensity 0 – 100%';
+  const barWidth = unit * 60;
+  const boxWidth = Math.max(barWidth + unit * 8, ...lines.map(l => l.length * unit * 3.2 + unit * 8));
+  const boxHeight = lineHeight * (lines.length + 2) + unit * 6;
+  const top = height - boxHeight - unit * 4;
+  const left = unit * 4;
+
+  const entries = lines.map((line, i) =>
+    `<text x="${left + unit * 4}" y="${top + unit * 4 + lineHeight * (i + 3)}" font-size="${unit * 5}" font-family="sans-serif" fill="#ffffff">${escapeXml(line)}</text>`
+  ).join('\n');
+
+  return `<defs>
+      <linearGradient id="legend-scale" x1="0" y1="0" x2="1" y2="0">
+        <stop offset="0%" stop-color="#1e1b4b"/>
+        <stop offset="35%" stop-color="#9333ea"/>
+        <stop offset="65%" stop-color="#f97316"/>
+        <stop offset="100%" stop-color="#fef08a"/>
+      </linearGradient>
+    </defs>
+    <rect x="${left}" y="${top}" width="${boxWidth}" height="${boxHeight}" rx="${unit * 2}" fill="#000000" fill-opacity="0.65"/>
+    <rect x="${left + unit * 4}" y="${top + unit * 4}" width="${barWidth}" height="${unit * 4}" fill="url(#legend-scale)"/>
+    <text x="${left + unit * 4}" y="${top + unit * 4 + lineHeight * 1.7}" font-size="${unit * 5}" font-family="sans-serif" fill="#ffffff">${escapeXml(scaleLabel)}</text>
+    ${entries}`;
+}
+
+function renderSeverityBadge(severity: OverlaySeverity, width: number, unit: number): string {
+  const label = severity.toUpperCase();
+  const badgeWidth = label.length * unit * 4.5 + unit * 10;
+  const badgeHeight = unit * 10;
+  const x = width - badgeWidth - unit * 4;
+  const y = unit * 4;
+
+  return `<rect x="${x}" y="${y}" width="${badgeWidth}" height="${badgeHeight}" rx="${unit * 2}" fill="${SEVERITY_COLORS[severity] || SEVERITY_COLORS.unknown}"/>
+    <text x="${x + badgeWidth / 2}" y="${y + badgeHeight * 0.68}" font-size="${unit * 6}" font-family="sans-serif" font-weight="bold" fill="#ffffff" text-anchor="middle">${escapeXml(label)}</text>`;
+}
+
+export async function renderHotspotOverlay(
+  image: Buffer,
+  hotspots: OverlayHotspot[],
+  options: OverlayOptions
+): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error('Invalid image dimensions');
+  }
+
+  // Scale strokes and text with the frame so small thermal frames and large
+  // orthomosaics both stay legible
+  const unit = Math.max(1.5, Math.min(width, height) / 250);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    ${renderMarkers(hotspots, width, height, unit, options.style ?? 'circle')}
+    ${renderLegend(hotspots, options, height, unit)}
+    ${renderSeverityBadge(options.severity, width, unit)}
+  </svg>`;
+
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
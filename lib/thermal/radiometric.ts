@@ -0,0 +1,342 @@
+import sharp from 'sharp';
+
+// Radiometric R-JPEG support for FLIR-format thermal cameras.
+// The raw sensor matrix and Planck calibration constants live in an FFF
+// container that is split across one or more APP1 segments tagged "FLIR\0".
+
+const FLIR_APP1_HEADER = 'FLIR\0';
+const FFF_RECORD_RAW_DATA = 0x01;
+const FFF_RECORD_CAMERA_INFO = 0x20;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const KELVIN_OFFSET = 273.15;
+
+export interface RadiometricCalibration {
+  planckR1: number;
+  planckR2: number;
+  planckB: number;
+  planckF: number;
+  planckO: number;
+  emissivity: number;
+  objectDistance: number; // metres
+  reflectedTemperature: number; // °C
+  atmosphericTemperature: number; // °C
+  irWindowTemperature: number; // °C
+  irWindowTransmission: number;
+  relativeHumidity: number; // percent
+  atmosphericTransAlpha1: number;
+  atmosphericTransAlpha2: number;
+  atmosphericTransBeta1: number;
+  atmosphericTransBeta2: number;
+  atmosphericTransX: number;
+}
+
+export interface RadiometricImage {
+  width: number;
+  height: number;
+  temperatures: Float32Array; // °C, row-major
+  calibration: RadiometricCalibration;
+  cameraModel?: string;
+  fieldOfView?: number; // horizontal, degrees
+}
+
+export interface TemperatureStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+interface FffRecord {
+  type: number;
+  data: Buffer;
+}
+
+// Reassemble the FFF container from the FLIR APP1 segments (which may be
+// split and must be ordered by their segment index)
+function extractFlirContainer(buffer: Buffer): Buffer | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return null;
+  }
+
+  const segments: Array<{ index: number; data: Buffer }> = [];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) break;
+    const marker = buffer[offset + 1];
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan: no more metadata segments follow
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const payload = buffer.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && payload.length > 8 && payload.toString('latin1', 0, 5) === FLIR_APP1_HEADER) {
+      segments.push({ index: payload[6], data: payload.subarray(8) });
+    }
+
+    offset += 2 + length;
+  }
+
+  if (segments.length === 0) return null;
+
+  segments.sort((a, b) => a.index - b.index);
+  return Buffer.concat(segments.map(s => s.data));
+}
+
+function parseFffRecords(fff: Buffer): FffRecord[] {
+  if (fff.length < 32) return [];
+  const magic = fff.toString('latin1', 0, 3);
+  if (magic !== 'FFF' && magic !== 'AFF') return [];
+
+  // Header is normally big-endian; the version field tells us otherwise
+  const versionBE = fff.readUInt32BE(20);
+  const littleEndian = versionBE < 100 || versionBE >= 200;
+  const readU16 = (o: number) => littleEndian ? fff.readUInt16LE(o) : fff.readUInt16BE(o);
+  const readU32 = (o: number) => littleEndian ? fff.readUInt32LE(o) : fff.readUInt32BE(o);
+
+  const directoryOffset = readU32(24);
+  const entryCount = readU32(28);
+  const records: FffRecord[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = directoryOffset + i * 32;
+    if (entry + 32 > fff.length) break;
+
+    const type = readU16(entry);
+    const dataOffset = readU32(entry + 12);
+    const length = readU32(entry + 16);
+
+    if (type === 0 || dataOffset + length > fff.length) continue;
+    records.push({ type, data: fff.subarray(dataOffset, dataOffset + length) });
+  }
+
+  return records;
+}
+
+// Records store a 0x0002 marker in their first word so the byte order can be detected
+function isLittleEndianRecord(data: Buffer): boolean {
+  return data.readUInt16LE(0) === 2;
+}
+
+function parseCameraInfo(data: Buffer): { calibration: RadiometricCalibration; cameraModel?: string; fieldOfView?: number } | null {
+  if (data.length < 0x310) return null;
+
+  const le = isLittleEndianRecord(data);
+  const float = (o: number) => le ? data.readFloatLE(o) : data.readFloatBE(o);
+  const int32 = (o: number) => le ? data.readInt32LE(o) : data.readInt32BE(o);
+
+  const rawHumidity = float(0x3c);
+  const calibration: RadiometricCalibration = {
+    emissivity: float(0x20),
+    objectDistance: float(0x24),
+    reflectedTemperature: float(0x28) - KELVIN_OFFSET,
+    atmosphericTemperature: float(0x2c) - KELVIN_OFFSET,
+    irWindowTemperature: float(0x30) - KELVIN_OFFSET,
+    irWindowTransmission: float(0x34),
+    // Stored as a fraction on most cameras, as a percentage on a few
+    relativeHumidity: rawHumidity > 1 ? rawHumidity : rawHumidity * 100,
+    planckR1: float(0x58),
+    planckB: float(0x5c),
+    planckF: float(0x60),
+    atmosphericTransAlpha1: float(0x70),
+    atmosphericTransAlpha2: float(0x74),
+    atmosphericTransBeta1: float(0x78),
+    atmosphericTransBeta2: float(0x7c),
+    atmosphericTransX: float(0x80),
+    planckO: int32(0x308),
+    planckR2: float(0x30c),
+  };
+
+  const { planckR1, planckR2, planckB, emissivity } = calibration;
+  if (!Number.isFinite(planckR1) || !Number.isFinite(planckB) || planckR1 <= 0 || planckR2 <= 0 || planckB <= 0) {
+    return null;
+  }
+  if (!(emissivity > 0 && emissivity <= 1)) {
+    calibration.emissivity = 1;
+  }
+  if (!(calibration.irWindowTransmission > 0 && calibration.irWindowTransmission <= 1)) {
+    calibration.irWindowTransmission = 1;
+  }
+
+  const modelField = data.toString('latin1', 0xd4, 0xd4 + 32);
+  const cameraModel = modelField.split('\0')[0].trim();
+  const fieldOfView = float(0xb4);
+  return {
+    calibration,
+    cameraModel: cameraModel || undefined,
+    fieldOfView: fieldOfView > 0 && fieldOfView < 180 ? fieldOfView : undefined,
+  };
+}
+
+async function parseRawData(data: Buffer): Promise<{ width: number; height: number; raw: Uint16Array } | null> {
+  if (data.length < 0x20) return null;
+
+  const le = isLittleEndianRecord(data);
+  const width = le ? data.readUInt16LE(2) : data.readUInt16BE(2);
+  const height = le ? data.readUInt16LE(4) : data.readUInt16BE(4);
+  const pixels = data.subarray(0x20);
+
+  if (!width || !height) return null;
+
+  if (pixels.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    const { data: decoded, info } = await sharp(pixels)
+      .extractChannel(0)
+      .raw({ depth: 'ushort' })
+      .toBuffer({ resolveWithObject: true });
+
+    // FLIR writes the PNG samples with their bytes swapped
+    const raw = new Uint16Array(info.width * info.height);
+    for (let i = 0; i < raw.length; i++) {
+      const value = decoded.readUInt16LE(i * 2);
+      raw[i] = ((value & 0xff) << 8) | (value >> 8);
+    }
+    return { width: info.width, height: info.height, raw };
+  }
+
+  if (pixels.length < width * height * 2) return null;
+
+  const raw = new Uint16Array(width * height);
+  for (let i = 0; i < raw.length; i++) {
+    raw[i] = le ? pixels.readUInt16LE(i * 2) : pixels.readUInt16BE(i * 2);
+  }
+  return { width, height, raw };
+}
+
+// Build a raw-signal -> °C converter using the standard FLIR radiometric chain:
+// atmospheric transmission, IR window, reflected and atmospheric radiance
+// compensation, then the inverse Planck function
+function createRawToCelsius(c: RadiometricCalibration): (raw: number) => number {
+  const {
+    planckR1: R1, planckR2: R2, planckB: B, planckF: F, planckO: O,
+    emissivity: E, objectDistance, reflectedTemperature, atmosphericTemperature,
+    irWindowTemperature, irWindowTransmission: IRT, relativeHumidity,
+  } = c;
+
+  const planckRaw = (tempC: number) => R1 / (R2 * (Math.exp(B / (tempC + KELVIN_OFFSET)) - F)) - O;
+
+  const t = atmosphericTemperature;
+  const h2o = (relativeHumidity / 100) * Math.exp(1.5587 + 0.06939 * t - 0.00027816 * t * t + 0.00000068455 * t * t * t);
+  const halfDistance = Math.sqrt(Math.max(objectDistance, 0) / 2);
+  const tau = c.atmosphericTransX * Math.exp(-halfDistance * (c.atmosphericTransAlpha1 + c.atmosphericTransBeta1 * Math.sqrt(h2o)))
+    + (1 - c.atmosphericTransX) * Math.exp(-halfDistance * (c.atmosphericTransAlpha2 + c.atmosphericTransBeta2 * Math.sqrt(h2o)));
+  // Cameras without atmosphere constants produce NaN here; treat as no attenuation
+  const tau1 = Number.isFinite(tau) && tau > 0 ? tau : 1;
+  const tau2 = tau1;
+
+  const rawReflected = planckRaw(reflectedTemperature);
+  const rawAtmosphere = planckRaw(atmosphericTemperature);
+  const rawWindow = planckRaw(irWindowTemperature);
+
+  const reflected1 = (1 - E) / E * rawReflected;
+  const atmosphere1 = (1 - tau1) / E / tau1 * rawAtmosphere;
+  const window = (1 - IRT) / E / tau1 / IRT * rawWindow;
+  const atmosphere2 = (1 - tau2) / E / tau1 / IRT / tau2 * rawAtmosphere;
+  const compensation = reflected1 + atmosphere1 + window + atmosphere2;
+  const objectScale = E * tau1 * IRT * tau2;
+
+  return (raw: number) => {
+    const rawObject = raw / objectScale - compensation;
+    return B / Math.log(R1 / (R2 * (rawObject + O)) + F) - KELVIN_OFFSET;
+  };
+}
+
+// Detect a radiometric R-JPEG and decode its embedded raw thermal matrix to °C.
+// Returns null for files without FLIR radiometric data.
+export async function readRadiometricImage(buffer: Buffer): Promise<RadiometricImage | null> {
+  const container = extractFlirContainer(buffer);
+  if (!container) return null;
+
+  const records = parseFffRecords(container);
+  const cameraRecord = records.find(r => r.type === FFF_RECORD_CAMERA_INFO);
+  const rawRecord = records.find(r => r.type === FFF_RECORD_RAW_DATA);
+  if (!cameraRecord || !rawRecord) return null;
+
+  const cameraInfo = parseCameraInfo(cameraRecord.data);
+  const rawData = await parseRawData(rawRecord.data);
+  if (!cameraInfo || !rawData) return null;
+
+  const toCelsius = createRawToCelsius(cameraInfo.calibration);
+  const temperatures = new Float32Array(rawData.raw.length);
+  for (let i = 0; i < temperatures.length; i++) {
+    temperatures[i] = toCelsius(rawData.raw[i]);
+  }
+
+  return {
+    width: rawData.width,
+    height: rawData.height,
+    temperatures,
+    calibration: cameraInfo.calibration,
+    cameraModel: cameraInfo.cameraModel,
+    fieldOfView: cameraInfo.fieldOfView,
+  };
+}
+
+function accumulate(values: Iterable<number>): TemperatureStats | null {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let count = 0;
+
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+    count++;
+  }
+
+  if (count === 0) return null;
+  return { min: roundTemperature(min), max: roundTemperature(max), mean: roundTemperature(sum / count) };
+}
+
+function roundTemperature(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function imageTemperatureStats(image: RadiometricImage): TemperatureStats | null {
+  return accumulate(image.temperatures);
+}
+
+// Measure the temperatures inside a circular region given in the coordinate
+// space of the displayed image (x/y as percentages, radius in display pixels).
+// The raw thermal matrix is usually a different resolution, so scale into it.
+export function regionTemperatureStats(
+  image: RadiometricImage,
+  region: { x: number; y: number; radius: number },
+  displayWidth: number,
+  displayHeight: number
+): TemperatureStats | null {
+  const cx = (region.x / 100) * image.width;
+  const cy = (region.y / 100) * image.height;
+  const scale = displayWidth > 0 ? image.width / displayWidth : 1;
+  const scaleY = displayHeight > 0 ? image.height / displayHeight : 1;
+  const r = Math.max(1, region.radius * Math.max(scale, scaleY));
+
+  const x0 = Math.max(0, Math.floor(cx - r));
+  const x1 = Math.min(image.width - 1, Math.ceil(cx + r));
+  const y0 = Math.max(0, Math.floor(cy - r));
+  const y1 = Math.min(image.height - 1, Math.ceil(cy + r));
+
+  function* samples() {
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const dx = x - cx;
+        const dy = y - cy;
+        if (dx * dx + dy * dy <= r * r) {
+          yield image.temperatures[y * image.width + x];
+        }
+      }
+    }
+  }
+
+  return accumulate(samples());
+}
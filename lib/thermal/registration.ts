@@ -0,0 +1,286 @@
+import sharp from 'sharp';
+
+// Registration of a thermal frame onto the RGB frame taken at the same moment
+// by a dual-sensor payload. The sensors share a mount and point the same way,
+// so the mapping is a uniform scale plus an offset. The thermal lens is the
+// narrower one and its frame lands inside the RGB frame; the search compares
+// edge maps (module frames and row gaps show up in both bands) over
+// candidate scales and offsets, seeded from the lens FOVs when known. Panel
+// arrays repeat, so matches one module pitch apart score alike; the lenses
+// are near-coaxial, and the match closest to centre wins such ties.
+
+export interface Registration {
+  // Thermal pixel (x, y) lands on RGB pixel (offsetX + x * scale, offsetY + y * scale)
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  method: 'edge-correlation' | 'field-of-view';
+  // Normalised cross-correlation of the edge maps at the chosen alignment
+  score: number | null;
+  reliable: boolean;
+}
+
+export interface RegistrationOptions {
+  thermalFov?: number | null; // degrees
+  visualFov?: number | null;
+}
+
+interface EdgeMap {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+interface Alignment {
+  fraction: number; // thermal width as a fraction of the RGB width
+  x: number;
+  y: number;
+  score: number;
+}
+
+const COARSE_WIDTH = 120;
+const FINE_WIDTH = 360;
+const MIN_FRACTION = 0.3;
+const MAX_FRACTION = 1;
+const COARSE_FRACTION_STEP = 0.025;
+const FINE_FRACTION_STEP = 0.005;
+const FINE_OFFSET_RANGE = 8; // fine-grid pixels around the coarse match
+const MIN_RELIABLE_SCORE = 0.2;
+// Score handicap per frame diagonal of distance from the centred position
+const OFF_CENTRE_PENALTY = 0.5;
+const DEG = Math.PI / 180;
+
+async function edgeMap(buffer: Buffer, width: number): Promise<EdgeMap> {
+  const { data, info } = await sharp(buffer)
+    .greyscale()
+    .resize({ width: Math.max(8, Math.round(width)) })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Sobel gradient magnitude; the one-pixel border stays zero
+  const w = info.width;
+  const h = info.height;
+  const values = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const gx = data[i - w + 1] + 2 * data[i + 1] + data[i + w + 1]
+        - data[i - w - 1] - 2 * data[i - 1] - data[i + w - 1];
+      const gy = data[i + w - 1] + 2 * data[i + w] + data[i + w + 1]
+        - data[i - w - 1] - 2 * data[i - w] - data[i - w + 1];
+      values[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return { width: w, height: h, values };
+}
+
+// Zero-mean, unit-norm copy so the correlation only needs the window stats
+// of the RGB map
+function normalise(map: EdgeMap): Float32Array {
+  const n = map.values.length;
+  const mean = map.values.reduce((a, b) => a + b, 0) / n;
+  const out = new Float32Array(n);
+  let norm = 0;
+  for (let i = 0; i < n; i++) {
+    out[i] = map.values[i] - mean;
+    norm += out[i] * out[i];
+  }
+  const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+  for (let i = 0; i < n; i++) out[i] *= scale;
+  return out;
+}
+
+// Summed-area tables of the RGB map and its square for O(1) window stats
+function integralImages(map: EdgeMap) {
+  const w = map.width + 1;
+  const sum = new Float64Array(w * (map.height + 1));
+  const squares = new Float64Array(w * (map.height + 1));
+  for (let y = 0; y < map.height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < map.width; x++) {
+      const value = map.values[y * map.width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sum[(y + 1) * w + x + 1] = sum[y * w + x + 1] + rowSum;
+      squares[(y + 1) * w + x + 1] = squares[y * w + x + 1] + rowSquares;
+    }
+  }
+  const windowStats = (x: number, y: number, width: number, height: number) => {
+    const at = (table: Float64Array) =>
+      table[(y + height) * w + x + width] - table[y * w + x + width] - table[(y + height) * w + x] + table[y * w + x];
+    return { sum: at(sum), squares: at(squares) };
+  };
+  return windowStats;
+}
+
+async function searchAlignment(
+  thermal: Buffer,
+  visual: EdgeMap,
+  fractions: number[],
+  offsets: (template: EdgeMap) => Array<{ x: number; y: number }>
+): Promise<Alignment | null> {
+  const windowStats = integralImages(visual);
+  const diagonal = Math.hypot(visual.width, visual.height);
+  let best: Alignment | null = null;
+  let bestRank = -Infinity;
+
+  for (const fraction of fractions) {
+    const template = await edgeMap(thermal, visual.width * fraction);
+    if (template.width > visual.width || template.height > visual.height) continue;
+    const normalised = normalise(template);
+    const n = normalised.length;
+    const centreX = (visual.width - template.width) / 2;
+    const centreY = (visual.height - template.height) / 2;
+
+    for (const { x, y } of offsets(template)) {
+      if (x < 0 || y < 0 || x + template.width > visual.width || y + template.height > visual.height) continue;
+      const stats = windowStats(x, y, template.width, template.height);
+      const variance = stats.squares - (stats.sum * stats.sum) / n;
+      if (variance <= 0) continue;
+
+      let dot = 0;
+      for (let ty = 0; ty < template.height; ty++) {
+        const row = (y + ty) * visual.width + x;
+        const templateRow = ty * template.width;
+        for (let tx = 0; tx < template.width; tx++) {
+          dot += normalised[templateRow + tx] * visual.values[row + tx];
+        }
+      }
+      const score = dot / Math.sqrt(variance);
+      const rank = score - OFF_CENTRE_PENALTY * Math.hypot(x - centreX, y - centreY) / diagonal;
+      if (rank > bestRank) {
+        best = { fraction, x, y, score };
+        bestRank = rank;
+      }
+    }
+  }
+
+  return best;
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = from; value <= to + step / 2; value += step) values.push(Math.round(value * 1000) / 1000);
+  return values;
+}
+
+// Thermal width as a fraction of RGB width for two coaxial lenses
+function fovFraction(thermalFov: number, visualFov: number): number {
+  return Math.tan((thermalFov / 2) * DEG) / Math.tan((visualFov / 2) * DEG);
+}
+
+export async function registerThermalToVisual(
+  thermal: Buffer,
+  visual: Buffer,
+  options: RegistrationOptions = {}
+): Promise<Registration> {
+  const [thermalMeta, visualMeta] = await Promise.all([sharp(thermal).metadata(), sharp(visual).metadata()]);
+  const thermalWidth = thermalMeta.width || 1;
+  const thermalHeight = thermalMeta.height || 1;
+  const visualWidth = visualMeta.width || 1;
+  const visualHeight = visualMeta.height || 1;
+
+  const prior = options.thermalFov && options.visualFov
+    ? Math.min(MAX_FRACTION, fovFraction(options.thermalFov, options.visualFov))
+    : null;
+
+  // Coarse: every offset over the plausible scales, narrowed around the FOV
+  // prior when both lenses are known
+  const coarseMap = await edgeMap(visual, COARSE_WIDTH);
+  const coarseFractions = prior
+    ? range(Math.max(MIN_FRACTION, prior * 0.85), Math.min(MAX_FRACTION, prior * 1.15), COARSE_FRACTION_STEP / 2)
+    : range(MIN_FRACTION, MAX_FRACTION, COARSE_FRACTION_STEP);
+  const coarse = await searchAlignment(thermal, coarseMap, coarseFractions, template => {
+    const offsets: Array<{ x: number; y: number }> = [];
+    for (let y = 0; y <= coarseMap.height - template.height; y++) {
+      for (let x = 0; x <= coarseMap.width - template.width; x++) offsets.push({ x, y });
+    }
+    return offsets;
+  });
+
+  // Fine: a small neighbourhood of the coarse match at three times the resolution
+  let match: Alignment | null = null;
+  if (coarse) {
+    const fineMap = await edgeMap(visual, FINE_WIDTH);
+    const ratio = fineMap.width / coarseMap.width;
+    match = await searchAlignment(
+      thermal,
+      fineMap,
+      range(coarse.fraction - COARSE_FRACTION_STEP, coarse.fraction + COARSE_FRACTION_STEP, FINE_FRACTION_STEP)
+        .filter(f => f >= MIN_FRACTION && f <= MAX_FRACTION),
+      () => {
+        const offsets: Array<{ x: number; y: number }> = [];
+        const cx = Math.round(coarse.x * ratio);
+        const cy = Math.round(coarse.y * ratio);
+        for (let dy = -FINE_OFFSET_RANGE; dy <= FINE_OFFSET_RANGE; dy++) {
+          for (let dx = -FINE_OFFSET_RANGE; dx <= FINE_OFFSET_RANGE; dx++) {
+            offsets.push({ x: cx + dx, y: cy + dy });
+          }
+        }
+        return offsets;
+      }
+    );
+    if (match) {
+      const toFull = visualWidth / fineMap.width;
+      match = { ...match, x: match.x * toFull, y: match.y * toFull };
+    }
+  }
+
+  if (match && match.score >= MIN_RELIABLE_SCORE) {
+    return {
+      scale: Math.round(((match.fraction * visualWidth) / thermalWidth) * 10000) / 10000,
+      offsetX: Math.round(match.x),
+      offsetY: Math.round(match.y),
+      method: 'edge-correlation',
+      score: Math.round(match.score * 1000) / 1000,
+      reliable: true,
+    };
+  }
+
+  // Too little shared structure (uniform roof, night flight): centre the
+  // thermal frame using the lens geometry alone, or fall back to the best
+  // match and flag it
+  if (prior) {
+    const scale = (prior * visualWidth) / thermalWidth;
+    return {
+      scale: Math.round(scale * 10000) / 10000,
+      offsetX: Math.round((visualWidth - thermalWidth * scale) / 2),
+      offsetY: Math.round((visualHeight - thermalHeight * scale) / 2),
+      method: 'field-of-view',
+      score: match ? Math.round(match.score * 1000) / 1000 : null,
+      reliable: true,
+    };
+  }
+
+  const fraction = match?.fraction ?? MAX_FRACTION;
+  const scale = (fraction * visualWidth) / thermalWidth;
+  return {
+    scale: Math.round(scale * 10000) / 10000,
+    offsetX: Math.round(match?.x ?? (visualWidth - thermalWidth * scale) / 2),
+    offsetY: Math.round(match?.y ?? (visualHeight - thermalHeight * scale) / 2),
+    method: 'edge-correlation',
+    score: match ? Math.round(match.score * 1000) / 1000 : null,
+    reliable: false,
+  };
+}
+
+export function thermalToVisual(registration: Registration, x: number, y: number): { x: number; y: number } {
+  return {
+    x: registration.offsetX + x * registration.scale,
+    y: registration.offsetY + y * registration.scale,
+  };
+}
+
+export function projectBox(
+  registration: Registration,
+  box: { x: number; y: number; width: number; height: number }
+): { x: number; y: number; width: number; height: number } {
+  const origin = thermalToVisual(registration, box.x, box.y);
+  return {
+    x: Math.round(origin.x),
+    y: Math.round(origin.y),
+    width: Math.max(1, Math.round(box.width * registration.scale)),
+    height: Math.max(1, Math.round(box.height * registration.scale)),
+  };
+}
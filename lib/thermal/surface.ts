@@ -0,0 +1,200 @@
+import sharp from 'sharp';
+
+// Checks the RGB frame behind a thermal hotspot for a visible surface cause.
+// Bird droppings and soiling heat the cells they cover and show up as bright
+// or discoloured patches on the glass; debris and shading show up dark. A
+// hotspot with a clean surface above it points to a failure inside the module.
+
+export type SurfaceFinding = 'bird-dropping' | 'soiling' | 'debris-or-shading';
+export type HotspotCause = 'surface-obstruction' | 'cell-failure';
+
+export interface SurfaceEvidence {
+  finding: SurfaceFinding | null;
+  // Share of the patch covered by blobs that differ from the surrounding
+  // glass; thin lines across the patch (module frames, cell gaps) don't count
+  coverage: number;
+  // Mean luminance difference to the surroundings, 0-255
+  contrast: number;
+  cause: HotspotCause;
+}
+
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Buffer; // 3 channels, sRGB
+  scale: number; // decoded pixels per original pixel
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MAX_DECODE_WIDTH = 2048;
+const RING_FACTOR = 2.5; // surroundings span this multiple of the patch size
+const DEVIATION_SIGMA = 2.5;
+const MIN_DEVIATION = 18; // luminance levels; ignores sensor noise on uniform glass
+const MIN_COVERAGE = 0.15;
+// A component spanning this much of the patch with little fill is a line
+const LINE_SPAN = 0.9;
+const LINE_MAX_FILL = 0.35;
+const DROPPING_LUMINANCE = 170;
+const DROPPING_SATURATION = 0.2;
+
+// Decode once, downscaled for large RGB sensors
+export async function decodeRgb(buffer: Buffer): Promise<RgbImage> {
+  const metadata = await sharp(buffer).metadata();
+  const width = metadata.width || 1;
+  const scale = width > MAX_DECODE_WIDTH ? MAX_DECODE_WIDTH / width : 1;
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .toColourspace('srgb')
+    .resize({ width: Math.round(width * scale) })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data, scale };
+}
+
+function luminance(data: Buffer, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function saturation(data: Buffer, i: number): number {
+  const max = Math.max(data[i], data[i + 1], data[i + 2]);
+  const min = Math.min(data[i], data[i + 1], data[i + 2]);
+  return max > 0 ? (max - min) / max : 0;
+}
+
+function clampBox(box: Box, image: RgbImage): Box | null {
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(image.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(image.height, Math.ceil(box.y + box.height));
+  return x1 > x0 && y1 > y0 ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } : null;
+}
+
+// `box` is in original RGB pixels. Returns null when the box falls outside
+// the frame.
+export function inspectSurface(image: RgbImage, box: Box): SurfaceEvidence | null {
+  const patch = clampBox({
+    x: box.x * image.scale,
+    y: box.y * image.scale,
+    width: box.width * image.scale,
+    height: box.height * image.scale,
+  }, image);
+  if (!patch) return null;
+
+  const cx = patch.x + patch.width / 2;
+  const cy = patch.y + patch.height / 2;
+  const ring = clampBox({
+    x: cx - (patch.width * RING_FACTOR) / 2,
+    y: cy - (patch.height * RING_FACTOR) / 2,
+    width: patch.width * RING_FACTOR,
+    height: patch.height * RING_FACTOR,
+  }, image);
+  if (!ring) return null;
+
+  const inPatch = (x: number, y: number) =>
+    x >= patch.x && x < patch.x + patch.width && y >= patch.y && y < patch.y + patch.height;
+
+  // Surrounding glass statistics
+  let ringCount = 0;
+  let ringSum = 0;
+  let ringSquares = 0;
+  for (let y = ring.y; y < ring.y + ring.height; y++) {
+    for (let x = ring.x; x < ring.x + ring.width; x++) {
+      if (inPatch(x, y)) continue;
+      const value = luminance(image.data, (y * image.width + x) * 3);
+      ringCount++;
+      ringSum += value;
+      ringSquares += value * value;
+    }
+  }
+  if (ringCount === 0) return null;
+  const ringMean = ringSum / ringCount;
+  const ringStd = Math.sqrt(Math.max(0, ringSquares / ringCount - ringMean * ringMean));
+  const threshold = Math.max(MIN_DEVIATION, ringStd * DEVIATION_SIGMA);
+
+  // Deviating pixels of the patch, grouped into 4-connected components
+  const total = patch.width * patch.height;
+  const pixelIndex = (px: number, py: number) => ((patch.y + py) * image.width + patch.x + px) * 3;
+  const mask = new Uint8Array(total);
+  for (let py = 0; py < patch.height; py++) {
+    for (let px = 0; px < patch.width; px++) {
+      if (Math.abs(luminance(image.data, pixelIndex(px, py)) - ringMean) >= threshold) mask[py * patch.width + px] = 1;
+    }
+  }
+
+  let deviating = 0;
+  let deviationSum = 0;
+  let brightLuminance = 0;
+  let brightSaturation = 0;
+  let bright = 0;
+  const seen = new Uint8Array(total);
+  for (let start = 0; start < total; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    let minX = patch.width, maxX = 0, minY = patch.height, maxY = 0;
+    while (stack.length > 0) {
+      const current = stack.pop() as number;
+      component.push(current);
+      const px = current % patch.width;
+      const py = Math.floor(current / patch.width);
+      minX = Math.min(minX, px);
+      maxX = Math.max(maxX, px);
+      minY = Math.min(minY, py);
+      maxY = Math.max(maxY, py);
+      const neighbours = [
+        px > 0 ? current - 1 : -1,
+        px < patch.width - 1 ? current + 1 : -1,
+        py > 0 ? current - patch.width : -1,
+        py < patch.height - 1 ? current + patch.width : -1,
+      ];
+      neighbours.forEach(next => {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+
+    const spansPatch = (maxX - minX + 1) >= patch.width * LINE_SPAN || (maxY - minY + 1) >= patch.height * LINE_SPAN;
+    if (spansPatch && component.length < total * LINE_MAX_FILL) continue;
+
+    component.forEach(index => {
+      const i = pixelIndex(index % patch.width, Math.floor(index / patch.width));
+      const deviation = luminance(image.data, i) - ringMean;
+      deviating++;
+      deviationSum += deviation;
+      if (deviation > 0) {
+        bright++;
+        brightLuminance += luminance(image.data, i);
+        brightSaturation += saturation(image.data, i);
+      }
+    });
+  }
+
+  const coverage = deviating / total;
+  const contrast = deviating > 0 ? deviationSum / deviating : 0;
+  let finding: SurfaceFinding | null = null;
+  if (coverage >= MIN_COVERAGE) {
+    if (contrast < 0) {
+      finding = 'debris-or-shading';
+    } else if (bright > 0 && brightLuminance / bright >= DROPPING_LUMINANCE && brightSaturation / bright <= DROPPING_SATURATION) {
+      finding = 'bird-dropping';
+    } else {
+      finding = 'soiling';
+    }
+  }
+
+  return {
+    finding,
+    coverage: Math.round(coverage * 100) / 100,
+    contrast: Math.round(contrast * 10) / 10,
+    cause: finding ? 'surface-obstruction' : 'cell-failure',
+  };
+}
@@ -0,0 +1,116 @@
+// Tiling for stitched orthomosaics that exceed the single-frame limit. Tiles
+// overlap so a hotspot cut by one seam appears whole in at least one tile;
+// detections from neighbouring tiles that cover the same spot are grouped and
+// merged back into one finding.
+
+export interface Tile {
+  index: number;
+  row: number;
+  column: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TiledDetection {
+  tile: number;
+  bbox: Box; // mosaic pixels
+}
+
+// Two detections from different tiles are the same hotspot when this much of
+// the smaller box lies inside the other
+const MIN_SEAM_OVERLAP = 0.3;
+
+function axisPositions(length: number, tileSize: number, overlap: number): number[] {
+  if (length <= tileSize) return [0];
+  const step = tileSize - overlap;
+  const positions: number[] = [];
+  for (let position = 0; position + tileSize < length; position += step) {
+    positions.push(position);
+  }
+  // Last tile is aligned to the far edge rather than running past it
+  positions.push(length - tileSize);
+  return positions;
+}
+
+export function planTiles(width: number, height: number, tileSize: number, overlap: number): Tile[] {
+  const size = Math.max(overlap * 2, tileSize);
+  const columns = axisPositions(width, size, overlap);
+  const rows = axisPositions(height, size, overlap);
+  const tiles: Tile[] = [];
+
+  rows.forEach((y, row) => {
+    columns.forEach((x, column) => {
+      tiles.push({
+        index: tiles.length,
+        row: row + 1,
+        column: column + 1,
+        x,
+        y,
+        width: Math.min(size, width - x),
+        height: Math.min(size, height - y),
+      });
+    });
+  });
+
+  return tiles;
+}
+
+// Convert a tile-relative box to mosaic pixels
+export function toMosaicBox(box: Box, tile: Tile): Box {
+  return { x: box.x + tile.x, y: box.y + tile.y, width: box.width, height: box.height };
+}
+
+export function unionBox(boxes: Box[]): Box {
+  const x0 = Math.min(...boxes.map(b => b.x));
+  const y0 = Math.min(...boxes.map(b => b.y));
+  const x1 = Math.max(...boxes.map(b => b.x + b.width));
+  const y1 = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+function overlapRatio(a: Box, b: Box): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const smaller = Math.min(a.width * a.height, b.width * b.height);
+  return smaller > 0 ? (width * height) / smaller : 0;
+}
+
+// Group detections that describe the same hotspot seen from overlapping
+// tiles. Returns groups of indices into `detections`; detections within one
+// tile are never merged, since the detector already separated them.
+export function groupSeamDetections(detections: TiledDetection[]): number[][] {
+  const parent = detections.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < detections.length; i++) {
+    for (let j = i + 1; j < detections.length; j++) {
+      if (detections[i].tile === detections[j].tile) continue;
+      if (overlapRatio(detections[i].bbox, detections[j].bbox) >= MIN_SEAM_OVERLAP) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  detections.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+  return Array.from(groups.values());
+}
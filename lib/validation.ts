@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validate, Schema } from '@/lib/ai/schema';
+
+// Route-boundary checks against the contracts in lib/contracts.ts. A bad
+// request gets a 400 naming every problem, e.g.
+// { error, issues: ['defects[2].severity: expected one of ...'], requestId }.
+// `ids` are echoed in the error body, e.g. { requestId } or { reportId }.
+
+export type Checked<T> = { value: T } | { response: NextResponse };
+
+export function checkValue<T>(
+  schema: Schema<T>,
+  value: unknown,
+  ids: Record<string, string> = {},
+  headers?: HeadersInit
+): Checked<T> {
+  const { value: checked, errors } = validate(schema, value);
+  if (errors.length === 0) return { value: checked };
+  return {
+    response: NextResponse.json(
+      { error: `Invalid request: ${errors.join('; ')}`, issues: errors, ...ids },
+      { status: 400, headers }
+    ),
+  };
+}
+
+export async function checkBody<T>(
+  request: NextRequest,
+  schema: Schema<T>,
+  ids: Record<string, string> = {},
+  headers?: HeadersInit
+): Promise<Checked<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      response: NextResponse.json({ error: 'Request body must be JSON', ...ids }, { status: 400, headers }),
+    };
+  }
+  return checkValue(schema, body, ids, headers);
+}
+
+// Query parameters as a plain object; empty parameters count as absent
+export function queryValues(request: NextRequest): Record<string, string> {
+  const values: Record<string, string> = {};
+  new URL(request.url).searchParams.forEach((value, name) => {
+    if (value) values[name] = value;
+  });
+  return values;
+}
+
+// Multipart fields as a plain object, the first value of each
+export function formValues(formData: FormData): Record<string, FormDataEntryValue> {
+  const values: Record<string, FormDataEntryValue> = {};
+  formData.forEach((value, name) => {
+    if (!(name in values)) values[name] = value;
+  });
+  return values;
+}
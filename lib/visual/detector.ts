@@ -0,0 +1,243 @@
+import sharp from 'sharp';
+import { visualDefect, VisualDefect, VisualDefectType } from './taxonomy';
+
+// Deterministic colour detector for RGB frames. Module glass is dark and blue
+// or black; droppings, dust, plants and scorching stand out from it by colour
+// and brightness. Cracks, snail trails, delamination and frame damage need
+// texture and context the heuristics can't judge reliably, so only the vision
+// model reports those.
+
+export const LOCAL_VISUAL_DEFECT_TYPES: VisualDefectType[] = [
+  'bird-dropping',
+  'soiling',
+  'vegetation-shading',
+  'burn-mark',
+];
+
+export interface LocalVisualFinding {
+  x: number; // percent from left
+  y: number; // percent from top
+  radius: number; // source pixels
+  area: number; // source pixels
+  bbox: { x: number; y: number; width: number; height: number }; // source pixels
+  description: string;
+  defect: VisualDefect;
+}
+
+export interface LocalVisualResult {
+  findings: LocalVisualFinding[];
+  // Share of the frame that looks like module glass
+  panelCoverage: number;
+}
+
+const MAX_WORKING_DIMENSION = 640;
+const WINDOW_FRACTION = 0.06; // glass reference window relative to the shorter side
+const MIN_PANEL_FRACTION = 0.3; // candidates must sit among module glass
+const MIN_AREA_FRACTION = 0.00005;
+const MAX_FINDINGS = 50;
+// Elongated components with little fill are frames, rails or cables, and
+// sparse meshes are the frame grid between modules
+const LINE_ASPECT = 6;
+const LINE_MAX_FILL = 0.4;
+const MESH_MAX_FILL = 0.2;
+// Bright deposits are eroded by this many working pixels before labelling so
+// they separate from the aluminium frames they often sit on
+const BRIGHT_EROSION = 2;
+
+// Glass: dark, and blue or neutral rather than warm
+const GLASS_MAX_LUMINANCE = 120;
+
+const CLASS_TYPES: VisualDefectType[] = ['bird-dropping', 'soiling', 'vegetation-shading', 'burn-mark'];
+
+function classifyPixel(r: number, g: number, b: number, luminance: number, glassMean: number): number {
+  const max = Math.max(r, g, b);
+  const saturation = max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+  if (g > r + 15 && g > b + 10 && saturation > 0.25) return 3;
+  if (luminance > 170 && saturation < 0.25 && luminance - glassMean > 70) return 1;
+  if (r > b + 15 && saturation > 0.15 && luminance - glassMean > 25) return 2;
+  if (r > b + 15 && saturation > 0.3 && luminance < 90) return 4;
+  return 0;
+}
+
+function describe(type: VisualDefectType, coverage: number): string {
+  const share = coverage >= 0.001 ? `${Math.round(coverage * 1000) / 10}% of the frame` : 'a small area';
+  switch (type) {
+    case 'bird-dropping':
+      return `Bright low-saturation deposit on the glass covering ${share}`;
+    case 'soiling':
+      return `Brown or dusty film on the glass covering ${share}`;
+    case 'vegetation-shading':
+      return `Vegetation over the modules covering ${share}`;
+    default:
+      return `Dark brown discolouration on the module covering ${share}`;
+  }
+}
+
+export async function detectVisualDefects(buffer: Buffer): Promise<LocalVisualResult> {
+  const metadata = await sharp(buffer).metadata();
+  const sourceWidth = metadata.width || 1;
+  const sourceHeight = metadata.height || 1;
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .resize({
+      width: MAX_WORKING_DIMENSION,
+      height: MAX_WORKING_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const pixelCount = width * height;
+  const luminance = new Float32Array(pixelCount);
+
+  // Summed-area tables of glass pixels and their luminance
+  const stride = width + 1;
+  const glassCount = new Float64Array(stride * (height + 1));
+  const glassSum = new Float64Array(stride * (height + 1));
+  let glassPixels = 0;
+  for (let y = 0; y < height; y++) {
+    let rowCount = 0;
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const r = data[i * 3];
+      const g = data[i * 3 + 1];
+      const b = data[i * 3 + 2];
+      const value = 0.299 * r + 0.587 * g + 0.114 * b;
+      luminance[i] = value;
+      if (value < GLASS_MAX_LUMINANCE && b >= r - 5 && b >= g - 20) {
+        rowCount++;
+        rowSum += value;
+        glassPixels++;
+      }
+      glassCount[(y + 1) * stride + x + 1] = glassCount[y * stride + x + 1] + rowCount;
+      glassSum[(y + 1) * stride + x + 1] = glassSum[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(4, Math.round(Math.min(width, height) * WINDOW_FRACTION));
+  const labels = new Uint8Array(pixelCount);
+  const contrast = new Float32Array(pixelCount);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const at = (table: Float64Array) =>
+        table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+      const count = at(glassCount);
+      if (count < (y1 - y0) * (x1 - x0) * MIN_PANEL_FRACTION) continue;
+
+      const i = y * width + x;
+      const glassMean = at(glassSum) / count;
+      labels[i] = classifyPixel(data[i * 3], data[i * 3 + 1], data[i * 3 + 2], luminance[i], glassMean);
+      contrast[i] = Math.abs(luminance[i] - glassMean);
+    }
+  }
+
+  const bright = labels.slice();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (bright[i] !== 1) continue;
+      const keep = x >= BRIGHT_EROSION && x < width - BRIGHT_EROSION && y >= BRIGHT_EROSION && y < height - BRIGHT_EROSION &&
+        bright[i - BRIGHT_EROSION] === 1 && bright[i + BRIGHT_EROSION] === 1 &&
+        bright[i - BRIGHT_EROSION * width] === 1 && bright[i + BRIGHT_EROSION * width] === 1;
+      if (!keep) labels[i] = 0;
+    }
+  }
+
+  // 8-connected components per class
+  const seen = new Uint8Array(pixelCount);
+  const stack = new Int32Array(pixelCount);
+  const minArea = Math.max(6, Math.round(pixelCount * MIN_AREA_FRACTION));
+  const scaleX = sourceWidth / width;
+  const scaleY = sourceHeight / height;
+  const findings: LocalVisualFinding[] = [];
+
+  for (let start = 0; start < pixelCount; start++) {
+    const label = labels[start];
+    if (!label || seen[start]) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    let area = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumContrast = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      area++;
+      sumX += x;
+      sumY += y;
+      sumContrast += contrast[i];
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          const j = ny * width + nx;
+          if (labels[j] === label && !seen[j]) {
+            seen[j] = 1;
+            stack[top++] = j;
+          }
+        }
+      }
+    }
+
+    if (label === 1) {
+      minX = Math.max(0, minX - BRIGHT_EROSION);
+      minY = Math.max(0, minY - BRIGHT_EROSION);
+      maxX = Math.min(width - 1, maxX + BRIGHT_EROSION);
+      maxY = Math.min(height - 1, maxY + BRIGHT_EROSION);
+    }
+    if (area < minArea) continue;
+    const boxWidth = maxX - minX + 1;
+    const boxHeight = maxY - minY + 1;
+    const aspect = Math.max(boxWidth, boxHeight) / Math.min(boxWidth, boxHeight);
+    const fill = area / (boxWidth * boxHeight);
+    if ((aspect >= LINE_ASPECT && fill < LINE_MAX_FILL) || fill < MESH_MAX_FILL) continue;
+
+    const type = CLASS_TYPES[label - 1];
+    const meanContrast = sumContrast / area;
+    // Stronger contrast and compact blobs are more convincing; burn marks are
+    // the easiest to confuse with shadows and stay tentative
+    const confidence = Math.min(type === 'burn-mark' ? 0.6 : 0.85, 0.35 + meanContrast / 200 + fill * 0.15);
+    const sourceArea = Math.round(area * scaleX * scaleY);
+
+    findings.push({
+      x: Math.round(((sumX / area + 0.5) / width) * 100),
+      y: Math.round(((sumY / area + 0.5) / height) * 100),
+      radius: Math.max(1, Math.round(Math.sqrt(sourceArea / Math.PI))),
+      area: sourceArea,
+      bbox: {
+        x: Math.round(minX * scaleX),
+        y: Math.round(minY * scaleY),
+        width: Math.max(1, Math.round(boxWidth * scaleX)),
+        height: Math.max(1, Math.round(boxHeight * scaleY)),
+      },
+      description: describe(type, area / pixelCount),
+      defect: visualDefect(type, confidence),
+    });
+  }
+
+  findings.sort((a, b) => b.defect.confidence - a.defect.confidence || b.area - a.area);
+  return {
+    findings: findings.slice(0, MAX_FINDINGS),
+    panelCoverage: Math.round((glassPixels / pixelCount) * 100) / 100,
+  };
+}
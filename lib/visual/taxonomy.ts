@@ -0,0 +1,131 @@
+// Defect taxonomy for RGB inspections of PV modules. Every finding reported
+// by the visual pipeline carries one of these types, so results can be
+// filtered, counted and turned into work orders without reading prose.
+
+export type VisualDefectType =
+  | 'cracked-glass'
+  | 'snail-trail'
+  | 'delamination'
+  | 'burn-mark'
+  | 'soiling'
+  | 'bird-dropping'
+  | 'vegetation-shading'
+  | 'frame-damage';
+
+export type VisualDefectSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface VisualDefect {
+  type: VisualDefectType;
+  label: string;
+  severity: VisualDefectSeverity;
+  confidence: number; // 0..1
+}
+
+interface DefectDefinition {
+  label: string;
+  // Severity when the finding itself gives no better indication
+  severity: VisualDefectSeverity;
+  description: string;
+  aliases: string[];
+}
+
+export const VISUAL_DEFECTS: Record<VisualDefectType, DefectDefinition> = {
+  'cracked-glass': {
+    label: 'Cracked glass',
+    severity: 'high',
+    description: 'broken or shattered front glass, radial or spider-web cracks',
+    aliases: ['crack', 'cracked', 'broken-glass', 'shattered-glass', 'glass-breakage'],
+  },
+  'snail-trail': {
+    label: 'Snail trail',
+    severity: 'medium',
+    description: 'dark discoloured lines along cell micro-cracks',
+    aliases: ['snail-trails', 'snail-track', 'discoloration-lines'],
+  },
+  delamination: {
+    label: 'Delamination',
+    severity: 'high',
+    description: 'encapsulant separation, bubbles or milky patches under the glass',
+    aliases: ['delaminated', 'bubbling', 'encapsulant-delamination', 'backsheet-delamination'],
+  },
+  'burn-mark': {
+    label: 'Burn mark',
+    severity: 'critical',
+    description: 'brown or black scorching on cells, busbars or the junction box',
+    aliases: ['burn', 'burnt', 'burned', 'scorch', 'scorching', 'hotspot-burn', 'browning'],
+  },
+  soiling: {
+    label: 'Soiling',
+    severity: 'low',
+    description: 'dust, dirt, sand or pollen film on the glass',
+    aliases: ['dust', 'dirt', 'dirty', 'sand'],
+  },
+  'bird-dropping': {
+    label: 'Bird dropping',
+    severity: 'medium',
+    description: 'bright white or grey droppings on the glass',
+    aliases: ['bird-droppings', 'droppings', 'guano'],
+  },
+  'vegetation-shading': {
+    label: 'Vegetation shading',
+    severity: 'medium',
+    description: 'grass, weeds, branches or leaves covering or shading the module',
+    aliases: ['vegetation', 'shading', 'overgrowth', 'leaves', 'plant-shading'],
+  },
+  'frame-damage': {
+    label: 'Frame damage',
+    severity: 'medium',
+    description: 'bent, cracked or corroded module frame, broken clamps',
+    aliases: ['frame', 'bent-frame', 'damaged-frame', 'frame-corrosion'],
+  },
+};
+
+export const VISUAL_DEFECT_TYPES = Object.keys(VISUAL_DEFECTS) as VisualDefectType[];
+
+const SEVERITY_RANK: Record<VisualDefectSeverity, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+function normaliseName(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+// Map a model-reported type ("Bird droppings", "snail_trail") onto the
+// taxonomy. Returns null for anything outside it.
+export function parseVisualDefectType(value: unknown): VisualDefectType | null {
+  if (typeof value !== 'string') return null;
+  const name = normaliseName(value);
+  if (name in VISUAL_DEFECTS) return name as VisualDefectType;
+  const match = VISUAL_DEFECT_TYPES.find(type => VISUAL_DEFECTS[type].aliases.includes(name));
+  return match ?? null;
+}
+
+export function parseVisualDefectSeverity(value: unknown): VisualDefectSeverity | null {
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return name in SEVERITY_RANK ? name as VisualDefectSeverity : null;
+}
+
+export function visualDefect(
+  type: VisualDefectType,
+  confidence: number,
+  severity?: VisualDefectSeverity | null
+): VisualDefect {
+  return {
+    type,
+    label: VISUAL_DEFECTS[type].label,
+    severity: severity ?? VISUAL_DEFECTS[type].severity,
+    confidence: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100,
+  };
+}
+
+// Overall severity of a set of findings, 'none' when there are none
+export function overallVisualSeverity(defects: VisualDefect[]): VisualDefectSeverity | 'none' {
+  return defects.reduce<VisualDefectSeverity | 'none'>(
+    (worst, defect) => worst === 'none' || SEVERITY_RANK[defect.severity] > SEVERITY_RANK[worst] ? defect.severity : worst,
+    'none'
+  );
+}
+
+export function countByDefectType(defects: VisualDefect[]): Record<VisualDefectType, number> {
+  const counts = Object.fromEntries(VISUAL_DEFECT_TYPES.map(type => [type, 0])) as Record<VisualDefectType, number>;
+  defects.forEach(defect => counts[defect.type]++);
+  return counts;
+}
@@ -7,16 +7,19 @@ declare module "next-auth" {
       id: string;
       email: string;
       name: string;
+      organizationId: string;
     } & DefaultSession["user"];
   }
 
   interface User extends DefaultUser {
     id: string;
+    organizationId?: string;
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT extends DefaultJWT {
     id: string;
+    organizationId?: string;
   }
 }